@@ -8,6 +8,10 @@ import CreateQuiz from './pages/CreateQuiz';
 import EditQuiz from './pages/EditQuiz';
 import TakeQuiz from './pages/TakeQuiz';
 import QuizResults from './pages/QuizResults';
+import QuestionBank from './pages/QuestionBank';
+import Classes from './pages/Classes';
+import MyAttempts from './pages/MyAttempts';
+import Admin from './pages/Admin';
 import ProtectedRoute from './components/ProtectedRoute';
 
 function App() {
@@ -22,7 +26,7 @@ function App() {
             <Route
               path="/dashboard"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute role="teacher">
                   <Dashboard />
                 </ProtectedRoute>
               }
@@ -30,7 +34,7 @@ function App() {
             <Route
               path="/create"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute role="teacher">
                   <CreateQuiz />
                 </ProtectedRoute>
               }
@@ -38,7 +42,7 @@ function App() {
             <Route
               path="/edit/:id"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute role="teacher">
                   <EditQuiz />
                 </ProtectedRoute>
               }
@@ -46,11 +50,43 @@ function App() {
             <Route
               path="/results/:id"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute role="teacher">
                   <QuizResults />
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/bank"
+              element={
+                <ProtectedRoute role="teacher">
+                  <QuestionBank />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/classes"
+              element={
+                <ProtectedRoute role="teacher">
+                  <Classes />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/my-attempts"
+              element={
+                <ProtectedRoute role="student">
+                  <MyAttempts />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin"
+              element={
+                <ProtectedRoute role="admin">
+                  <Admin />
+                </ProtectedRoute>
+              }
+            />
           </Routes>
         </div>
       </Router>
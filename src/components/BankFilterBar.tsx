@@ -0,0 +1,52 @@
+import React from 'react';
+import { BankQuestion, Difficulty } from '../types/database';
+import { BankFilters, difficultyLabels, getBankTags } from '../lib/bank';
+import { Search } from 'lucide-react';
+
+interface BankFilterBarProps {
+  questions: BankQuestion[];
+  filters: BankFilters;
+  onChange: (filters: BankFilters) => void;
+}
+
+const BankFilterBar: React.FC<BankFilterBarProps> = ({ questions, filters, onChange }) => {
+  const tags = getBankTags(questions);
+  const selectClassName = 'border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm';
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3">
+      <div className="relative flex-1">
+        <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={filters.search}
+          onChange={(e) => onChange({ ...filters, search: e.target.value })}
+          className="block w-full border border-gray-300 rounded-lg pl-9 pr-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm"
+          placeholder="Search questions and tags"
+        />
+      </div>
+      <select
+        value={filters.tag}
+        onChange={(e) => onChange({ ...filters, tag: e.target.value })}
+        className={selectClassName}
+      >
+        <option value="">All tags</option>
+        {tags.map(tag => (
+          <option key={tag} value={tag}>{tag}</option>
+        ))}
+      </select>
+      <select
+        value={filters.difficulty}
+        onChange={(e) => onChange({ ...filters, difficulty: e.target.value as Difficulty | '' })}
+        className={selectClassName}
+      >
+        <option value="">Any difficulty</option>
+        {(Object.keys(difficultyLabels) as Difficulty[]).map(difficulty => (
+          <option key={difficulty} value={difficulty}>{difficultyLabels[difficulty]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default BankFilterBar;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { toQuestionContent, validateQuestion } from '../lib/questions';
+import { useAuth } from '../contexts/AuthContext';
+import { QuestionDraft } from '../types/database';
+import LoadingSpinner from './LoadingSpinner';
+import { GitFork, Library } from 'lucide-react';
+
+interface BankLinkControlsProps {
+  question: QuestionDraft;
+  questionIndex: number;
+  onChange: (changes: Partial<QuestionDraft>) => void;
+}
+
+const BankLinkControls: React.FC<BankLinkControlsProps> = ({ question, questionIndex, onChange }) => {
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const saveToBank = async () => {
+    if (!user) return;
+
+    const problem = validateQuestion(question, questionIndex);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('bank_questions')
+        .insert({ ...toQuestionContent(question), created_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onChange({ bank_question_id: data.id });
+    } catch (error) {
+      console.error('Error saving question to bank:', error);
+      alert('Failed to save the question to the bank. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const forkQuestion = () => {
+    if (window.confirm('Fork this question? It will keep its current content but stop receiving edits made in the question bank.')) {
+      onChange({ bank_question_id: null });
+    }
+  };
+
+  if (question.bank_question_id) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800">
+          <Library className="h-3 w-3" />
+          Linked to question bank
+        </span>
+        <span className="text-gray-500">Edit the content from the Question Bank page, or</span>
+        <button
+          type="button"
+          onClick={forkQuestion}
+          className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium transition-colors"
+        >
+          <GitFork className="h-4 w-4" />
+          Fork
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={saveToBank}
+      disabled={saving}
+      className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400 font-medium transition-colors"
+    >
+      {saving ? <LoadingSpinner size="small" /> : <Library className="h-4 w-4" />}
+      {saving ? 'Saving...' : 'Save to Question Bank'}
+    </button>
+  );
+};
+
+export default BankLinkControls;
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { difficultyBadgeClasses, difficultyLabels, emptyBankFilters, filterBankQuestions } from '../lib/bank';
+import { questionTypeLabels } from '../lib/questions';
+import { useAuth } from '../contexts/AuthContext';
+import { BankQuestion } from '../types/database';
+import BankFilterBar from './BankFilterBar';
+import LoadingSpinner from './LoadingSpinner';
+import { Library, X } from 'lucide-react';
+
+interface BankQuestionPickerProps {
+  onAdd: (questions: BankQuestion[]) => void;
+  onClose: () => void;
+}
+
+const BankQuestionPicker: React.FC<BankQuestionPickerProps> = ({ onAdd, onClose }) => {
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [filters, setFilters] = useState(emptyBankFilters);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchBankQuestions();
+    }
+  }, [user]);
+
+  const fetchBankQuestions = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bank_questions')
+        .select('*')
+        .eq('created_by', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      setBankQuestions(data || []);
+    } catch (error) {
+      console.error('Error fetching question bank:', error);
+      alert('Failed to load the question bank. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (questionId: string) => {
+    setSelectedIds(selectedIds.includes(questionId)
+      ? selectedIds.filter(id => id !== questionId)
+      : [...selectedIds, questionId]);
+  };
+
+  const handleAdd = () => {
+    // Keep the order the questions are listed in
+    onAdd(bankQuestions.filter(question => selectedIds.includes(question.id)));
+  };
+
+  const visibleQuestions = filterBankQuestions(bankQuestions, filters);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Library className="h-5 w-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Add from Question Bank</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200">
+          <BankFilterBar questions={bankQuestions} filters={filters} onChange={setFilters} />
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-200">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : visibleQuestions.length === 0 ? (
+            <div className="text-center py-12 px-6 text-sm text-gray-600">
+              {bankQuestions.length === 0 ? (
+                <>
+                  Your question bank is empty. Save questions to it from a quiz or add them on the{' '}
+                  <Link to="/bank" className="text-blue-600 hover:text-blue-700 font-medium">
+                    Question Bank
+                  </Link>{' '}
+                  page.
+                </>
+              ) : (
+                'No questions match these filters.'
+              )}
+            </div>
+          ) : (
+            visibleQuestions.map(question => (
+              <label key={question.id} className="flex items-start gap-3 px-6 py-4 cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(question.id)}
+                  onChange={() => toggleSelected(question.id)}
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded flex-shrink-0"
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 break-words">{question.question_text}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    <span className="text-xs text-gray-500">{questionTypeLabels[question.question_type]}</span>
+                    {question.difficulty && (
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${difficultyBadgeClasses[question.difficulty]}`}>
+                        {difficultyLabels[question.difficulty]}
+                      </span>
+                    )}
+                    {question.tags.map(tag => (
+                      <span key={tag} className="inline-flex px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={selectedIds.length === 0}
+            className="px-4 py-2 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+          >
+            Add {selectedIds.length > 0 ? selectedIds.length : ''} Question{selectedIds.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BankQuestionPicker;
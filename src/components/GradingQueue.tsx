@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { formatAnswer, formatPoints, isServed } from '../lib/questions';
+import { Question, Response } from '../types/database';
+import LoadingSpinner from './LoadingSpinner';
+import { ClipboardCheck, Save } from 'lucide-react';
+
+interface GradingQueueProps {
+  // Questions a response's answers line up with
+  questionsFor: (response: Response) => Question[];
+  responses: Response[];
+  onGraded: (response: Response) => void;
+}
+
+interface GradeDraft {
+  points: string;
+  feedback: string;
+}
+
+const GradingQueue: React.FC<GradingQueueProps> = ({ questionsFor, responses, onGraded }) => {
+  const [drafts, setDrafts] = useState<{ [key: string]: GradeDraft }>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  // Oldest submissions first, one entry per essay still waiting for a grade
+  const items = responses
+    .filter(response => response.needs_grading)
+    .reverse()
+    .flatMap(response => {
+      const questions = questionsFor(response);
+      return questions
+        .map((question, index) => ({ response, question, index, key: `${response.id}:${index}` }))
+        .filter(({ question, index }) =>
+          question.question_type === 'essay' &&
+          response.question_scores[index] === null &&
+          isServed(response, questions.length, index)
+        );
+    });
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const getDraft = (key: string): GradeDraft => drafts[key] ?? { points: '', feedback: '' };
+
+  const updateDraft = (key: string, changes: Partial<GradeDraft>) => {
+    setDrafts({ ...drafts, [key]: { ...getDraft(key), ...changes } });
+  };
+
+  const saveGrade = async (response: Response, question: Question, index: number, key: string) => {
+    const draft = getDraft(key);
+    const points = Number(draft.points);
+    if (draft.points.trim() === '' || !(points >= 0 && points <= question.points)) {
+      alert(`Please enter points between 0 and ${formatPoints(question.points)}`);
+      return;
+    }
+
+    setSavingKey(key);
+    try {
+      const { data, error } = await supabase.rpc('grade_essay', {
+        p_response_id: response.id,
+        p_question_index: index,
+        p_points: points,
+        p_feedback: draft.feedback
+      });
+
+      if (error) throw error;
+
+      onGraded(data);
+    } catch (error) {
+      console.error('Error grading essay:', error);
+      alert('Failed to save grade. Please try again.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+        <ClipboardCheck className="h-5 w-5 text-amber-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Grading Queue</h2>
+        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+          {items.length} to grade
+        </span>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {items.map(({ response, question, index, key }) => {
+          const draft = getDraft(key);
+          return (
+            <div key={key} className="p-6 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                <div className="text-sm font-medium text-gray-900 break-words">
+                  {response.student_name}
+                  <span className="ml-2 text-gray-500 font-normal">{response.student_register_number}</span>
+                </div>
+                <div className="text-xs text-gray-400">
+                  Submitted {new Date(response.submitted_at).toLocaleString()}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  {index + 1}. {question.question_text}
+                </p>
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-900 whitespace-pre-wrap break-words">
+                  {formatAnswer(response.answers[index])}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Points (0–{formatPoints(question.points)}) *
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={question.points}
+                    step="any"
+                    value={draft.points}
+                    onChange={(e) => updateDraft(key, { points: e.target.value })}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+                <div className="sm:col-span-3">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Feedback (Optional)
+                  </label>
+                  <textarea
+                    value={draft.feedback}
+                    onChange={(e) => updateDraft(key, { feedback: e.target.value })}
+                    rows={2}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="Comments for the student"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={() => saveGrade(response, question, index, key)}
+                  disabled={savingKey !== null}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-medium transition-colors text-sm"
+                >
+                  {savingKey === key ? <LoadingSpinner size="small" /> : <Save className="h-4 w-4" />}
+                  {savingKey === key ? 'Saving...' : 'Save Grade'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GradingQueue;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { detectImportFormat, ImportFormat, importFormatExamples, importFormatLabels, ImportResult, parseQuestions } from '../lib/importers';
+import { parseQtiPackage } from '../lib/qti';
+import { validateQuestion } from '../lib/questions';
+import { QuestionDraft } from '../types/database';
+import { AlertTriangle, CheckCircle, Upload, X } from 'lucide-react';
+
+interface ImportQuestionsDialogProps {
+  // Number of questions already in the quiz, so reported numbers match the editor
+  startIndex: number;
+  // The title is only known for packages that carry one, such as QTI
+  onImport: (questions: QuestionDraft[], title: string | null) => void;
+  onClose: () => void;
+}
+
+// Text formats are pasted or read as text; QTI packages are zip files
+type SourceFormat = ImportFormat | 'qti';
+
+const formatLabels: { [key in SourceFormat]: string } = {
+  ...importFormatLabels,
+  qti: 'QTI 2.1 package (.zip)',
+};
+
+const ImportQuestionsDialog: React.FC<ImportQuestionsDialogProps> = ({ startIndex, onImport, onClose }) => {
+  const [format, setFormat] = useState<SourceFormat>('csv');
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<(ImportResult & { title?: string | null }) | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        setFormat('qti');
+        setText('');
+        setResult(await parseQtiPackage(await file.arrayBuffer(), startIndex));
+        return;
+      }
+
+      const content = await file.text();
+      const detected = detectImportFormat(file.name, content);
+      setFormat(detected);
+      setText(content);
+      setResult(parseQuestions(detected, content, startIndex));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      alert('Failed to read the file. Please try again.');
+    }
+  };
+
+  const checkQuestions = () => {
+    if (format !== 'qti') {
+      setResult(parseQuestions(format, text, startIndex));
+    }
+  };
+
+  const problems = result
+    ? result.questions
+      .map((question, index) => validateQuestion(question, startIndex + index))
+      .filter((problem): problem is string => problem !== null)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Upload className="h-5 w-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Import Questions</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Format
+              </label>
+              <select
+                value={format}
+                onChange={(e) => {
+                  setFormat(e.target.value as SourceFormat);
+                  setResult(null);
+                }}
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {(Object.keys(formatLabels) as SourceFormat[]).map(key => (
+                  <option key={key} value={key}>{formatLabels[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                File {format === 'qti' ? '' : '(Optional)'}
+              </label>
+              <input
+                type="file"
+                accept={format === 'qti' ? '.zip' : '.csv,.txt,.gift,.zip'}
+                onChange={handleFile}
+                className="block w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+              />
+            </div>
+          </div>
+
+          {format === 'qti' ? (
+            <p className="text-sm text-gray-600">
+              Choose a QTI 2.1 package exported from another quiz tool or learning platform.
+              Choice, text entry and extended text items are imported; other item types are listed below.
+            </p>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Questions
+              </label>
+              <textarea
+                rows={8}
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setResult(null);
+                }}
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono text-sm"
+                placeholder={importFormatExamples[format]}
+              />
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm text-gray-900">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                {result.questions.length} question{result.questions.length === 1 ? '' : 's'} found
+              </div>
+
+              {result.warnings.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-sm font-medium text-red-800 mb-1">Not imported</p>
+                  <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                    {result.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {problems.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                  <div className="flex items-center gap-2 text-sm font-medium text-yellow-800 mb-1">
+                    <AlertTriangle className="h-4 w-4" />
+                    Fix before saving
+                  </div>
+                  <ul className="list-disc list-inside text-sm text-yellow-800 space-y-1">
+                    {problems.map((problem, index) => (
+                      <li key={index}>{problem}</li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-yellow-700 mt-2">
+                    These questions are still imported so you can correct them in the editor.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={checkQuestions}
+            disabled={format === 'qti' || !text.trim()}
+            className="px-4 py-2 rounded-lg font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:text-gray-400 transition-colors text-sm"
+          >
+            Check Questions
+          </button>
+          <button
+            type="button"
+            onClick={() => result && onImport(result.questions, result.title ?? null)}
+            disabled={!result || result.questions.length === 0}
+            className="px-4 py-2 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+          >
+            Add {result && result.questions.length > 0 ? result.questions.length : ''} Question{result?.questions.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportQuestionsDialog;
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { analyzeItems, difficultyLabel, discriminationLabel, ItemStats } from '../lib/analysis';
+import { Question, Response } from '../types/database';
+import { AlertTriangle, ChevronDown, ChevronRight, ListChecks } from 'lucide-react';
+
+interface ItemAnalysisProps {
+  questions: Question[];
+  // One response per student
+  responses: Response[];
+  questionsFor: (response: Response) => Question[];
+}
+
+const ItemAnalysis: React.FC<ItemAnalysisProps> = ({ questions, responses, questionsFor }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  if (responses.length === 0 || questions.length === 0) {
+    return null;
+  }
+
+  const items = analyzeItems(questions, responses, questionsFor);
+  const flaggedCount = items.filter(item => item.flags.length > 0).length;
+
+  const toggleItem = (questionId: string) => {
+    const next = new Set(expanded);
+    if (next.has(questionId)) {
+      next.delete(questionId);
+    } else {
+      next.add(questionId);
+    }
+    setExpanded(next);
+  };
+
+  const discriminationClass = (discrimination: number) =>
+    discrimination >= 0.3 ? 'text-green-700' : discrimination >= 0.1 ? 'text-yellow-700' : 'text-red-700';
+
+  const renderOptions = (item: ItemStats) => (
+    <div className="space-y-2">
+      <div className="hidden sm:grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase">
+        <span className="col-span-5">Option</span>
+        <span className="col-span-5">Chosen by</span>
+        <span className="col-span-2 text-right">Top / Bottom</span>
+      </div>
+      {item.options.map(option => {
+        const share = item.answered > 0 ? (option.count / item.answered) * 100 : 0;
+        return (
+          <div key={option.option} className="grid grid-cols-12 gap-2 items-center text-sm">
+            <span className={`col-span-12 sm:col-span-5 break-words ${option.isKey ? 'font-medium text-green-700' : 'text-gray-900'}`}>
+              {option.isKey && '✓ '}{option.option}
+            </span>
+            <div className="col-span-9 sm:col-span-5 flex items-center gap-2">
+              <div className="flex-1 bg-gray-100 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${option.isKey ? 'bg-green-500' : 'bg-red-400'}`}
+                  style={{ width: `${share}%` }}
+                />
+              </div>
+              <span className="text-xs text-gray-600 w-16 text-right">
+                {option.count} ({Math.round(share)}%)
+              </span>
+            </div>
+            <span className="col-span-3 sm:col-span-2 text-right text-xs text-gray-600">
+              {option.upperCount} / {option.lowerCount}
+            </span>
+          </div>
+        );
+      })}
+      {(item.otherCount > 0 || item.unansweredCount > 0) && (
+        <p className="text-xs text-gray-500">
+          {item.unansweredCount > 0 && `${item.unansweredCount} left blank. `}
+          {item.otherCount > 0 && `${item.otherCount} chose options from an earlier version of this question.`}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-blue-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Item Analysis</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          {flaggedCount > 0
+            ? `${flaggedCount} question${flaggedCount === 1 ? '' : 's'} flagged for review`
+            : 'No questions flagged'}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Question
+              </th>
+              <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Answered
+              </th>
+              <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Percent Correct
+              </th>
+              <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Discrimination
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {items.map((item, index) => {
+              const isExpanded = expanded.has(item.question.id);
+              const canExpand = item.options.length > 0 || item.flags.length > 0;
+              return (
+                <React.Fragment key={item.question.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-3 sm:px-6 py-4 text-sm text-gray-900">
+                      <button
+                        type="button"
+                        onClick={() => toggleItem(item.question.id)}
+                        disabled={!canExpand}
+                        className="flex items-start gap-1 text-left"
+                      >
+                        {canExpand && (isExpanded
+                          ? <ChevronDown className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600" />
+                          : <ChevronRight className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600" />)}
+                        <span className="break-words">{index + 1}. {item.question.question_text}</span>
+                        {item.flags.length > 0 && (
+                          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
+                        )}
+                      </button>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.answered}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.percentCorrect !== null ? (
+                        <>
+                          {Math.round(item.percentCorrect)}%
+                          <span className="ml-2 text-xs text-gray-500">{difficultyLabel(item.percentCorrect)}</span>
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      {item.discrimination !== null ? (
+                        <span className={discriminationClass(item.discrimination)}>
+                          {item.discrimination.toFixed(2)}
+                          <span className="ml-2 text-xs">{discriminationLabel(item.discrimination)}</span>
+                        </span>
+                      ) : '—'}
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={4} className="px-3 sm:px-6 py-4 space-y-3">
+                        {item.flags.length > 0 && (
+                          <ul className="list-disc list-inside text-sm text-amber-800 space-y-1">
+                            {item.flags.map(flag => (
+                              <li key={flag}>{flag}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {item.options.length > 0 && renderOptions(item)}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="px-6 py-3 border-t border-gray-200 text-xs text-gray-500">
+        Uses each student's counted attempt, or their latest when attempts are averaged. Discrimination compares the top and bottom 27% of scorers;
+        questions below 0.1 or with distractors that outdraw the correct answer are worth reviewing.
+      </p>
+    </div>
+  );
+};
+
+export default ItemAnalysis;
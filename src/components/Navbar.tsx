@@ -4,7 +4,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { LogOut, User } from 'lucide-react';
 
 const Navbar: React.FC = () => {
-  const { user, signOut } = useAuth();
+  const { user, isStudent, isAdmin, signOut } = useAuth();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -23,19 +23,50 @@ const Navbar: React.FC = () => {
           <div className="flex items-center space-x-2 sm:space-x-4">
             {user ? (
               <>
-                <Link
-                  to="/dashboard"
-                  className="hidden sm:block text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
-                >
-                  Dashboard
-                </Link>
-                <Link
-                  to="/create"
-                  className="bg-blue-600 hover:bg-blue-700 text-white px-3 sm:px-4 py-2 rounded-md text-xs sm:text-sm font-medium transition-colors"
-                >
-                  <span className="hidden sm:inline">Create Quiz</span>
-                  <span className="sm:hidden">Create</span>
-                </Link>
+                {isStudent ? (
+                  <Link
+                    to="/my-attempts"
+                    className="text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    My Attempts
+                  </Link>
+                ) : (
+                  <>
+                    {isAdmin && (
+                      <Link
+                        to="/admin"
+                        className="hidden sm:block text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                      >
+                        Admin
+                      </Link>
+                    )}
+                    <Link
+                      to="/dashboard"
+                      className="hidden sm:block text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      Dashboard
+                    </Link>
+                    <Link
+                      to="/bank"
+                      className="hidden sm:block text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      Question Bank
+                    </Link>
+                    <Link
+                      to="/classes"
+                      className="hidden sm:block text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      Classes
+                    </Link>
+                    <Link
+                      to="/create"
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-3 sm:px-4 py-2 rounded-md text-xs sm:text-sm font-medium transition-colors"
+                    >
+                      <span className="hidden sm:inline">Create Quiz</span>
+                      <span className="sm:hidden">Create</span>
+                    </Link>
+                  </>
+                )}
                 <div className="flex items-center space-x-2 sm:space-x-3">
                   <div className="hidden md:flex items-center text-gray-700">
                     <User className="h-4 w-4 mr-1" />
@@ -1,14 +1,19 @@
 import React, { ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { getHomePath, hasRole } from '../lib/roles';
+import { UserRole } from '../types/database';
 import LoadingSpinner from './LoadingSpinner';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Role the page needs; any signed-in user when left out
+  role?: UserRole;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, role }) => {
+  const { user, profile, loading, signOut } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -22,7 +27,30 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" replace />;
   }
 
+  if (profile && !profile.is_active) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="bg-white rounded-lg shadow-md p-8 max-w-md text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Account Deactivated</h1>
+          <p className="text-gray-600 mb-6">Your account has been deactivated. Contact your school administrator for access.</p>
+          <button
+            onClick={signOut}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (role && !hasRole(profile, role)) {
+    // Send users to their own home page, unless that is the page they lack the role for
+    const home = getHomePath(profile);
+    return <Navigate to={home === location.pathname ? '/' : home} replace />;
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
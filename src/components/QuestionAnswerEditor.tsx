@@ -0,0 +1,340 @@
+import React from 'react';
+import { PartialCredit, QuestionDraft, QuestionType, ToleranceMode } from '../types/database';
+import { isChoiceQuestion, MAX_OPTIONS, MIN_OPTIONS, partialCreditLabels, questionTypeLabels, toleranceModeLabels } from '../lib/questions';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface QuestionAnswerEditorProps {
+  question: QuestionDraft;
+  questionIndex: number;
+  onChange: (changes: Partial<QuestionDraft>) => void;
+  locked?: boolean;
+  showScoring?: boolean;
+}
+
+const QuestionAnswerEditor: React.FC<QuestionAnswerEditorProps> = ({
+  question,
+  questionIndex,
+  onChange,
+  locked = false,
+  showScoring = true,
+}) => {
+  const isMultiple = question.question_type === 'multiple_select';
+
+  const changeType = (questionType: QuestionType) => {
+    // Choice keys mean nothing to free-text questions and vice versa
+    if (isChoiceQuestion(questionType) !== isChoiceQuestion(question.question_type)) {
+      onChange({ question_type: questionType, correct_answer: '', correct_answers: [] });
+      return;
+    }
+
+    // Carry the current key over so switching type does not lose it
+    onChange({
+      question_type: questionType,
+      correct_answers: questionType === 'multiple_select' && question.correct_answer
+        ? [question.correct_answer]
+        : question.correct_answers,
+      correct_answer: questionType === 'single_choice' && !question.correct_answer
+        ? question.correct_answers[0] || ''
+        : question.correct_answer,
+    });
+  };
+
+  const addOption = () => {
+    if (question.options.length >= MAX_OPTIONS) return;
+    onChange({ options: [...question.options, ''] });
+  };
+
+  const removeOption = (optionIndex: number) => {
+    if (question.options.length <= MIN_OPTIONS) return;
+    const removedOption = question.options[optionIndex];
+
+    // Clear correct answer if it was the removed option
+    onChange({
+      options: question.options.filter((_, i) => i !== optionIndex),
+      correct_answer: question.correct_answer === removedOption ? '' : question.correct_answer,
+      correct_answers: question.correct_answers.filter(answer => answer !== removedOption),
+    });
+  };
+
+  const updateOption = (optionIndex: number, value: string) => {
+    const oldValue = question.options[optionIndex];
+
+    // Keep the correct answer pointing at the renamed option
+    onChange({
+      options: question.options.map((option, i) => (i === optionIndex ? value : option)),
+      correct_answer: question.correct_answer === oldValue ? value : question.correct_answer,
+      correct_answers: question.correct_answers.map(answer => (answer === oldValue ? value : answer)),
+    });
+  };
+
+  const toggleCorrectAnswer = (option: string) => {
+    onChange({
+      correct_answers: question.correct_answers.includes(option)
+        ? question.correct_answers.filter(answer => answer !== option)
+        : [...question.correct_answers, option],
+    });
+  };
+
+  // Always show at least one accepted-answer field
+  const acceptedAnswers = question.correct_answers.length > 0 ? question.correct_answers : [''];
+
+  const updateAcceptedAnswer = (answerIndex: number, value: string) => {
+    onChange({
+      correct_answers: acceptedAnswers.map((answer, i) => (i === answerIndex ? value : answer)),
+    });
+  };
+
+  const removeAcceptedAnswer = (answerIndex: number) => {
+    onChange({ correct_answers: acceptedAnswers.filter((_, i) => i !== answerIndex) });
+  };
+
+  const inputClassName = 'block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors';
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Content is copied from the question bank while the question is linked */}
+      <fieldset disabled={locked} className="space-y-4 sm:space-y-6 disabled:opacity-60">
+        {/* Question Type */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Question Type
+            </label>
+            <select
+              value={question.question_type}
+              onChange={(e) => changeType(e.target.value as QuestionType)}
+              className={inputClassName}
+            >
+              {(Object.keys(questionTypeLabels) as QuestionType[]).map(type => (
+                <option key={type} value={type}>{questionTypeLabels[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          {isMultiple && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scoring
+              </label>
+              <select
+                value={question.partial_credit}
+                onChange={(e) => onChange({ partial_credit: e.target.value as PartialCredit })}
+                className={inputClassName}
+              >
+                {(Object.keys(partialCreditLabels) as PartialCredit[]).map(mode => (
+                  <option key={mode} value={mode}>{partialCreditLabels[mode]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {question.question_type === 'short_answer' && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Accepted Answers * (Case and extra spaces are ignored)
+              </label>
+              <div className="space-y-2 sm:space-y-3">
+                {acceptedAnswers.map((answer, answerIndex) => (
+                  <div key={answerIndex} className="flex items-center space-x-2 sm:space-x-3">
+                    <input
+                      type="text"
+                      value={answer}
+                      onChange={(e) => updateAcceptedAnswer(answerIndex, e.target.value)}
+                      className="flex-1 border border-gray-300 rounded-lg px-2 sm:px-3 py-1 sm:py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm sm:text-base"
+                      placeholder={`Accepted answer ${answerIndex + 1}`}
+                    />
+                    {acceptedAnswers.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeAcceptedAnswer(answerIndex)}
+                        className="p-1 sm:p-2 text-red-400 hover:text-red-600 transition-colors flex-shrink-0"
+                        title="Remove accepted answer"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange({ correct_answers: [...acceptedAnswers, ''] })}
+                className="mt-2 sm:mt-3 text-blue-600 hover:text-blue-700 text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Add Accepted Answer
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Answer Pattern (Optional regular expression, case-insensitive)
+              </label>
+              <input
+                type="text"
+                value={question.answer_pattern ?? ''}
+                onChange={(e) => onChange({ answer_pattern: e.target.value || null })}
+                className={`${inputClassName} font-mono`}
+                placeholder="e.g. colou?r"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Matched against the whole answer as a PostgreSQL regular expression: use \y for a word boundary instead of \b.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {question.question_type === 'numeric' && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Correct Value *
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={question.correct_answer}
+                onChange={(e) => onChange({ correct_answer: e.target.value })}
+                className={inputClassName}
+                placeholder="e.g. 9.81"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tolerance
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={question.tolerance}
+                onChange={(e) => onChange({ tolerance: e.target.value ? Number(e.target.value) : 0 })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tolerance Type
+              </label>
+              <select
+                value={question.tolerance_mode}
+                onChange={(e) => onChange({ tolerance_mode: e.target.value as ToleranceMode })}
+                className={inputClassName}
+              >
+                {(Object.keys(toleranceModeLabels) as ToleranceMode[]).map(mode => (
+                  <option key={mode} value={mode}>{toleranceModeLabels[mode]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {question.question_type === 'essay' && (
+          <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg px-3 sm:px-4 py-2 sm:py-3">
+            Students write a free-form answer. You score it from the grading queue on the quiz results page.
+          </p>
+        )}
+
+        {/* Options */}
+        {isChoiceQuestion(question.question_type) && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              {isMultiple
+                ? 'Answer Options * (Select every correct answer)'
+                : 'Answer Options * (Select the correct answer)'}
+            </label>
+            <div className="space-y-2 sm:space-y-3">
+              {question.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center space-x-2 sm:space-x-3">
+                  {isMultiple ? (
+                    <input
+                      type="checkbox"
+                      checked={question.correct_answers.includes(option)}
+                      onChange={() => toggleCorrectAnswer(option)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded flex-shrink-0"
+                    />
+                  ) : (
+                    <input
+                      type="radio"
+                      name={`correct-${questionIndex}`}
+                      checked={question.correct_answer === option}
+                      onChange={() => onChange({ correct_answer: option })}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 flex-shrink-0"
+                    />
+                  )}
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => updateOption(optionIndex, e.target.value)}
+                    className="flex-1 border border-gray-300 rounded-lg px-2 sm:px-3 py-1 sm:py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm sm:text-base"
+                    placeholder={`Option ${optionIndex + 1}`}
+                    required
+                  />
+                  {question.options.length > MIN_OPTIONS && (
+                    <button
+                      type="button"
+                      onClick={() => removeOption(optionIndex)}
+                      className="p-1 sm:p-2 text-red-400 hover:text-red-600 transition-colors flex-shrink-0"
+                      title="Remove option"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {question.options.length < MAX_OPTIONS && (
+              <button
+                type="button"
+                onClick={addOption}
+                className="mt-2 sm:mt-3 text-blue-600 hover:text-blue-700 text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Add Option
+              </button>
+            )}
+          </div>
+        )}
+      </fieldset>
+
+      {/* Scoring */}
+      {showScoring && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Points
+            </label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={question.points}
+              onChange={(e) => onChange({ points: e.target.value ? Number(e.target.value) : 0 })}
+              className={inputClassName}
+            />
+          </div>
+          {question.question_type !== 'essay' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Negative Marks (Deducted for a wrong answer)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={question.negative_points}
+                onChange={(e) => onChange({ negative_points: e.target.value ? Number(e.target.value) : 0 })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionAnswerEditor;
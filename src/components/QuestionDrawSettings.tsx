@@ -0,0 +1,80 @@
+import React from 'react';
+import { QuestionDraft } from '../types/database';
+import { getSections } from '../lib/questions';
+
+interface QuestionDrawSettingsProps {
+  questions: QuestionDraft[];
+  questionsPerAttempt: string;
+  sectionDrawCounts: { [section: string]: string };
+  onQuestionsPerAttemptChange: (value: string) => void;
+  onSectionDrawCountsChange: (value: { [section: string]: string }) => void;
+}
+
+const QuestionDrawSettings: React.FC<QuestionDrawSettingsProps> = ({
+  questions,
+  questionsPerAttempt,
+  sectionDrawCounts,
+  onQuestionsPerAttemptChange,
+  onSectionDrawCountsChange,
+}) => {
+  const sections = getSections(questions);
+  const unsectionedCount = questions.filter(question => !question.section?.trim()).length;
+
+  return (
+    <div className="space-y-4">
+      {unsectionedCount > 0 && (
+        <div>
+          <label htmlFor="questionsPerAttempt" className="block text-sm font-medium text-gray-700 mb-2">
+            Questions per Attempt (Optional)
+          </label>
+          <input
+            type="number"
+            id="questionsPerAttempt"
+            min={1}
+            max={unsectionedCount}
+            value={questionsPerAttempt}
+            onChange={(e) => onQuestionsPerAttemptChange(e.target.value)}
+            className="block w-full sm:w-48 border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder={`All ${unsectionedCount}`}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            {sections.length > 0
+              ? `Drawn at random from the ${unsectionedCount} questions that are not in a section.`
+              : 'Each student gets a random selection of this many questions.'}
+          </p>
+        </div>
+      )}
+
+      {sections.length > 0 && (
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Questions Drawn per Section (Optional)
+          </p>
+          <div className="space-y-2">
+            {sections.map(section => {
+              const available = questions.filter(question => question.section?.trim() === section).length;
+              return (
+                <div key={section} className="flex items-center gap-3">
+                  <input
+                    type="number"
+                    min={1}
+                    max={available}
+                    value={sectionDrawCounts[section] ?? ''}
+                    onChange={(e) => onSectionDrawCountsChange({ ...sectionDrawCounts, [section]: e.target.value })}
+                    className="block w-24 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder={`${available}`}
+                  />
+                  <span className="text-sm text-gray-700 break-words">
+                    of {available} from <span className="font-medium">{section}</span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionDrawSettings;
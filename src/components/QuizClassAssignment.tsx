@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { SchoolClass } from '../types/database';
+import LoadingSpinner from './LoadingSpinner';
+import { GraduationCap } from 'lucide-react';
+
+interface QuizClassAssignmentProps {
+  quizId: string;
+}
+
+// Classes are assigned as soon as they are ticked, separately from saving
+// the quiz, because rosters are not part of its versions
+const QuizClassAssignment: React.FC<QuizClassAssignmentProps> = ({ quizId }) => {
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [assignedIds, setAssignedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchClasses();
+    }
+  }, [quizId, user]);
+
+  const fetchClasses = async () => {
+    try {
+      const { data: assignedData, error: assignedError } = await supabase
+        .from('quiz_classes')
+        .select('class_id')
+        .eq('quiz_id', quizId);
+
+      if (assignedError) throw assignedError;
+
+      const ids = (assignedData || []).map(row => row.class_id);
+
+      // The teacher's own classes, and ones co-teachers assigned
+      const { data: classesData, error: classesError } = await supabase
+        .from('classes')
+        .select('*')
+        .or(ids.length > 0 ? `created_by.eq.${user?.id},id.in.(${ids.join(',')})` : `created_by.eq.${user?.id}`)
+        .order('name');
+
+      if (classesError) throw classesError;
+
+      setAssignedIds(ids);
+      setClasses(classesData || []);
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleClass = async (classId: string) => {
+    const assigned = assignedIds.includes(classId);
+
+    setUpdatingId(classId);
+    try {
+      const { error } = assigned
+        ? await supabase.from('quiz_classes').delete().eq('quiz_id', quizId).eq('class_id', classId)
+        : await supabase.from('quiz_classes').insert({ quiz_id: quizId, class_id: classId });
+
+      if (error) throw error;
+
+      setAssignedIds(assigned ? assignedIds.filter(id => id !== classId) : [...assignedIds, classId]);
+    } catch (error) {
+      console.error('Error updating quiz classes:', error);
+      alert('Error updating classes. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center gap-2 mb-2">
+        <GraduationCap className="h-5 w-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Classes</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {assignedIds.length > 0
+          ? 'Only students on these class rosters can submit this quiz.'
+          : 'Anyone with the link can submit this quiz. Assign it to classes to limit it to their rosters.'}
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : classes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          You have no classes yet. Create them on the{' '}
+          <Link to="/classes" className="text-blue-600 hover:text-blue-700 font-medium">
+            Classes
+          </Link>{' '}
+          page.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {classes.map(schoolClass => (
+            <label key={schoolClass.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={assignedIds.includes(schoolClass.id)}
+                onChange={() => toggleClass(schoolClass.id)}
+                // Editors can only assign their own classes
+                disabled={updatingId === schoolClass.id || (schoolClass.created_by !== user?.id && !assignedIds.includes(schoolClass.id))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              {schoolClass.name}
+              {schoolClass.created_by !== user?.id && (
+                <span className="text-xs text-gray-400">(co-teacher's class)</span>
+              )}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizClassAssignment;
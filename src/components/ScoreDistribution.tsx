@@ -0,0 +1,74 @@
+import React from 'react';
+import { buildHistogram, summarizeScores } from '../lib/statistics';
+import { BarChart3 } from 'lucide-react';
+
+interface ScoreDistributionProps {
+  // Counted percentage of each student
+  percentages: number[];
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
+const ScoreDistribution: React.FC<ScoreDistributionProps> = ({ percentages }) => {
+  const summary = summarizeScores(percentages);
+  if (!summary) {
+    return null;
+  }
+
+  const bins = buildHistogram(percentages);
+  const largestBin = Math.max(...bins.map(bin => bin.count));
+
+  const figures = [
+    { label: 'Median', value: formatPercent(summary.median) },
+    { label: 'Lower Quartile', value: formatPercent(summary.lowerQuartile) },
+    { label: 'Upper Quartile', value: formatPercent(summary.upperQuartile) },
+    { label: 'Standard Deviation', value: formatPercent(summary.standardDeviation) },
+    { label: 'Lowest', value: formatPercent(summary.min) },
+    { label: 'Highest', value: formatPercent(summary.max) },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+        <BarChart3 className="h-5 w-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Score Distribution</h2>
+      </div>
+
+      <div className="px-6 py-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="flex items-end gap-1 h-48 border-b border-gray-300" role="img" aria-label="Histogram of student percentages">
+            {bins.map(bin => (
+              <div key={bin.label} className="flex-1 h-full flex flex-col justify-end items-center" title={`${bin.label}: ${bin.count}`}>
+                {bin.count > 0 && (
+                  <span className="text-xs text-gray-600 mb-1">{bin.count}</span>
+                )}
+                <div
+                  className="w-full bg-blue-500 rounded-t"
+                  style={{ height: `${largestBin > 0 ? (bin.count / largestBin) * 85 : 0}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 mt-1">
+            {bins.map(bin => (
+              <span key={bin.label} className="flex-1 text-center text-[10px] sm:text-xs text-gray-500">
+                {bin.label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-4 content-start">
+          {figures.map(figure => (
+            <div key={figure.label}>
+              <dt className="text-xs font-medium text-gray-500">{figure.label}</dt>
+              <dd className="text-lg font-semibold text-gray-900">{figure.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreDistribution;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { hasPermission, permissionDescriptions, permissionLabels } from '../lib/sharing';
+import { QuizCollaborator, QuizPermission } from '../types/database';
+import LoadingSpinner from './LoadingSpinner';
+import { Trash2, UserPlus, Users, X } from 'lucide-react';
+
+interface ShareQuizDialogProps {
+  quizId: string;
+  quizTitle: string;
+  // The signed-in teacher's permission; only owners can change sharing
+  permission: QuizPermission;
+  onClose: () => void;
+}
+
+const permissions: QuizPermission[] = ['viewer', 'editor', 'owner'];
+
+const ShareQuizDialog: React.FC<ShareQuizDialogProps> = ({ quizId, quizTitle, permission, onClose }) => {
+  const [collaborators, setCollaborators] = useState<QuizCollaborator[]>([]);
+  const [email, setEmail] = useState('');
+  const [newPermission, setNewPermission] = useState<QuizPermission>('editor');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const canShare = hasPermission(permission, 'owner');
+
+  useEffect(() => {
+    fetchCollaborators();
+  }, [quizId]);
+
+  const fetchCollaborators = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_quiz_collaborators', { p_quiz_id: quizId });
+
+      if (error) throw error;
+      setCollaborators(data);
+    } catch (error) {
+      console.error('Error fetching collaborators:', error);
+      alert('Failed to load who this quiz is shared with. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const shareWith = async (shareEmail: string, sharePermission: QuizPermission) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('share_quiz', {
+        p_quiz_id: quizId,
+        p_email: shareEmail,
+        p_permission: sharePermission
+      });
+
+      if (error) throw error;
+      await fetchCollaborators();
+      return true;
+    } catch (error) {
+      console.error('Error sharing quiz:', error);
+      alert(`Error sharing quiz: ${(error as { message?: string }).message ?? 'Please try again.'}`);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    if (await shareWith(email.trim(), newPermission)) {
+      setEmail('');
+    }
+  };
+
+  const removeCollaborator = async (collaborator: QuizCollaborator) => {
+    if (!window.confirm(`Stop sharing this quiz with ${collaborator.email}?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('unshare_quiz', {
+        p_quiz_id: quizId,
+        p_user_id: collaborator.user_id
+      });
+
+      if (error) throw error;
+      setCollaborators(collaborators.filter(c => c.user_id !== collaborator.user_id));
+    } catch (error) {
+      console.error('Error removing collaborator:', error);
+      alert('Error removing collaborator. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-full flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <Users className="h-5 w-5 text-blue-600 flex-shrink-0" />
+            <h2 className="text-lg font-semibold text-gray-900 truncate">Share "{quizTitle}"</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {canShare && (
+          <form onSubmit={handleAdd} className="px-6 py-4 border-b border-gray-200 space-y-2">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Teacher's email"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+              <select
+                value={newPermission}
+                onChange={(e) => setNewPermission(e.target.value as QuizPermission)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              >
+                {permissions.map(option => (
+                  <option key={option} value={option}>{permissionLabels[option]}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={saving || !email.trim()}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 text-sm"
+              >
+                <UserPlus className="h-4 w-4" />
+                Share
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">{permissionLabels[newPermission]}: {permissionDescriptions[newPermission].toLowerCase()}.</p>
+          </form>
+        )}
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-200">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : (
+            collaborators.map(collaborator => (
+              <div key={collaborator.user_id} className="px-6 py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 break-words">{collaborator.full_name || collaborator.email}</p>
+                  {collaborator.full_name && (
+                    <p className="text-sm text-gray-500 break-words">{collaborator.email}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {canShare && !collaborator.is_creator ? (
+                    <>
+                      <select
+                        value={collaborator.permission}
+                        onChange={(e) => shareWith(collaborator.email, e.target.value as QuizPermission)}
+                        disabled={saving}
+                        className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      >
+                        {permissions.map(option => (
+                          <option key={option} value={option}>{permissionLabels[option]}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeCollaborator(collaborator)}
+                        disabled={saving}
+                        className="p-1 text-red-600 hover:text-red-900 transition-colors disabled:opacity-50"
+                        title="Stop sharing"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-sm text-gray-600">
+                      {permissionLabels[collaborator.permission]}
+                      {collaborator.is_creator && ' (creator)'}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors text-sm"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareQuizDialog;
@@ -0,0 +1,68 @@
+import React from 'react';
+
+interface StudentInfoFormProps {
+  name: string;
+  email: string;
+  registerNumber: string;
+  onNameChange: (value: string) => void;
+  onEmailChange: (value: string) => void;
+  onRegisterNumberChange: (value: string) => void;
+}
+
+const StudentInfoForm: React.FC<StudentInfoFormProps> = ({
+  name,
+  email,
+  registerNumber,
+  onNameChange,
+  onEmailChange,
+  onRegisterNumberChange,
+}) => {
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Your Information</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Full Name *
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => onNameChange(e.target.value)}
+            className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="Enter your name"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Email Address *
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => onEmailChange(e.target.value)}
+            className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="Enter your email"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Register Number *
+          </label>
+          <input
+            type="text"
+            value={registerNumber}
+            onChange={(e) => onRegisterNumberChange(e.target.value)}
+            className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="Enter your register number"
+            required
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudentInfoForm;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { DiffedField, diffQuestions, diffSettings, getDiffedValues, QuestionDiff, quizSettingLabels } from '../lib/versions';
+import { Question, QuizVersion } from '../types/database';
+import LoadingSpinner from './LoadingSpinner';
+import { History, RotateCcw, GitCompare } from 'lucide-react';
+
+interface VersionHistoryProps {
+  quizId: string;
+  currentVersion: number;
+  onRestored: () => void;
+}
+
+const fieldLabels: { [key in DiffedField]: string } = {
+  question_text: 'Question',
+  options: 'Options',
+  correct_answer: 'Correct answer',
+};
+
+const changeBadges: { [key in QuestionDiff['change']]: { label: string; className: string } } = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-800' },
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ quizId, currentVersion, onRestored }) => {
+  const [versions, setVersions] = useState<QuizVersion[]>([]);
+  const [comparing, setComparing] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [quizId, currentVersion]);
+
+  const fetchVersions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('quiz_versions')
+        .select('*')
+        .eq('quiz_id', quizId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      setVersions(data || []);
+    } catch (error) {
+      console.error('Error fetching quiz versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreVersion = async (version: number) => {
+    if (!window.confirm(`Restore version ${version}? It will be saved as a new version, and unsaved changes in this editor will be lost. Questions from the question bank that have been edited since are restored as copies that are no longer linked to the bank.`)) {
+      return;
+    }
+
+    setRestoring(version);
+    try {
+      const { error } = await supabase.rpc('restore_quiz_version', {
+        p_quiz_id: quizId,
+        p_version: version
+      });
+
+      if (error) throw error;
+
+      setComparing(null);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring quiz version:', error);
+      alert('Failed to restore this version. Please try again.');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderSide = (question: Question | null, fields: DiffedField[], highlightClassName: string) => {
+    if (!question) {
+      return <div className="text-sm text-gray-400 italic">Not in this version</div>;
+    }
+
+    const values = getDiffedValues(question);
+    return (
+      <div className="space-y-2">
+        {(Object.keys(fieldLabels) as DiffedField[])
+          .filter(field => values[field])
+          .map(field => (
+            <div key={field} className={`rounded px-2 py-1 ${fields.includes(field) ? highlightClassName : ''}`}>
+              <p className="text-xs font-medium text-gray-500">{fieldLabels[field]}</p>
+              <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{values[field]}</p>
+            </div>
+          ))}
+      </div>
+    );
+  };
+
+  const current = versions.find(version => version.version === currentVersion);
+  const compared = versions.find(version => version.version === comparing);
+  const diffs = compared && current ? diffQuestions(compared.questions, current.questions) : [];
+  const changedDiffs = diffs.filter(diff => diff.change !== 'unchanged');
+  const changedSettings = compared && current ? diffSettings(compared.settings, current.settings) : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+        <History className="h-5 w-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Version History</h2>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="medium" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-600">No saved versions yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 max-h-72 overflow-y-auto">
+          {versions.map(version => (
+            <div key={version.id} className="px-6 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">Version {version.version}</span>
+                  {version.version === currentVersion && (
+                    <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                      Current
+                    </span>
+                  )}
+                  {version.restored_from !== null && (
+                    <span className="text-xs text-gray-500">Restored from version {version.restored_from}</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 truncate">
+                  {version.author_email ?? 'Unknown author'} · {new Date(version.created_at).toLocaleString()}
+                </p>
+              </div>
+              {version.version !== currentVersion && (
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => setComparing(comparing === version.version ? null : version.version)}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+                  >
+                    <GitCompare className="h-4 w-4" />
+                    {comparing === version.version ? 'Hide changes' : 'Compare'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => restoreVersion(version.version)}
+                    disabled={restoring !== null}
+                    className="flex items-center gap-1 text-sm text-gray-700 hover:text-gray-900 disabled:text-gray-400 font-medium transition-colors"
+                  >
+                    {restoring === version.version ? <LoadingSpinner size="small" /> : <RotateCcw className="h-4 w-4" />}
+                    Restore
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {compared && current && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-4">
+          <h3 className="text-sm font-semibold text-gray-900">
+            Version {compared.version} compared with the current version {current.version}
+          </h3>
+
+          {changedSettings.length > 0 && (
+            <p className="text-sm text-gray-700">
+              Settings changed: {changedSettings.map(key => quizSettingLabels[key]).join(', ')}
+            </p>
+          )}
+
+          {changedDiffs.length === 0 ? (
+            <p className="text-sm text-gray-600">The questions are the same in both versions.</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="hidden sm:grid grid-cols-2 gap-4 text-xs font-medium text-gray-500 uppercase">
+                <span>Version {compared.version}</span>
+                <span>Current</span>
+              </div>
+              {changedDiffs.map(diff => (
+                <div key={diff.questionId} className="border border-gray-200 rounded-lg p-3">
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full mb-2 ${changeBadges[diff.change].className}`}>
+                    {changeBadges[diff.change].label}
+                  </span>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {renderSide(diff.before, diff.changedFields, 'bg-red-50')}
+                    {renderSide(diff.after, diff.changedFields, 'bg-green-50')}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {diffs.length > changedDiffs.length && (
+            <p className="text-xs text-gray-500">
+              {diffs.length - changedDiffs.length} unchanged question{diffs.length - changedDiffs.length === 1 ? '' : 's'} not shown.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -1,14 +1,25 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { Profile } from '../types/database';
+
+// Details a student gives when signing up; teachers sign up without them
+export interface StudentSignUp {
+  fullName: string;
+  registerNumber: string;
+}
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
+  isStudent: boolean;
+  isAdmin: boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, student?: StudentSignUp) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -28,23 +39,46 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const fetchProfile = async (userId: string | undefined) => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+    }
+    setProfile(data ?? null);
+  };
+
   useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    // The user and their profile are set together, so pages never see a
+    // signed-in user whose role is not known yet
+    const applySession = async (session: Session | null) => {
+      await fetchProfile(session?.user.id);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
-    });
+    };
 
-    // Listen for auth changes
+    // Get initial session
+    supabase.auth.getSession().then(({ data: { session } }) => applySession(session));
+
+    // Listen for auth changes. Supabase calls this while holding its auth
+    // lock, so the profile query waits until the callback has returned.
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
+      setTimeout(() => applySession(session), 0);
     });
 
     return () => subscription.unsubscribe();
@@ -58,10 +92,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return { error };
   };
 
-  const signUp = async (email: string, password: string) => {
+  const signUp = async (email: string, password: string, student?: StudentSignUp) => {
     const { error } = await supabase.auth.signUp({
       email,
       password,
+      options: student && {
+        data: {
+          full_name: student.fullName,
+          register_number: student.registerNumber,
+        },
+      },
     });
     return { error };
   };
@@ -70,13 +110,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     await supabase.auth.signOut();
   };
 
+  const refreshProfile = async () => {
+    await fetchProfile(user?.id);
+  };
+
   const value = {
     user,
     session,
+    profile,
+    isStudent: profile?.role === 'student',
+    isAdmin: profile?.role === 'admin',
     loading,
     signIn,
     signUp,
     signOut,
+    refreshProfile,
   };
 
   return (
@@ -0,0 +1,123 @@
+import { Question, Response } from '../types/database';
+import { getPercentage, getServedPositions, isChoiceQuestion, isCorrectOption } from './questions';
+
+export interface OptionStats {
+  option: string;
+  isKey: boolean;
+  // Responses that chose the option, overall and within the top and bottom groups
+  count: number;
+  upperCount: number;
+  lowerCount: number;
+}
+
+export interface ItemStats {
+  question: Question;
+  // Responses that were served the question and have a grade for it
+  answered: number;
+  // Mean share of the points earned, 0-100 (the difficulty index)
+  percentCorrect: number | null;
+  // Difference in mean credit between the top and bottom groups, -1 to 1
+  discrimination: number | null;
+  // Choice questions only
+  options: OptionStats[];
+  // Chosen answers that are not among the question's current options
+  otherCount: number;
+  unansweredCount: number;
+  flags: string[];
+}
+
+// Share of the respondents that make up the top and bottom scoring groups
+const GROUP_SHARE = 0.27;
+
+export const difficultyLabel = (percentCorrect: number) =>
+  percentCorrect >= 80 ? 'Easy' : percentCorrect >= 30 ? 'Moderate' : 'Hard';
+
+export const discriminationLabel = (discrimination: number) =>
+  discrimination >= 0.3 ? 'Good' : discrimination >= 0.1 ? 'Fair' : discrimination >= 0 ? 'Poor' : 'Negative';
+
+interface ItemAnswer {
+  response: Response;
+  credit: number;
+  chosen: string[];
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Per-question statistics over the given responses, one per student. Questions
+// are matched by id, so responses to earlier versions of a question count too.
+export const analyzeItems = (
+  questions: Question[],
+  responses: Response[],
+  questionsFor: (response: Response) => Question[]
+): ItemStats[] =>
+  questions.map(question => {
+    const answers: ItemAnswer[] = [];
+    responses.forEach(response => {
+      const responseQuestions = questionsFor(response);
+      const index = responseQuestions.findIndex(item => item.id === question.id);
+      if (index === -1 || !getServedPositions(response, responseQuestions.length).includes(index)) return;
+
+      // Essays waiting to be graded have no credit yet
+      const score = response.question_scores[index];
+      if (score === null || score === undefined) return;
+
+      const points = responseQuestions[index].points;
+      const answer = response.answers[index];
+      answers.push({
+        response,
+        credit: points > 0 ? Math.max(0, score) / points : 0,
+        chosen: (Array.isArray(answer) ? answer : [answer ?? '']).filter(value => value.trim()),
+      });
+    });
+
+    const ranked = [...answers].sort(
+      (a, b) => getPercentage(b.response.score, b.response.max_score) - getPercentage(a.response.score, a.response.max_score)
+    );
+    const groupSize = ranked.length >= 2 ? Math.max(1, Math.floor(ranked.length * GROUP_SHARE)) : 0;
+    const upper = ranked.slice(0, groupSize);
+    const lower = groupSize > 0 ? ranked.slice(-groupSize) : [];
+
+    const percentCorrect = answers.length > 0 ? mean(answers.map(answer => answer.credit)) * 100 : null;
+    const discrimination = groupSize > 0
+      ? mean(upper.map(answer => answer.credit)) - mean(lower.map(answer => answer.credit))
+      : null;
+
+    const countChoosing = (group: ItemAnswer[], option: string) =>
+      group.filter(answer => answer.chosen.includes(option)).length;
+
+    const options: OptionStats[] = isChoiceQuestion(question.question_type)
+      ? question.options.map(option => ({
+        option,
+        isKey: isCorrectOption(question, option),
+        count: countChoosing(answers, option),
+        upperCount: countChoosing(upper, option),
+        lowerCount: countChoosing(lower, option),
+      }))
+      : [];
+
+    const flags: string[] = [];
+    const keys = options.filter(option => option.isKey);
+    const keyCount = keys.length > 0 ? Math.min(...keys.map(option => option.count)) : 0;
+    options
+      .filter(option => !option.isKey && option.count > keyCount)
+      .forEach(option => flags.push(`"${option.option}" is picked more often than the correct answer`));
+    options
+      .filter(option => !option.isKey && groupSize > 0 && option.upperCount > option.lowerCount)
+      .forEach(option => flags.push(`"${option.option}" attracts more top scorers than bottom scorers`));
+    if (discrimination !== null && discrimination < 0) {
+      flags.push('Bottom scorers do better on this question than top scorers');
+    }
+
+    return {
+      question,
+      answered: answers.length,
+      percentCorrect,
+      discrimination,
+      options,
+      otherCount: options.length > 0
+        ? answers.filter(answer => answer.chosen.some(value => !question.options.includes(value))).length
+        : 0,
+      unansweredCount: answers.filter(answer => answer.chosen.length === 0).length,
+      flags,
+    };
+  });
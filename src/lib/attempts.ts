@@ -0,0 +1,113 @@
+import { AttemptPolicy, Response } from '../types/database';
+import { getPercentage } from './questions';
+
+export interface StudentAttempts {
+  key: string;
+  studentName: string;
+  studentEmail: string;
+  studentRegisterNumber: string;
+  // Newest first
+  attempts: Response[];
+}
+
+export interface CountedResult {
+  score: number;
+  total: number;
+  percentage: number;
+  // The attempt that counts, or null when attempts are averaged
+  attempt: Response | null;
+}
+
+export const attemptPolicyLabels: { [key in AttemptPolicy]: string } = {
+  best: 'Best attempt',
+  latest: 'Latest attempt',
+  average: 'Average of attempts',
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const percentageOf = (response: Response) => getPercentage(response.score, response.max_score);
+
+// Groups responses by student. Like the attempt limit in the database, two
+// responses belong to the same student when they share an email address or a
+// register number.
+export const groupAttemptsByStudent = (responses: Response[]): StudentAttempts[] => {
+  const parent = responses.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const firstSeen = new Map<string, number>();
+  responses.forEach((response, index) => {
+    const keys = [
+      `email:${normalize(response.student_email)}`,
+      `reg:${normalize(response.student_register_number)}`,
+    ];
+    keys.forEach(key => {
+      const seen = firstSeen.get(key);
+      if (seen === undefined) {
+        firstSeen.set(key, index);
+      } else {
+        parent[find(index)] = find(seen);
+      }
+    });
+  });
+
+  const groups = new Map<number, Response[]>();
+  responses.forEach((response, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), response]);
+  });
+
+  return Array.from(groups.values())
+    .map(attempts => {
+      const sorted = [...attempts].sort(
+        (a, b) => new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime()
+      );
+      const latest = sorted[0];
+      return {
+        key: latest.id,
+        studentName: latest.student_name,
+        studentEmail: latest.student_email,
+        studentRegisterNumber: latest.student_register_number,
+        attempts: sorted,
+      };
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.attempts[0].submitted_at).getTime() -
+        new Date(a.attempts[0].submitted_at).getTime()
+    );
+};
+
+// Result that counts for a student under the quiz's attempt policy
+export const getCountedResult = (attempts: Response[], policy: AttemptPolicy): CountedResult => {
+  if (policy === 'average') {
+    const count = attempts.length;
+    return {
+      score: attempts.reduce((sum, response) => sum + response.score, 0) / count,
+      total: attempts.reduce((sum, response) => sum + response.max_score, 0) / count,
+      percentage: attempts.reduce((sum, response) => sum + percentageOf(response), 0) / count,
+      attempt: null,
+    };
+  }
+
+  const attempt = policy === 'latest'
+    ? attempts.reduce((latest, response) =>
+        new Date(response.submitted_at) > new Date(latest.submitted_at) ? response : latest
+      )
+    : attempts.reduce((best, response) =>
+        percentageOf(response) > percentageOf(best) ? response : best
+      );
+
+  return {
+    score: attempt.score,
+    total: attempt.max_score,
+    percentage: percentageOf(attempt),
+    attempt,
+  };
+};
@@ -0,0 +1,31 @@
+import { Quiz, ReviewVisibility } from '../types/database';
+
+export type ScheduleStatus = 'scheduled' | 'open' | 'closed';
+
+// Where a quiz sits relative to its opens_at / closes_at window
+export const getScheduleStatus = (
+  quiz: Pick<Quiz, 'opens_at' | 'closes_at'>,
+  now: Date = new Date()
+): ScheduleStatus => {
+  if (quiz.opens_at && now < new Date(quiz.opens_at)) {
+    return 'scheduled';
+  }
+  if (quiz.closes_at && now >= new Date(quiz.closes_at)) {
+    return 'closed';
+  }
+  return 'open';
+};
+
+// When students see the correct answers, marks and feedback
+export const reviewVisibilityLabels: { [key in ReviewVisibility]: string } = {
+  after_submit: 'Right after submitting',
+  after_close: 'After the quiz closes',
+  never: 'Never',
+};
+
+// Shown to students instead of the review while it is hidden
+export const hiddenReviewMessages: { [key in ReviewVisibility]: string } = {
+  after_submit: 'The correct answers will be shown here once they are available.',
+  after_close: 'The correct answers will be shown here once the quiz closes.',
+  never: 'Your teacher has chosen not to show the correct answers for this quiz.',
+};
@@ -0,0 +1,47 @@
+import { BankQuestion, Difficulty, QuestionDraft } from '../types/database';
+import { createQuestion, toQuestionContent } from './questions';
+
+export interface BankFilters {
+  search: string;
+  tag: string;
+  difficulty: Difficulty | '';
+}
+
+export const emptyBankFilters: BankFilters = { search: '', tag: '', difficulty: '' };
+
+export const difficultyLabels: { [key in Difficulty]: string } = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const difficultyBadgeClasses: { [key in Difficulty]: string } = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800',
+};
+
+// Comma-separated tags as typed by the teacher, without blanks or duplicates
+export const parseTags = (value: string) =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+export const getBankTags = (questions: BankQuestion[]) =>
+  Array.from(new Set(questions.flatMap(question => question.tags))).sort((a, b) => a.localeCompare(b));
+
+export const filterBankQuestions = (questions: BankQuestion[], filters: BankFilters) => {
+  const search = filters.search.trim().toLowerCase();
+  return questions.filter(question =>
+    (!search ||
+      question.question_text.toLowerCase().includes(search) ||
+      question.tags.some(tag => tag.toLowerCase().includes(search))) &&
+    (!filters.tag || question.tags.includes(filters.tag)) &&
+    (!filters.difficulty || question.difficulty === filters.difficulty)
+  );
+};
+
+// Quiz question linked to a bank question, with per-quiz settings at their defaults
+export const fromBankQuestion = (question: BankQuestion, orderIndex: number): QuestionDraft => ({
+  ...createQuestion(orderIndex),
+  ...toQuestionContent(question),
+  bank_question_id: question.id,
+});
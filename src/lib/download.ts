@@ -0,0 +1,15 @@
+// Saves a generated file through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Lower-case file name made from a quiz title
+export const toFileName = (title: string) => title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
@@ -0,0 +1,204 @@
+import { AttemptPolicy, Question, Quiz, Response } from '../types/database';
+import { analyzeItems, difficultyLabel, discriminationLabel } from './analysis';
+import { attemptPolicyLabels, getCountedResult, groupAttemptsByStudent } from './attempts';
+import { formatAnswer, getPercentage, getServedPositions } from './questions';
+import { buildHistogram, getPercentileRank, summarizeScores } from './statistics';
+import { QuestionColumn } from './versions';
+import { Cell, Sheet } from './xlsx';
+
+// Form values, kept as strings like the other filter and settings forms
+export interface ExportFilters {
+  // Dates as yyyy-mm-dd, in local time
+  submittedFrom: string;
+  submittedTo: string;
+  minPercentage: string;
+  maxPercentage: string;
+}
+
+export const emptyExportFilters: ExportFilters = {
+  submittedFrom: '',
+  submittedTo: '',
+  minPercentage: '',
+  maxPercentage: '',
+};
+
+export const hasExportFilters = (filters: ExportFilters) =>
+  Object.values(filters).some(value => value.trim() !== '');
+
+// Attempts submitted in the date range whose percentage is in the score band
+export const filterResponses = (responses: Response[], filters: ExportFilters) => {
+  const from = filters.submittedFrom ? new Date(`${filters.submittedFrom}T00:00:00`).getTime() : -Infinity;
+  const to = filters.submittedTo ? new Date(`${filters.submittedTo}T23:59:59.999`).getTime() : Infinity;
+  const min = filters.minPercentage ? Number(filters.minPercentage) : -Infinity;
+  const max = filters.maxPercentage ? Number(filters.maxPercentage) : Infinity;
+
+  return responses.filter(response => {
+    const submitted = new Date(response.submitted_at).getTime();
+    const percentage = getPercentage(response.score, response.max_score);
+    return submitted >= from && submitted <= to && percentage >= min && percentage <= max;
+  });
+};
+
+export const describeExportFilters = (filters: ExportFilters) => {
+  const parts = [];
+  if (filters.submittedFrom || filters.submittedTo) {
+    parts.push(`Submitted ${filters.submittedFrom || 'any time'} to ${filters.submittedTo || 'now'}`);
+  }
+  if (filters.minPercentage || filters.maxPercentage) {
+    parts.push(`Score ${filters.minPercentage || '0'}% to ${filters.maxPercentage || '100'}%`);
+  }
+  return parts.length > 0 ? parts.join('; ') : 'All responses';
+};
+
+export const getTimeTaken = (response: Response) => {
+  if (!response.started_at) return null;
+  return (new Date(response.submitted_at).getTime() - new Date(response.started_at).getTime()) / 1000;
+};
+
+// Outcome of one question in a response
+const getQuestionResult = (response: Response, questions: Question[], questionId: string): { result: string; points: number | null } => {
+  const index = questions.findIndex(question => question.id === questionId);
+  if (index === -1) return { result: '', points: null };
+  if (!getServedPositions(response, questions.length).includes(index)) return { result: 'Not served', points: null };
+
+  const points = response.question_scores[index];
+  if (points === null || points === undefined) return { result: 'Pending', points: null };
+  const maxPoints = questions[index].points;
+  return {
+    result: points >= maxPoints ? 'Correct' : points > 0 ? 'Partial' : 'Incorrect',
+    points,
+  };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface ResultsExportInput {
+  quiz: Quiz;
+  questions: Question[];
+  questionColumns: QuestionColumn[];
+  responses: Response[];
+  attemptPolicy: AttemptPolicy;
+  questionsFor: (response: Response) => Question[];
+  filters: ExportFilters;
+}
+
+// Summary, per-attempt responses and item analysis as tables, shared by the
+// CSV and Excel exports
+export const buildResultsSheets = ({
+  quiz,
+  questions,
+  questionColumns,
+  responses,
+  attemptPolicy,
+  questionsFor,
+  filters,
+}: ResultsExportInput): Sheet[] => {
+  const filtered = filterResponses(responses, filters);
+  const students = groupAttemptsByStudent(filtered);
+  const countedResults = students.map(student => getCountedResult(student.attempts, attemptPolicy));
+  const percentages = countedResults.map(result => result.percentage);
+  const summary = summarizeScores(percentages);
+
+  const summaryRows: Cell[][] = [
+    ['Quiz', quiz.title],
+    ['Exported At', new Date().toISOString()],
+    ['Filters', describeExportFilters(filters)],
+    ['Counted Attempt', attemptPolicyLabels[attemptPolicy]],
+    ['Responses', filtered.length],
+    ['Students', students.length],
+  ];
+  if (summary) {
+    summaryRows.push(
+      ['Mean %', round(summary.mean)],
+      ['Median %', round(summary.median)],
+      ['Lower Quartile %', round(summary.lowerQuartile)],
+      ['Upper Quartile %', round(summary.upperQuartile)],
+      ['Standard Deviation %', round(summary.standardDeviation)],
+      ['Lowest %', round(summary.min)],
+      ['Highest %', round(summary.max)],
+      [],
+      ['Score Range', 'Students'],
+      ...buildHistogram(percentages).map(bin => [bin.label, bin.count])
+    );
+  }
+
+  const responseRows: Cell[][] = [[
+    'Student Name',
+    'Email',
+    'Register Number',
+    'Attempt',
+    'Counted',
+    'Score',
+    'Max Score',
+    'Total Questions',
+    'Percentage',
+    'Percentile',
+    'Started At',
+    'Submitted At',
+    'Time Taken (s)',
+    'Late',
+    'Access Code',
+    'Pending Review',
+    ...questionColumns.flatMap(column => [`${column.label} Answer`, `${column.label} Result`, `${column.label} Points`]),
+  ]];
+
+  students.forEach((student, studentIndex) => {
+    const counted = countedResults[studentIndex];
+    const percentile = round(getPercentileRank(counted.percentage, percentages));
+    student.attempts.forEach((response, index) => {
+      const isCounted = counted.attempt ? (counted.attempt.id === response.id ? 'Yes' : 'No') : 'Averaged';
+      const responseQuestions = questionsFor(response);
+      const timeTaken = getTimeTaken(response);
+      responseRows.push([
+        response.student_name,
+        response.student_email,
+        response.student_register_number,
+        student.attempts.length - index,
+        isCounted,
+        round(response.score),
+        round(response.max_score),
+        response.total_questions,
+        round(getPercentage(response.score, response.max_score)),
+        isCounted === 'No' ? null : percentile,
+        response.started_at ? new Date(response.started_at).toISOString() : null,
+        new Date(response.submitted_at).toISOString(),
+        timeTaken !== null ? Math.round(timeTaken) : null,
+        response.is_late ? 'Yes' : 'No',
+        response.access_code,
+        response.needs_grading ? 'Yes' : 'No',
+        ...questionColumns.flatMap(column => {
+          const index = responseQuestions.findIndex(question => question.id === column.questionId);
+          const { result, points } = getQuestionResult(response, responseQuestions, column.questionId);
+          return [index === -1 ? null : formatAnswer(response.answers[index]), result, points !== null ? round(points) : null];
+        }),
+      ]);
+    });
+  });
+
+  const analyzed = students.map((student, index) => countedResults[index].attempt ?? student.attempts[0]);
+  const itemRows: Cell[][] = [
+    ['Question', 'Text', 'Type', 'Points', 'Answered', 'Percent Correct', 'Difficulty', 'Discrimination', 'Discrimination Rating', 'Option Counts', 'Flags'],
+    ...analyzeItems(questions, analyzed, questionsFor).map((item, index) => [
+      index + 1,
+      item.question.question_text,
+      item.question.question_type,
+      item.question.points,
+      item.answered,
+      item.percentCorrect !== null ? round(item.percentCorrect) : null,
+      item.percentCorrect !== null ? difficultyLabel(item.percentCorrect) : null,
+      item.discrimination !== null ? round(item.discrimination) : null,
+      item.discrimination !== null ? discriminationLabel(item.discrimination) : null,
+      item.options.map(option => `${option.isKey ? '*' : ''}${option.option}: ${option.count}`).join('; '),
+      item.flags.join('; '),
+    ]),
+  ];
+
+  return [
+    { name: 'Summary', rows: summaryRows },
+    { name: 'Responses', rows: responseRows },
+    { name: 'Item Analysis', rows: itemRows },
+  ];
+};
+
+export const toCsv = (rows: Cell[][]) =>
+  rows.map(row => row.map(cell => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(',')).join('\n');
@@ -0,0 +1,25 @@
+// Formats a number of seconds as m:ss, or h:mm:ss for an hour or more
+export const formatDuration = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+};
+
+// Converts an ISO timestamp to the value format of <input type="datetime-local">
+export const toDateTimeLocal = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+// Converts a datetime-local input value (local time) back to an ISO timestamp
+export const fromDateTimeLocal = (value: string) => {
+  return value ? new Date(value).toISOString() : null;
+};
@@ -0,0 +1,346 @@
+import { QuestionDraft } from '../types/database';
+import { createQuestion, isNumber } from './questions';
+
+export type ImportFormat = 'csv' | 'gift' | 'aiken';
+
+export interface ImportResult {
+  questions: QuestionDraft[];
+  // Parts of the input that could not be turned into a question
+  warnings: string[];
+}
+
+export const importFormatLabels: { [key in ImportFormat]: string } = {
+  csv: 'CSV (question, options, correct)',
+  gift: 'Moodle GIFT',
+  aiken: 'Aiken',
+};
+
+export const importFormatExamples: { [key in ImportFormat]: string } = {
+  csv: 'question,options,correct\n"What is 2 + 2?","3|4|5",4\n"Capital of France?",,Paris',
+  gift: "What is 2 + 2? {=4 ~3 ~5}\n\nThe sky is blue. {T}\n\nCapital of France? {=Paris}",
+  aiken: 'What is 2 + 2?\nA. 3\nB. 4\nC. 5\nANSWER: B',
+};
+
+// Picks a format from the file extension, then from the content
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'gift') return 'gift';
+  if (/^\s*ANSWER:/im.test(text)) return 'aiken';
+  return /[{}]/.test(text) ? 'gift' : 'csv';
+};
+
+const draft = (orderIndex: number, changes: Partial<QuestionDraft>): QuestionDraft => ({
+  ...createQuestion(orderIndex),
+  ...changes,
+});
+
+// Short-answer or numeric question depending on what the answer looks like
+const freeTextQuestion = (orderIndex: number, questionText: string, answers: string[]): QuestionDraft =>
+  answers.length === 1 && isNumber(answers[0])
+    ? draft(orderIndex, { question_text: questionText, question_type: 'numeric', options: [], correct_answer: answers[0] })
+    : draft(orderIndex, { question_text: questionText, question_type: 'short_answer', options: [], correct_answers: answers });
+
+// Choice question, multiple select when more than one option is correct
+const choiceQuestion = (orderIndex: number, questionText: string, options: string[], correct: string[]): QuestionDraft =>
+  correct.length > 1
+    ? draft(orderIndex, { question_text: questionText, question_type: 'multiple_select', options, correct_answers: correct })
+    : draft(orderIndex, { question_text: questionText, options, correct_answer: correct[0] ?? '' });
+
+export interface CsvRow {
+  // 1-based row in the file, counting blank rows, like the teacher's spreadsheet
+  number: number;
+  cells: string[];
+}
+
+// RFC 4180 rows: quoted cells may contain commas, quotes ("") and newlines.
+// Blank rows are left out.
+export const parseCsvRows = (text: string): CsvRow[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map((cells, index) => ({ number: index + 1, cells }))
+    .filter(row => row.cells.some(value => value.trim()));
+};
+
+const splitList = (value: string) => value.split('|').map(item => item.trim()).filter(Boolean);
+
+// A correct answer given as option text, a letter (A-E) or a 1-based number
+const resolveOption = (options: string[], answer: string) => {
+  if (options.includes(answer)) return answer;
+  if (/^[a-z]$/i.test(answer)) return options[answer.toUpperCase().charCodeAt(0) - 65] ?? answer;
+  if (/^\d+$/.test(answer)) return options[Number(answer) - 1] ?? answer;
+  return answer;
+};
+
+// One row per question: question text, options separated by "|", and the
+// correct answer (several separated by "|"). Rows without options become
+// short-answer or numeric questions.
+export const parseCsv = (text: string, startIndex = 0): ImportResult => {
+  const rows = parseCsvRows(text);
+  const questions: QuestionDraft[] = [];
+  const warnings: string[] = [];
+
+  if (rows.length > 0 && rows[0].cells[0]?.trim().toLowerCase() === 'question') {
+    rows.shift();
+  }
+
+  rows.forEach(row => {
+    const [questionText = '', optionsCell = '', correctCell = ''] = row.cells.map(cell => cell.trim());
+    if (!questionText) {
+      warnings.push(`Row ${row.number} has no question text and was skipped`);
+      return;
+    }
+
+    const orderIndex = startIndex + questions.length;
+    const options = splitList(optionsCell);
+    const correct = splitList(correctCell);
+    questions.push(options.length > 0
+      ? choiceQuestion(orderIndex, questionText, options, correct.map(answer => resolveOption(options, answer)))
+      : freeTextQuestion(orderIndex, questionText, correct));
+  });
+
+  return { questions, warnings };
+};
+
+// Question text, options lettered "A." or "A)", then "ANSWER: X"
+export const parseAiken = (text: string, startIndex = 0): ImportResult => {
+  const questions: QuestionDraft[] = [];
+  const warnings: string[] = [];
+  let questionLines: string[] = [];
+  let options: string[] = [];
+
+  const reset = () => {
+    questionLines = [];
+    options = [];
+  };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const option = line.match(/^([A-Z])[.)]\s+(.*)$/);
+    const answer = line.match(/^ANSWER:\s*([A-Z])\s*$/i);
+
+    if (answer) {
+      const questionText = questionLines.join(' ');
+      const correct = options[answer[1].toUpperCase().charCodeAt(0) - 65];
+      if (!questionText || options.length === 0) {
+        warnings.push(`"${line}" does not follow a question with options and was skipped`);
+      } else if (correct === undefined) {
+        warnings.push(`The answer to "${questionText}" is not one of its options`);
+        questions.push(choiceQuestion(startIndex + questions.length, questionText, options, []));
+      } else {
+        questions.push(choiceQuestion(startIndex + questions.length, questionText, options, [correct]));
+      }
+      reset();
+    } else if (option && questionLines.length > 0) {
+      options.push(option[2].trim());
+    } else if (options.length > 0) {
+      // A question line after options means the previous question had no answer line
+      warnings.push(`"${questionLines.join(' ')}" has no ANSWER line and was skipped`);
+      reset();
+      questionLines.push(line);
+    } else {
+      questionLines.push(line);
+    }
+  });
+
+  if (questionLines.length > 0) {
+    warnings.push(`"${questionLines.join(' ')}" has no ANSWER line and was skipped`);
+  }
+
+  return { questions, warnings };
+};
+
+const GIFT_SPECIAL = /\\([~=#{}:])/g;
+
+const unescapeGift = (value: string) => value.replace(GIFT_SPECIAL, '$1').trim();
+
+// Index of the first occurrence of one of `chars` that is not escaped
+const findUnescaped = (value: string, chars: string, from = 0) => {
+  for (let i = from; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i++;
+    } else if (chars.includes(value[i])) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Splits "=right ~wrong#feedback ~%50%half" into its answers
+const splitGiftAnswers = (body: string) => {
+  const answers: { mark: string; weight: number | null; text: string }[] = [];
+  let start = findUnescaped(body, '=~');
+  while (start !== -1) {
+    const end = findUnescaped(body, '=~', start + 1);
+    let text = body.slice(start + 1, end === -1 ? undefined : end);
+    const feedbackAt = findUnescaped(text, '#');
+    if (feedbackAt !== -1) text = text.slice(0, feedbackAt);
+
+    const weight = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weight) text = text.slice(weight[0].length);
+
+    answers.push({ mark: body[start], weight: weight ? Number(weight[1]) : null, text: unescapeGift(text) });
+    start = end;
+  }
+  return answers;
+};
+
+const parseGiftQuestion = (block: string, orderIndex: number): QuestionDraft | string => {
+  let source = block.replace(/^::(.*?)::/s, '').replace(/^\s*\[(html|moodle|plain|markdown)\]/i, '');
+  const open = findUnescaped(source, '{');
+  const close = open === -1 ? -1 : findUnescaped(source, '}', open);
+  if (open === -1 || close === -1) {
+    return 'has no answer block in braces';
+  }
+
+  const before = unescapeGift(source.slice(0, open));
+  const after = unescapeGift(source.slice(close + 1));
+  const questionText = after ? `${before} _____ ${after}` : before;
+  source = source.slice(open + 1, close).trim();
+
+  // Strip general feedback: "####feedback"
+  const generalFeedback = source.indexOf('####');
+  if (generalFeedback !== -1) source = source.slice(0, generalFeedback).trim();
+
+  if (!source) {
+    return draft(orderIndex, { question_text: questionText, question_type: 'essay', options: [] });
+  }
+
+  if (/^(T|TRUE|F|FALSE)(#.*)?$/is.test(source)) {
+    const isTrue = /^T/i.test(source);
+    return choiceQuestion(orderIndex, questionText, ['True', 'False'], [isTrue ? 'True' : 'False']);
+  }
+
+  if (source.startsWith('#')) {
+    const value = source.slice(1).split('#')[0].trim();
+    const range = value.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+    if (range) {
+      const min = Number(range[1]);
+      const max = Number(range[2]);
+      return draft(orderIndex, {
+        question_text: questionText,
+        question_type: 'numeric',
+        options: [],
+        correct_answer: String((min + max) / 2),
+        tolerance: Math.abs(max - min) / 2,
+      });
+    }
+
+    const [answer, tolerance] = value.split(':');
+    return draft(orderIndex, {
+      question_text: questionText,
+      question_type: 'numeric',
+      options: [],
+      correct_answer: answer.trim(),
+      tolerance: tolerance && isNumber(tolerance) ? Number(tolerance) : 0,
+    });
+  }
+
+  const answers = splitGiftAnswers(source);
+  if (answers.length === 0) {
+    return 'has an answer block this importer does not understand';
+  }
+
+  if (answers.some(answer => answer.text.includes('->'))) {
+    return 'is a matching question, which is not supported';
+  }
+
+  // Only "=" answers: any of them is accepted
+  if (answers.every(answer => answer.mark === '=')) {
+    return freeTextQuestion(orderIndex, questionText, answers.map(answer => answer.text));
+  }
+
+  const options = answers.map(answer => answer.text);
+  const weighted = answers.some(answer => answer.weight !== null);
+  if (weighted) {
+    // An unweighted "=" answer is worth 100%, an unweighted "~" answer nothing
+    const weightOf = (answer: typeof answers[number]) => answer.weight ?? (answer.mark === '=' ? 100 : 0);
+    const question = choiceQuestion(
+      orderIndex,
+      questionText,
+      options,
+      answers.filter(answer => weightOf(answer) > 0).map(answer => answer.text)
+    );
+    return question.question_type === 'multiple_select'
+      ? {
+        ...question,
+        partial_credit: answers.some(answer => weightOf(answer) < 0) ? 'right_minus_wrong' : 'per_option',
+      }
+      : question;
+  }
+
+  return choiceQuestion(orderIndex, questionText, options, answers.filter(answer => answer.mark === '=').map(answer => answer.text));
+};
+
+// Moodle GIFT: questions separated by blank lines, "//" comment lines
+export const parseGift = (text: string, startIndex = 0): ImportResult => {
+  const questions: QuestionDraft[] = [];
+  const warnings: string[] = [];
+
+  const lines = text.split(/\r?\n/).filter(line => !line.trim().startsWith('//'));
+  const blocks = lines.join('\n').split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+
+  blocks.forEach(block => {
+    // Category lines set the Moodle question category, which has no equivalent here
+    if (block.startsWith('$CATEGORY:')) return;
+
+    const result = parseGiftQuestion(block, startIndex + questions.length);
+    if (typeof result === 'string') {
+      const preview = block.length > 60 ? `${block.slice(0, 60)}...` : block;
+      warnings.push(`"${preview}" ${result} and was skipped`);
+    } else {
+      questions.push(result);
+    }
+  });
+
+  return { questions, warnings };
+};
+
+export const parseQuestions = (format: ImportFormat, text: string, startIndex = 0): ImportResult => {
+  switch (format) {
+    case 'csv':
+      return parseCsv(text, startIndex);
+    case 'gift':
+      return parseGift(text, startIndex);
+    case 'aiken':
+      return parseAiken(text, startIndex);
+  }
+};
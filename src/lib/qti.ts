@@ -0,0 +1,325 @@
+import { Question, QuestionDraft, Quiz } from '../types/database';
+import { ImportResult } from './importers';
+import { createQuestion } from './questions';
+import { createZip, readZip } from './zip';
+
+// IMS QTI 2.1 content packages
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => `<p>${escapeXml(line)}</p>`)
+    .join('\n    ');
+
+const values = (answers: string[]) => answers.map(answer => `<value>${escapeXml(answer)}</value>`).join('');
+
+// Awards the question's points when the condition holds. The standard
+// match_correct template would score 1 whatever the item is worth.
+const scoreIf = (condition: string, points: number) => `<responseProcessing>
+    <responseCondition>
+      <responseIf>
+        ${condition}
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">${points}</baseValue></setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+  </responseProcessing>`;
+
+const matchCorrect = `<match>
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </match>`;
+
+const itemXml = (question: Question, identifier: string) => {
+  const choiceId = (index: number) => `choice-${index + 1}`;
+  let declaration = '';
+  let body = '';
+  let processing = '';
+
+  switch (question.question_type) {
+    case 'single_choice':
+    case 'multiple_select': {
+      const multiple = question.question_type === 'multiple_select';
+      const correct = question.options
+        .map((option, index) => ({ option, id: choiceId(index) }))
+        .filter(({ option }) => (multiple ? question.correct_answers.includes(option) : question.correct_answer === option))
+        .map(({ id }) => id);
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">
+    <correctResponse>${values(correct)}</correctResponse>
+  </responseDeclaration>`;
+      body = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">
+      <prompt>${escapeXml(question.question_text)}</prompt>
+      ${question.options.map((option, index) => `<simpleChoice identifier="${choiceId(index)}">${escapeXml(option)}</simpleChoice>`).join('\n      ')}
+    </choiceInteraction>`;
+      processing = scoreIf(matchCorrect, question.points);
+      break;
+    }
+    case 'short_answer':
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse>${values(question.correct_answers.slice(0, 1))}</correctResponse>
+    <mapping defaultValue="0">
+      ${question.correct_answers.map(answer => `<mapEntry mapKey="${escapeXml(answer)}" mappedValue="${question.points}" caseSensitive="false"/>`).join('\n      ')}
+    </mapping>
+  </responseDeclaration>`;
+      body = `${paragraphs(question.question_text)}
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>`;
+      processing = `<responseProcessing template="${TEMPLATES}/map_response"/>`;
+      break;
+    case 'numeric':
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">
+    <correctResponse>${values([question.correct_answer])}</correctResponse>
+  </responseDeclaration>`;
+      body = `${paragraphs(question.question_text)}
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="15"/></p>`;
+      processing = scoreIf(
+        question.tolerance > 0
+          ? `<equal toleranceMode="${question.tolerance_mode}" tolerance="${question.tolerance} ${question.tolerance}">
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </equal>`
+          : matchCorrect,
+        question.points
+      );
+      break;
+    case 'essay':
+      declaration = '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>';
+      body = `${paragraphs(question.question_text)}
+    <extendedTextInteraction responseIdentifier="RESPONSE"/>`;
+      break;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="${identifier}" title="${escapeXml(question.question_text.slice(0, 80))}" adaptive="false" timeDependent="false">
+  ${declaration}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${question.points}">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <itemBody>
+    ${body}
+  </itemBody>
+  ${processing}
+</assessmentItem>
+`;
+};
+
+const testXml = (quiz: Pick<Quiz, 'title'>, itemIds: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="assessment" title="${escapeXml(quiz.title)}">
+  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">
+    <assessmentSection identifier="section-1" title="${escapeXml(quiz.title)}" visible="true">
+      ${itemIds.map(id => `<assessmentItemRef identifier="${id}" href="items/${id}.xml"/>`).join('\n      ')}
+    </assessmentSection>
+  </testPart>
+</assessmentTest>
+`;
+
+const manifestXml = (itemIds: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="assessment" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+      ${itemIds.map(id => `<dependency identifierref="${id}"/>`).join('\n      ')}
+    </resource>
+    ${itemIds.map(id => `<resource identifier="${id}" type="imsqti_item_xmlv2p1" href="items/${id}.xml">
+      <file href="items/${id}.xml"/>
+    </resource>`).join('\n    ')}
+  </resources>
+</manifest>
+`;
+
+export interface QtiExport {
+  blob: Blob;
+  // Settings that QTI cannot express and were left out
+  warnings: string[];
+}
+
+export const buildQtiPackage = (quiz: Pick<Quiz, 'title'>, questions: Question[]): QtiExport => {
+  const encoder = new TextEncoder();
+  const itemIds = questions.map((_, index) => `item-${index + 1}`);
+  const warnings = questions
+    .map((question, index) => question.question_type === 'short_answer' && question.answer_pattern
+      ? `Question ${index + 1}: the answer pattern was left out, so only its accepted answers are marked correct`
+      : null)
+    .filter((warning): warning is string => warning !== null);
+
+  const blob = createZip([
+    { name: 'imsmanifest.xml', data: encoder.encode(manifestXml(itemIds)) },
+    { name: 'assessment.xml', data: encoder.encode(testXml(quiz, itemIds)) },
+    ...questions.map((question, index) => ({
+      name: `items/${itemIds[index]}.xml`,
+      data: encoder.encode(itemXml(question, itemIds[index])),
+    })),
+  ]);
+
+  return { blob, warnings };
+};
+
+const byTag = (parent: Element | Document, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const textOf = (element: Element | undefined) => element?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+
+const parseXml = (xml: string) => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  return byTag(document, 'parsererror').length > 0 ? null : document;
+};
+
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction'];
+
+const parseItem = (document: Document, orderIndex: number): QuestionDraft | string => {
+  const itemBody = byTag(document, 'itemBody')[0];
+  if (!itemBody) return 'has no item body';
+
+  const interactions = Array.from(itemBody.getElementsByTagNameNS('*', '*'))
+    .filter(element => element.localName.endsWith('Interaction'));
+  if (interactions.length === 0) return 'has no interaction';
+  if (interactions.length > 1) return 'has more than one interaction, which is not supported';
+
+  const interaction = interactions[0];
+  if (!SUPPORTED_INTERACTIONS.includes(interaction.localName)) {
+    return `uses ${interaction.localName}, which is not supported`;
+  }
+
+  // Question text is the item body without the interaction, plus its prompt
+  const body = itemBody.cloneNode(true) as Element;
+  Array.from(body.getElementsByTagNameNS('*', interaction.localName)).forEach(element => element.remove());
+  const questionText = [textOf(body), textOf(byTag(interaction, 'prompt')[0])].filter(Boolean).join(' ');
+
+  const declaration = byTag(document, 'responseDeclaration')
+    .find(element => element.getAttribute('identifier') === interaction.getAttribute('responseIdentifier'));
+  const correct = declaration
+    ? byTag(declaration, 'correctResponse').flatMap(element => byTag(element, 'value')).map(textOf)
+    : [];
+  const mapped = declaration
+    ? byTag(declaration, 'mapEntry')
+      .filter(entry => Number(entry.getAttribute('mappedValue')) > 0)
+      .map(entry => entry.getAttribute('mapKey') ?? '')
+    : [];
+
+  const score = byTag(document, 'outcomeDeclaration').find(element => element.getAttribute('identifier') === 'SCORE');
+  const maxPoints = Number(score?.getAttribute('normalMaximum'));
+  const base: QuestionDraft = {
+    ...createQuestion(orderIndex),
+    question_text: questionText,
+    points: maxPoints > 0 ? maxPoints : 1,
+  };
+
+  if (interaction.localName === 'choiceInteraction') {
+    const choices = byTag(interaction, 'simpleChoice').map(choice => ({
+      id: choice.getAttribute('identifier'),
+      text: textOf(choice),
+    }));
+    const options = choices.map(choice => choice.text);
+    const correctOptions = choices.filter(choice => choice.id && correct.includes(choice.id)).map(choice => choice.text);
+
+    return declaration?.getAttribute('cardinality') === 'multiple'
+      ? { ...base, question_type: 'multiple_select', options, correct_answers: correctOptions }
+      : { ...base, options, correct_answer: correctOptions[0] ?? '' };
+  }
+
+  if (interaction.localName === 'extendedTextInteraction') {
+    return { ...base, question_type: 'essay', options: [] };
+  }
+
+  const baseType = declaration?.getAttribute('baseType');
+  if (baseType === 'float' || baseType === 'integer') {
+    const equal = byTag(document, 'equal')[0];
+    const toleranceMode = equal?.getAttribute('toleranceMode');
+    const tolerance = Number(equal?.getAttribute('tolerance')?.trim().split(/\s+/)[0]);
+    return {
+      ...base,
+      question_type: 'numeric',
+      options: [],
+      correct_answer: correct[0] ?? '',
+      tolerance: toleranceMode && toleranceMode !== 'exact' && tolerance > 0 ? tolerance : 0,
+      tolerance_mode: toleranceMode === 'relative' ? 'relative' : 'absolute',
+    };
+  }
+
+  return {
+    ...base,
+    question_type: 'short_answer',
+    options: [],
+    correct_answers: Array.from(new Set([...correct, ...mapped].filter(Boolean))),
+  };
+};
+
+// Resolves an href in the manifest against the manifest's own folder
+const resolvePath = (base: string, href: string) => {
+  const parts = [...base.split('/').slice(0, -1), ...href.split('/')];
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+};
+
+export const parseQtiPackage = async (buffer: ArrayBuffer, startIndex = 0): Promise<ImportResult & { title: string | null }> => {
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(buffer)).map(entry => [entry.name, decoder.decode(entry.data)]));
+  const questions: QuestionDraft[] = [];
+  const warnings: string[] = [];
+  let title: string | null = null;
+
+  // Items in manifest order, or every item file when there is no manifest
+  const manifestPath = Array.from(files.keys()).find(name => name.split('/').pop() === 'imsmanifest.xml');
+  const manifest = manifestPath ? parseXml(files.get(manifestPath)!) : null;
+  let itemPaths: string[];
+
+  if (manifest && manifestPath) {
+    const resources = byTag(manifest, 'resource');
+    itemPaths = resources
+      .filter(resource => resource.getAttribute('type')?.startsWith('imsqti_item_xmlv2p'))
+      .map(resource => resolvePath(manifestPath, resource.getAttribute('href') ?? ''));
+
+    const test = resources.find(resource => resource.getAttribute('type')?.startsWith('imsqti_test_xmlv2p'));
+    const testDocument = test ? parseXml(files.get(resolvePath(manifestPath, test.getAttribute('href') ?? '')) ?? '') : null;
+    title = testDocument?.documentElement.getAttribute('title') || null;
+
+    resources
+      .filter(resource => !resource.getAttribute('type')?.startsWith('imsqti_'))
+      .forEach(resource => {
+        warnings.push(`Resource "${resource.getAttribute('identifier')}" of type ${resource.getAttribute('type')} is not supported`);
+      });
+  } else {
+    itemPaths = Array.from(files.keys()).filter(name => name.endsWith('.xml')).sort();
+  }
+
+  itemPaths.forEach(path => {
+    const content = files.get(path);
+    const document = content ? parseXml(content) : null;
+    if (!document) {
+      warnings.push(`${path} is missing or is not valid XML`);
+      return;
+    }
+    if (document.documentElement.localName !== 'assessmentItem') {
+      return;
+    }
+
+    const result = parseItem(document, startIndex + questions.length);
+    if (typeof result === 'string') {
+      warnings.push(`Item "${document.documentElement.getAttribute('title') || path}" ${result} and was skipped`);
+    } else {
+      questions.push(result);
+    }
+  });
+
+  return { questions, warnings, title };
+};
@@ -0,0 +1,255 @@
+import { Answer, PartialCredit, Question, QuestionContent, QuestionDraft, QuestionType, SectionDrawCounts, ServedOrder, StudentQuestion, ToleranceMode } from '../types/database';
+
+export const questionTypeLabels: { [key in QuestionType]: string } = {
+  single_choice: 'Single choice',
+  multiple_select: 'Select all that apply',
+  short_answer: 'Short answer',
+  numeric: 'Numeric',
+  essay: 'Essay (graded manually)',
+};
+
+export const partialCreditLabels: { [key in PartialCredit]: string } = {
+  none: 'All or nothing',
+  right_minus_wrong: 'Partial credit, wrong picks cancel right ones',
+  per_option: 'Partial credit per option',
+};
+
+export const toleranceModeLabels: { [key in ToleranceMode]: string } = {
+  absolute: '± absolute',
+  relative: '± percent',
+};
+
+// Question types answered by picking from `options`
+export const isChoiceQuestion = (questionType: QuestionType) =>
+  questionType === 'single_choice' || questionType === 'multiple_select';
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 5;
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+export const isNumber = (value: string) => NUMBER_PATTERN.test(value.trim());
+
+export const createQuestion = (orderIndex: number): QuestionDraft => ({
+  question_text: '',
+  question_type: 'single_choice',
+  options: ['', ''],
+  correct_answer: '',
+  correct_answers: [],
+  partial_credit: 'none',
+  answer_pattern: null,
+  tolerance: 0,
+  tolerance_mode: 'absolute',
+  points: 1,
+  negative_points: 0,
+  order_index: orderIndex,
+  time_limit_seconds: null,
+  section: null,
+  bank_question_id: null,
+});
+
+// Content fields with anything the question type does not use cleared
+export const toQuestionContent = (question: QuestionContent): QuestionContent => {
+  const type = question.question_type;
+  return {
+    question_text: question.question_text.trim(),
+    question_type: type,
+    options: isChoiceQuestion(type) ? question.options.map(opt => opt.trim()) : [],
+    correct_answer: type === 'single_choice' || type === 'numeric' ? question.correct_answer.trim() : '',
+    correct_answers: type === 'multiple_select' || type === 'short_answer'
+      ? question.correct_answers.map(answer => answer.trim()).filter(Boolean)
+      : [],
+    partial_credit: type === 'multiple_select' ? question.partial_credit : 'none',
+    answer_pattern: type === 'short_answer' ? question.answer_pattern?.trim() || null : null,
+    tolerance: type === 'numeric' ? question.tolerance : 0,
+    tolerance_mode: question.tolerance_mode,
+  };
+};
+
+// Fields written to the questions table when a quiz is saved
+export const toQuestionRow = (question: QuestionDraft, quizId: string, orderIndex: number) => ({
+  quiz_id: quizId,
+  ...toQuestionContent(question),
+  points: question.points,
+  negative_points: question.question_type === 'essay' ? 0 : question.negative_points,
+  order_index: orderIndex,
+  time_limit_seconds: question.time_limit_seconds,
+  section: question.section?.trim() || null,
+  bank_question_id: question.bank_question_id,
+});
+
+// Patterns are matched in the database as PostgreSQL regular expressions,
+// which read \b, \B, \p and \k differently from JavaScript and have no
+// named groups
+const usesUnsharedPatternSyntax = (pattern: string) =>
+  /\\[bBpPk]|\(\?<[^=!]/.test(pattern.replace(/\\\\/g, ''));
+
+// Returns a message describing the first problem with a question, or null
+export const validateQuestion = (question: QuestionDraft, index: number): string | null => {
+  if (!question.question_text.trim()) {
+    return `Please enter text for question ${index + 1}`;
+  }
+
+  if (isChoiceQuestion(question.question_type) && (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS)) {
+    return `Question ${index + 1} must have between ${MIN_OPTIONS} and ${MAX_OPTIONS} options`;
+  }
+
+  if (isChoiceQuestion(question.question_type) && question.options.some(option => !option.trim())) {
+    return `Please fill in all options for question ${index + 1}`;
+  }
+
+  if (question.question_type === 'short_answer') {
+    const pattern = question.answer_pattern?.trim();
+    if (!question.correct_answers.some(answer => answer.trim()) && !pattern) {
+      return `Please add an accepted answer or a pattern for question ${index + 1}`;
+    }
+
+    if (pattern) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        return `The answer pattern for question ${index + 1} is not a valid regular expression`;
+      }
+
+      if (usesUnsharedPatternSyntax(pattern)) {
+        return `The answer pattern for question ${index + 1} cannot use \\b, \\B, \\p, \\k or named groups; use \\y for a word boundary`;
+      }
+    }
+  } else if (question.question_type === 'numeric') {
+    if (!isNumber(question.correct_answer)) {
+      return `Please enter a numeric correct answer for question ${index + 1}`;
+    }
+
+    if (!(question.tolerance >= 0)) {
+      return `The tolerance for question ${index + 1} cannot be negative`;
+    }
+  } else if (question.question_type === 'multiple_select') {
+    if (question.correct_answers.length === 0) {
+      return `Please select at least one correct answer for question ${index + 1}`;
+    }
+
+    if (question.correct_answers.some(answer => !question.options.includes(answer))) {
+      return `The correct answers for question ${index + 1} must be among the provided options`;
+    }
+  } else if (question.question_type === 'single_choice') {
+    if (!question.correct_answer.trim()) {
+      return `Please select a correct answer for question ${index + 1}`;
+    }
+
+    if (!question.options.includes(question.correct_answer)) {
+      return `The correct answer for question ${index + 1} must be one of the provided options`;
+    }
+  }
+
+  if (!(question.points > 0)) {
+    return `Question ${index + 1} must be worth more than 0 points`;
+  }
+
+  if (!(question.negative_points >= 0)) {
+    return `The negative marks for question ${index + 1} cannot be below 0`;
+  }
+
+  if (question.time_limit_seconds !== null && !(Number.isInteger(question.time_limit_seconds) && question.time_limit_seconds > 0)) {
+    return `The time limit for question ${index + 1} must be a whole number of seconds`;
+  }
+
+  return null;
+};
+
+export const getCorrectAnswer = (question: Pick<Question, 'question_type' | 'correct_answer' | 'correct_answers'>): Answer =>
+  question.question_type === 'multiple_select' || question.question_type === 'short_answer'
+    ? question.correct_answers
+    : question.correct_answer;
+
+export const isCorrectOption = (
+  question: Pick<Question, 'question_type' | 'correct_answer' | 'correct_answers'>,
+  option: string
+) =>
+  question.question_type === 'multiple_select'
+    ? question.correct_answers.includes(option)
+    : question.correct_answer === option;
+
+export const isAnswered = (answer: Answer | undefined) =>
+  Array.isArray(answer) ? answer.length > 0 : !!answer?.trim();
+
+// Human-readable answer, used on review screens and in exports
+export const formatAnswer = (answer: Answer | null | undefined) =>
+  Array.isArray(answer) ? answer.join('; ') : answer ?? '';
+
+export const formatPoints = (points: number) => String(Math.round(points * 100) / 100);
+
+export const getMaxScore = (questions: Pick<Question, 'points'>[]) =>
+  questions.reduce((sum, question) => sum + question.points, 0);
+
+export const getPercentage = (score: number, maxScore: number) =>
+  maxScore > 0 ? (score / maxScore) * 100 : 0;
+
+// Answer positions in the order a student saw them
+export const getServedPositions = (order: ServedOrder, questionCount: number) =>
+  order.question_order.length > 0
+    ? order.question_order
+    : Array.from({ length: questionCount }, (_, index) => index);
+
+// Answers given in served order, rearranged into canonical order
+export const toCanonicalAnswers = (answers: Answer[], questions: Pick<StudentQuestion, 'position'>[]) => {
+  const canonical: Answer[] = new Array(Math.max(0, ...questions.map(question => question.position + 1))).fill('');
+  questions.forEach((question, index) => {
+    canonical[question.position] = answers[index] ?? '';
+  });
+  return canonical;
+};
+
+export const isServed = (order: ServedOrder, questionCount: number, position: number) =>
+  getServedPositions(order, questionCount).includes(position);
+
+// Section names in the order they first appear
+export const getSections = (questions: Pick<Question, 'section'>[]) =>
+  Array.from(new Set(questions.map(question => question.section?.trim()).filter((section): section is string => !!section)));
+
+const countInSection = (questions: Pick<Question, 'section'>[], section: string | null) =>
+  questions.filter(question => (question.section?.trim() || null) === section).length;
+
+// Returns a message describing the first problem with the draw settings, or null
+export const validateDrawSettings = (
+  questions: Pick<Question, 'section'>[],
+  questionsPerAttempt: string,
+  sectionDrawCounts: { [section: string]: string }
+): string | null => {
+  if (questionsPerAttempt) {
+    const count = Number(questionsPerAttempt);
+    const available = countInSection(questions, null);
+    if (!(Number.isInteger(count) && count > 0)) {
+      return 'The number of questions per attempt must be a whole number';
+    }
+    if (count > available) {
+      return `Questions per attempt cannot be more than the ${available} questions outside any section`;
+    }
+  }
+
+  for (const section of getSections(questions)) {
+    const value = sectionDrawCounts[section];
+    if (!value) continue;
+
+    const count = Number(value);
+    const available = countInSection(questions, section);
+    if (!(Number.isInteger(count) && count > 0)) {
+      return `The number of questions drawn from "${section}" must be a whole number`;
+    }
+    if (count > available) {
+      return `Section "${section}" only has ${available} question${available === 1 ? '' : 's'} to draw from`;
+    }
+  }
+
+  return null;
+};
+
+// Draw counts to save, dropping sections that no longer exist or serve everything
+export const toSectionDrawCounts = (
+  questions: Pick<Question, 'section'>[],
+  sectionDrawCounts: { [section: string]: string }
+): SectionDrawCounts =>
+  Object.fromEntries(
+    getSections(questions)
+      .filter(section => sectionDrawCounts[section])
+      .map(section => [section, Number(sectionDrawCounts[section])])
+  );
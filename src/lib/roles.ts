@@ -0,0 +1,17 @@
+import { Profile, UserRole } from '../types/database';
+
+export const roleLabels: { [key in UserRole]: string } = {
+  teacher: 'Teacher',
+  student: 'Student',
+  admin: 'Admin',
+};
+
+// Matches has_role() in the database: admins can also do what teachers do
+export const hasRole = (profile: Profile | null, role: UserRole) =>
+  !!profile &&
+  profile.is_active &&
+  (profile.role === role || (profile.role === 'admin' && role === 'teacher'));
+
+// Where a user lands after signing in
+export const getHomePath = (profile: Profile | null) =>
+  profile?.role === 'student' ? '/my-attempts' : '/dashboard';
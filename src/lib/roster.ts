@@ -0,0 +1,61 @@
+import { Response, RosterStudent } from '../types/database';
+import { parseCsvRows } from './importers';
+
+export type RosterEntry = Pick<RosterStudent, 'student_name' | 'student_email' | 'student_register_number'>;
+
+export interface RosterImport {
+  students: RosterEntry[];
+  // Rows that were skipped, with the reason
+  warnings: string[];
+}
+
+export const rosterExample = 'name,email,register number\nAda Lovelace,ada@example.com,R001\nAlan Turing,alan@example.com,R002';
+
+// Register numbers match ignoring case and surrounding spaces, like is_on_quiz_roster()
+export const normalizeRegisterNumber = (value: string) => value.trim().toLowerCase();
+
+// One row per student: name, email and register number. A header row
+// starting with "name" is skipped.
+export const parseRoster = (text: string): RosterImport => {
+  const rows = parseCsvRows(text);
+  const students: RosterEntry[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  if (rows.length > 0 && rows[0].cells[0]?.trim().toLowerCase() === 'name') {
+    rows.shift();
+  }
+
+  rows.forEach(row => {
+    const [name = '', email = '', registerNumber = ''] = row.cells.map(cell => cell.trim());
+    if (!name || !registerNumber) {
+      warnings.push(`Row ${row.number}: a name and register number are required`);
+      return;
+    }
+    if (seen.has(normalizeRegisterNumber(registerNumber))) {
+      warnings.push(`Row ${row.number}: register number ${registerNumber} appears more than once`);
+      return;
+    }
+
+    seen.add(normalizeRegisterNumber(registerNumber));
+    students.push({ student_name: name, student_email: email, student_register_number: registerNumber });
+  });
+
+  return { students, warnings };
+};
+
+// Rostered students without a response, matched by register number. A
+// student on several of the quiz's classes is listed once.
+export const getMissingStudents = (roster: RosterStudent[], responses: Response[]) => {
+  const submitted = new Set(responses.map(response => normalizeRegisterNumber(response.student_register_number)));
+  const listed = new Set<string>();
+
+  return roster
+    .filter(student => {
+      const key = normalizeRegisterNumber(student.student_register_number);
+      if (submitted.has(key) || listed.has(key)) return false;
+      listed.add(key);
+      return true;
+    })
+    .sort((a, b) => a.student_name.localeCompare(b.student_name));
+};
@@ -0,0 +1,19 @@
+import { QuizPermission } from '../types/database';
+
+export const permissionLabels: { [key in QuizPermission]: string } = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  owner: 'Owner',
+};
+
+export const permissionDescriptions: { [key in QuizPermission]: string } = {
+  viewer: 'Can see the quiz and its results',
+  editor: 'Can also edit the quiz and grade essays',
+  owner: 'Can also delete and share the quiz',
+};
+
+const permissionOrder: QuizPermission[] = ['viewer', 'editor', 'owner'];
+
+// Matches can_access_quiz() in the database
+export const hasPermission = (permission: QuizPermission | null | undefined, required: QuizPermission) =>
+  !!permission && permissionOrder.indexOf(permission) >= permissionOrder.indexOf(required);
@@ -0,0 +1,76 @@
+export interface ScoreSummary {
+  count: number;
+  mean: number;
+  median: number;
+  lowerQuartile: number;
+  upperQuartile: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+}
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+// Value at fraction q (0-1) of sorted values, interpolating between neighbours
+const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+export const summarizeScores = (values: number[]): ScoreSummary | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  // Population standard deviation: the students are the whole group, not a sample
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    mean,
+    median: quantile(sorted, 0.5),
+    lowerQuartile: quantile(sorted, 0.25),
+    upperQuartile: quantile(sorted, 0.75),
+    standardDeviation: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+};
+
+// Share of the values below this one, counting ties as half, 0-100
+export const getPercentileRank = (value: number, values: number[]) => {
+  if (values.length === 0) return 0;
+  const below = values.filter(other => other < value).length;
+  const equal = values.filter(other => other === value).length;
+  return ((below + equal / 2) / values.length) * 100;
+};
+
+// Percentages in bins of binSize points; the last bin includes 100%
+export const buildHistogram = (percentages: number[], binSize = 10): HistogramBin[] => {
+  const binCount = Math.ceil(100 / binSize);
+  const bins = Array.from({ length: binCount }, (_, index) => {
+    const from = index * binSize;
+    const to = Math.min(100, from + binSize);
+    return { label: index === binCount - 1 ? `${from}–${to}%` : `${from}–${to - 1}%`, count: 0 };
+  });
+
+  percentages.forEach(percentage => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(percentage / binSize)));
+    bins[index].count++;
+  });
+
+  return bins;
+};
+
+// "1st", "2nd", "23rd", "11th"
+export const formatOrdinal = (value: number) => {
+  const rounded = Math.round(value);
+  const teen = rounded % 100 >= 11 && rounded % 100 <= 13;
+  const suffix = teen ? 'th' : ['th', 'st', 'nd', 'rd'][rounded % 10] ?? 'th';
+  return `${rounded}${suffix}`;
+};
@@ -0,0 +1,116 @@
+import { Answer, Question, QuizSettings, QuizVersion, Response } from '../types/database';
+import { formatAnswer, getCorrectAnswer } from './questions';
+
+// Question lists keyed by quiz version
+export type VersionedQuestions = { [version: number]: Question[] };
+
+export interface QuestionColumn {
+  questionId: string;
+  label: string;
+}
+
+export type DiffedField = 'question_text' | 'options' | 'correct_answer';
+
+export interface QuestionDiff {
+  questionId: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: Question | null;
+  after: Question | null;
+  changedFields: DiffedField[];
+}
+
+export const quizSettingLabels: { [key in keyof QuizSettings]: string } = {
+  title: 'Title',
+  description: 'Description',
+  time_limit_minutes: 'Time limit',
+  opens_at: 'Opening time',
+  closes_at: 'Closing time',
+  max_attempts: 'Maximum attempts',
+  shuffle_questions: 'Question shuffling',
+  shuffle_options: 'Option shuffling',
+  questions_per_attempt: 'Questions per attempt',
+  section_draw_counts: 'Questions drawn per section',
+  review_visibility: 'Answer review',
+};
+
+export const toVersionedQuestions = (versions: QuizVersion[]): VersionedQuestions =>
+  Object.fromEntries(versions.map(version => [version.version, version.questions]));
+
+// Questions a response's answers line up with, falling back to the current
+// questions when its version was not recorded
+export const getResponseQuestions = (
+  response: Pick<Response, 'quiz_version'>,
+  versions: VersionedQuestions,
+  current: Question[]
+) => versions[response.quiz_version] ?? current;
+
+// One column per question for exports: the current questions in order, then
+// questions that only older responses answered
+export const getQuestionColumns = (current: Question[], versions: VersionedQuestions): QuestionColumn[] => {
+  const columns = current.map((question, index) => ({ questionId: question.id, label: `Question ${index + 1}` }));
+  const seen = new Set(current.map(question => question.id));
+
+  Object.keys(versions)
+    .map(Number)
+    .sort((a, b) => b - a)
+    .forEach(version => {
+      versions[version].forEach(question => {
+        if (seen.has(question.id)) return;
+        seen.add(question.id);
+        columns.push({ questionId: question.id, label: `Removed: ${question.question_text}` });
+      });
+    });
+
+  return columns;
+};
+
+// The response's answer to a question, wherever that question sat in its version
+export const getAnswerTo = (response: Pick<Response, 'answers'>, questions: Question[], questionId: string): Answer | undefined => {
+  const index = questions.findIndex(question => question.id === questionId);
+  return index === -1 ? undefined : response.answers[index];
+};
+
+// The compared fields of a question as display text
+export const getDiffedValues = (question: Question): { [key in DiffedField]: string } => ({
+  question_text: question.question_text,
+  options: question.options.join('\n'),
+  correct_answer: question.question_type === 'essay' ? '' : formatAnswer(getCorrectAnswer(question)),
+});
+
+// Questions of two versions matched by id, in the newer version's order
+// followed by the questions it no longer has
+export const diffQuestions = (before: Question[], after: Question[]): QuestionDiff[] => {
+  const beforeById = new Map(before.map(question => [question.id, question]));
+  const afterIds = new Set(after.map(question => question.id));
+
+  const diffs: QuestionDiff[] = after.map(question => {
+    const previous = beforeById.get(question.id);
+    if (!previous) {
+      return { questionId: question.id, change: 'added', before: null, after: question, changedFields: [] };
+    }
+
+    const oldValues = getDiffedValues(previous);
+    const newValues = getDiffedValues(question);
+    const changedFields = (Object.keys(newValues) as DiffedField[]).filter(field => oldValues[field] !== newValues[field]);
+    return {
+      questionId: question.id,
+      change: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before: previous,
+      after: question,
+      changedFields,
+    };
+  });
+
+  before
+    .filter(question => !afterIds.has(question.id))
+    .forEach(question => {
+      diffs.push({ questionId: question.id, change: 'removed', before: question, after: null, changedFields: [] });
+    });
+
+  return diffs;
+};
+
+export const diffSettings = (before: Partial<QuizSettings>, after: Partial<QuizSettings>) =>
+  (Object.keys(quizSettingLabels) as (keyof QuizSettings)[]).filter(
+    key => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)
+  );
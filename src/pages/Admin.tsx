@@ -0,0 +1,307 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { roleLabels } from '../lib/roles';
+import { useAuth } from '../contexts/AuthContext';
+import { Quiz, TeacherAccount } from '../types/database';
+import Navbar from '../components/Navbar';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { UserCheck, UserPlus, UserX } from 'lucide-react';
+
+const Admin: React.FC = () => {
+  const [teachers, setTeachers] = useState<TeacherAccount[]>([]);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [teacherEmail, setTeacherEmail] = useState('');
+  const [addingTeacher, setAddingTeacher] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchTeachers = async () => {
+    const { data, error } = await supabase.rpc('get_teachers');
+
+    if (error) throw error;
+    setTeachers(data);
+  };
+
+  const fetchData = async () => {
+    try {
+      await fetchTeachers();
+
+      // Admins can read every quiz
+      const { data, error } = await supabase
+        .from('quizzes')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setQuizzes(data || []);
+    } catch (error) {
+      console.error('Error fetching admin data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // New accounts are students until an admin makes them a teacher
+  const addTeacher = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teacherEmail.trim()) return;
+
+    setAddingTeacher(true);
+    try {
+      const { error } = await supabase.rpc('grant_teacher_role', {
+        p_email: teacherEmail.trim()
+      });
+
+      if (error) throw error;
+
+      setTeacherEmail('');
+      await fetchTeachers();
+    } catch (error) {
+      console.error('Error adding teacher:', error);
+      if ((error as { message?: string }).message?.includes('Account not found')) {
+        alert('No account uses that email. Ask the teacher to sign up first.');
+      } else {
+        alert('Error adding teacher. Please try again.');
+      }
+    } finally {
+      setAddingTeacher(false);
+    }
+  };
+
+  const toggleAccountActive = async (teacher: TeacherAccount) => {
+    const action = teacher.is_active ? 'Deactivate' : 'Reactivate';
+    if (!window.confirm(`${action} the account of ${teacher.email}?${teacher.is_active ? ' They will no longer be able to sign in.' : ''}`)) {
+      return;
+    }
+
+    setUpdatingId(teacher.id);
+    try {
+      const { error } = await supabase.rpc('set_account_active', {
+        p_user_id: teacher.id,
+        p_active: !teacher.is_active
+      });
+
+      if (error) throw error;
+
+      setTeachers(teachers.map(t =>
+        t.id === teacher.id ? { ...t, is_active: !t.is_active } : t
+      ));
+    } catch (error) {
+      console.error('Error updating account:', error);
+      alert('Error updating account. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const reassignQuiz = async (quiz: Quiz, ownerId: string) => {
+    const owner = teachers.find(teacher => teacher.id === ownerId);
+    if (!owner || !window.confirm(`Move "${quiz.title}" to ${owner.email}?`)) {
+      return;
+    }
+
+    setUpdatingId(quiz.id);
+    try {
+      const { error } = await supabase.rpc('reassign_quiz', {
+        p_quiz_id: quiz.id,
+        p_owner_id: ownerId
+      });
+
+      if (error) throw error;
+
+      setQuizzes(quizzes.map(q =>
+        q.id === quiz.id ? { ...q, created_by: ownerId } : q
+      ));
+      // Quiz counts changed
+      await fetchTeachers();
+    } catch (error) {
+      console.error('Error reassigning quiz:', error);
+      alert('Error reassigning quiz. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="large" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Administration</h1>
+          <p className="text-gray-600 mt-1">Manage teacher accounts and who owns each quiz.</p>
+        </div>
+
+        {/* Teachers */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <h2 className="text-lg font-semibold text-gray-900">Teachers ({teachers.length})</h2>
+            <form onSubmit={addTeacher} className="flex gap-2">
+              <input
+                type="email"
+                value={teacherEmail}
+                onChange={(e) => setTeacherEmail(e.target.value)}
+                placeholder="Email of a signed-up account"
+                className="w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={addingTeacher || !teacherEmail.trim()}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+              >
+                <UserPlus className="h-4 w-4" />
+                Make Teacher
+              </button>
+            </form>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Teacher
+                  </th>
+                  <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Quizzes
+                  </th>
+                  <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {teachers.map(teacher => (
+                  <tr key={teacher.id} className="hover:bg-gray-50">
+                    <td className="px-3 sm:px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900 break-words">{teacher.full_name || teacher.email}</div>
+                      {teacher.full_name && (
+                        <div className="text-sm text-gray-500 break-words">{teacher.email}</div>
+                      )}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {roleLabels[teacher.role]}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {teacher.quiz_count}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        teacher.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {teacher.is_active ? 'Active' : 'Deactivated'}
+                      </span>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {teacher.id !== user?.id && (
+                        <button
+                          onClick={() => toggleAccountActive(teacher)}
+                          disabled={updatingId === teacher.id}
+                          className={`flex items-center gap-1 transition-colors disabled:opacity-50 ${
+                            teacher.is_active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'
+                          }`}
+                        >
+                          {teacher.is_active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                          {teacher.is_active ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Quizzes */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Quizzes ({quizzes.length})</h2>
+          </div>
+          {quizzes.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-500">No quizzes yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Quiz
+                    </th>
+                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Created
+                    </th>
+                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Owner
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {quizzes.map(quiz => (
+                    <tr key={quiz.id} className="hover:bg-gray-50">
+                      <td className="px-3 sm:px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900 break-words">{quiz.title}</div>
+                        <div className="text-xs text-gray-500">{quiz.is_active ? 'Active' : 'Inactive'}</div>
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(quiz.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 text-sm">
+                        <select
+                          value={quiz.created_by}
+                          onChange={(e) => reassignQuiz(quiz, e.target.value)}
+                          disabled={updatingId === quiz.id}
+                          className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+                        >
+                          {/* Quizzes owned by a student account from before roles */}
+                          {!teachers.some(teacher => teacher.id === quiz.created_by) && (
+                            <option value={quiz.created_by}>Unknown owner</option>
+                          )}
+                          {teachers.map(teacher => (
+                            <option
+                              key={teacher.id}
+                              value={teacher.id}
+                              disabled={!teacher.is_active && teacher.id !== quiz.created_by}
+                            >
+                              {teacher.email}{teacher.is_active ? '' : ' (deactivated)'}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,446 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { normalizeRegisterNumber, parseRoster, RosterEntry, rosterExample } from '../lib/roster';
+import { useAuth } from '../contexts/AuthContext';
+import { RosterStudent, SchoolClass } from '../types/database';
+import Navbar from '../components/Navbar';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { Plus, Trash2, Upload, GraduationCap } from 'lucide-react';
+
+const Classes: React.FC = () => {
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterStudent[]>([]);
+  const [newClassName, setNewClassName] = useState('');
+  const [newStudent, setNewStudent] = useState<RosterEntry>({ student_name: '', student_email: '', student_register_number: '' });
+  const [importText, setImportText] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingRoster, setLoadingRoster] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchClasses();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchRoster(selectedId);
+    } else {
+      setRoster([]);
+    }
+  }, [selectedId]);
+
+  const fetchClasses = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('classes')
+        .select('*')
+        .eq('created_by', user.id)
+        .order('name');
+
+      if (error) throw error;
+
+      setClasses(data || []);
+      if (data && data.length > 0) {
+        setSelectedId(current => current ?? data[0].id);
+      }
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRoster = async (classId: string) => {
+    setLoadingRoster(true);
+    try {
+      const { data, error } = await supabase
+        .from('class_students')
+        .select('*')
+        .eq('class_id', classId)
+        .order('student_name');
+
+      if (error) throw error;
+
+      setRoster(data || []);
+    } catch (error) {
+      console.error('Error fetching roster:', error);
+    } finally {
+      setLoadingRoster(false);
+    }
+  };
+
+  const createClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newClassName.trim()) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('classes')
+        .insert({ name: newClassName.trim(), created_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setClasses([...classes, data].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(data.id);
+      setNewClassName('');
+    } catch (error) {
+      console.error('Error creating class:', error);
+      alert('Error creating class. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteClass = async (schoolClass: SchoolClass) => {
+    if (!window.confirm(`Delete the class "${schoolClass.name}" and its roster? Quizzes assigned only to this class will be open to anyone with the link.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('classes')
+        .delete()
+        .eq('id', schoolClass.id);
+
+      if (error) throw error;
+
+      const remaining = classes.filter(c => c.id !== schoolClass.id);
+      setClasses(remaining);
+      setSelectedId(remaining[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error deleting class:', error);
+      alert('Error deleting class. Please try again.');
+    }
+  };
+
+  // Students already on the roster are skipped
+  const addStudents = async (students: RosterEntry[]) => {
+    if (!selectedId) return 0;
+
+    const existing = new Set(roster.map(student => normalizeRegisterNumber(student.student_register_number)));
+    const added = students.filter(student => !existing.has(normalizeRegisterNumber(student.student_register_number)));
+    if (added.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from('class_students')
+      .insert(added.map(student => ({ ...student, class_id: selectedId })))
+      .select();
+
+    if (error) throw error;
+
+    setRoster([...roster, ...(data || [])].sort((a, b) => a.student_name.localeCompare(b.student_name)));
+    return added.length;
+  };
+
+  const addStudent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStudent.student_name.trim() || !newStudent.student_register_number.trim()) {
+      alert('Please enter the student\'s name and register number');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const added = await addStudents([{
+        student_name: newStudent.student_name.trim(),
+        student_email: newStudent.student_email.trim(),
+        student_register_number: newStudent.student_register_number.trim(),
+      }]);
+
+      if (added === 0) {
+        alert('A student with this register number is already on the roster');
+        return;
+      }
+      setNewStudent({ student_name: '', student_email: '', student_register_number: '' });
+    } catch (error) {
+      console.error('Error adding student:', error);
+      alert('Error adding student. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setImportText(await file.text());
+    } catch (error) {
+      console.error('Error reading roster file:', error);
+      alert('Failed to read the file. Please try again.');
+    }
+  };
+
+  const importRoster = async () => {
+    const { students, warnings } = parseRoster(importText);
+    if (students.length === 0) {
+      alert(['No students found in the roster.', ...warnings].join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const added = await addStudents(students);
+      const skipped = students.length - added;
+      alert([
+        `Added ${added} student${added === 1 ? '' : 's'}.`,
+        ...(skipped > 0 ? [`${skipped} already on the roster.`] : []),
+        ...warnings,
+      ].join('\n'));
+      setImportText('');
+      setShowImport(false);
+    } catch (error) {
+      console.error('Error importing roster:', error);
+      alert('Error importing roster. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeStudent = async (student: RosterStudent) => {
+    if (!window.confirm(`Remove ${student.student_name} from this class?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('class_students')
+        .delete()
+        .eq('id', student.id);
+
+      if (error) throw error;
+
+      setRoster(roster.filter(s => s.id !== student.id));
+    } catch (error) {
+      console.error('Error removing student:', error);
+      alert('Error removing student. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="large" />
+        </div>
+      </div>
+    );
+  }
+
+  const selectedClass = classes.find(c => c.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Classes</h1>
+          <p className="text-gray-600 mt-1">Keep class rosters and assign quizzes to them so only rostered students can submit.</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Class list */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden self-start">
+            <form onSubmit={createClass} className="px-4 py-4 border-b border-gray-200 flex gap-2">
+              <input
+                type="text"
+                value={newClassName}
+                onChange={(e) => setNewClassName(e.target.value)}
+                placeholder="New class name"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+              <button
+                type="submit"
+                disabled={saving || !newClassName.trim()}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-3 py-2 rounded-lg transition-colors"
+                title="Create class"
+              >
+                <Plus className="h-5 w-5" />
+              </button>
+            </form>
+            {classes.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">No classes yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {classes.map(schoolClass => (
+                  <button
+                    key={schoolClass.id}
+                    type="button"
+                    onClick={() => setSelectedId(schoolClass.id)}
+                    className={`w-full px-4 py-3 text-left text-sm font-medium transition-colors ${
+                      schoolClass.id === selectedId ? 'bg-blue-50 text-blue-700' : 'text-gray-900 hover:bg-gray-50'
+                    }`}
+                  >
+                    {schoolClass.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Roster */}
+          <div className="lg:col-span-2">
+            {!selectedClass ? (
+              <div className="bg-white rounded-lg shadow-md p-12 text-center">
+                <GraduationCap className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No class selected</h3>
+                <p className="text-gray-600">Create a class to start a roster.</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {selectedClass.name} ({roster.length} student{roster.length === 1 ? '' : 's'})
+                  </h2>
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setShowImport(!showImport)}
+                      className="text-blue-600 hover:text-blue-900 text-sm font-medium flex items-center gap-1 transition-colors"
+                    >
+                      <Upload className="h-4 w-4" />
+                      Import CSV
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteClass(selectedClass)}
+                      className="text-red-600 hover:text-red-900 text-sm font-medium flex items-center gap-1 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Delete Class
+                    </button>
+                  </div>
+                </div>
+
+                {showImport && (
+                  <div className="px-6 py-4 border-b border-gray-200 space-y-3">
+                    <p className="text-sm text-gray-600">
+                      One student per row: name, email and register number. Students already on the roster are skipped.
+                    </p>
+                    <input
+                      type="file"
+                      accept=".csv,text/csv,text/plain"
+                      onChange={handleImportFile}
+                      className="block text-sm text-gray-600"
+                    />
+                    <textarea
+                      value={importText}
+                      onChange={(e) => setImportText(e.target.value)}
+                      rows={6}
+                      placeholder={rosterExample}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                    />
+                    <div className="flex justify-end">
+                      <button
+                        type="button"
+                        onClick={importRoster}
+                        disabled={saving || !importText.trim()}
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors text-sm"
+                      >
+                        Import Students
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <form onSubmit={addStudent} className="px-6 py-4 border-b border-gray-200 grid grid-cols-1 sm:grid-cols-4 gap-2">
+                  <input
+                    type="text"
+                    value={newStudent.student_name}
+                    onChange={(e) => setNewStudent({ ...newStudent, student_name: e.target.value })}
+                    placeholder="Name"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  />
+                  <input
+                    type="email"
+                    value={newStudent.student_email}
+                    onChange={(e) => setNewStudent({ ...newStudent, student_email: e.target.value })}
+                    placeholder="Email"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={newStudent.student_register_number}
+                    onChange={(e) => setNewStudent({ ...newStudent, student_register_number: e.target.value })}
+                    placeholder="Register number"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 text-sm"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Student
+                  </button>
+                </form>
+
+                {loadingRoster ? (
+                  <div className="flex justify-center py-12">
+                    <LoadingSpinner size="large" />
+                  </div>
+                ) : roster.length === 0 ? (
+                  <p className="px-6 py-8 text-center text-sm text-gray-500">This class has no students yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Name
+                          </th>
+                          <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Email
+                          </th>
+                          <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Register Number
+                          </th>
+                          <th className="px-3 sm:px-6 py-3" />
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {roster.map(student => (
+                          <tr key={student.id} className="hover:bg-gray-50">
+                            <td className="px-3 sm:px-6 py-3 text-sm text-gray-900 break-words">{student.student_name}</td>
+                            <td className="px-3 sm:px-6 py-3 text-sm text-gray-500 break-words">{student.student_email || '—'}</td>
+                            <td className="px-3 sm:px-6 py-3 text-sm text-gray-500">{student.student_register_number}</td>
+                            <td className="px-3 sm:px-6 py-3 text-right">
+                              <button
+                                type="button"
+                                onClick={() => removeStudent(student)}
+                                className="text-red-600 hover:text-red-900 transition-colors"
+                                title="Remove student"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Classes;
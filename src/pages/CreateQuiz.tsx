@@ -1,41 +1,146 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { fromDateTimeLocal } from '../lib/format';
+import { reviewVisibilityLabels } from '../lib/availability';
+import { createQuestion, formatAnswer, formatPoints, getSections, isChoiceQuestion, isCorrectOption, toQuestionRow, toSectionDrawCounts, validateDrawSettings, validateQuestion } from '../lib/questions';
+import { fromBankQuestion } from '../lib/bank';
 import { useAuth } from '../contexts/AuthContext';
-import { Question } from '../types/database';
+import { BankQuestion, QuestionDraft, Quiz, ReviewVisibility } from '../types/database';
 import Navbar from '../components/Navbar';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Plus, Trash2, MoveUp, MoveDown, Save, Eye } from 'lucide-react';
+import QuestionAnswerEditor from '../components/QuestionAnswerEditor';
+import BankLinkControls from '../components/BankLinkControls';
+import BankQuestionPicker from '../components/BankQuestionPicker';
+import ImportQuestionsDialog from '../components/ImportQuestionsDialog';
+import QuestionDrawSettings from '../components/QuestionDrawSettings';
+import { Plus, Trash2, MoveUp, MoveDown, Save, Eye, Library, Upload, AlertTriangle, LayoutTemplate } from 'lucide-react';
 
 const CreateQuiz: React.FC = () => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [questions, setQuestions] = useState<Omit<Question, 'id' | 'quiz_id'>[]>([
-    {
-      question_text: '',
-      options: ['', ''],
-      correct_answer: '',
-      order_index: 0
-    }
-  ]);
+  const [timeLimit, setTimeLimit] = useState('');
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [maxAttempts, setMaxAttempts] = useState('');
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [reviewVisibility, setReviewVisibility] = useState<ReviewVisibility>('after_submit');
+  const [questionsPerAttempt, setQuestionsPerAttempt] = useState('');
+  const [sectionDrawCounts, setSectionDrawCounts] = useState<{ [section: string]: string }>({});
+  const [questions, setQuestions] = useState<QuestionDraft[]>([createQuestion(0)]);
   const [loading, setLoading] = useState(false);
   const [previewMode, setPreviewMode] = useState(false);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showImportReport, setShowImportReport] = useState(false);
+  const [templates, setTemplates] = useState<Quiz[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [loadingTemplate, setLoadingTemplate] = useState(false);
   
   const { user } = useAuth();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    if (user) {
+      fetchTemplates();
+    }
+  }, [user]);
+
+  const fetchTemplates = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('quizzes')
+        .select('*')
+        .eq('created_by', user.id)
+        .eq('is_template', true)
+        .order('title');
+
+      if (error) throw error;
+
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+    }
+  };
+
+  // Fills the form with a template's settings and questions. The schedule is
+  // left out because a template's dates rarely apply to the new quiz.
+  const applyTemplate = async () => {
+    const template = templates.find(quiz => quiz.id === templateId);
+    if (!template) return;
+
+    const hasContent = title.trim() || description.trim() || questions.some(question => question.question_text.trim());
+    if (hasContent && !window.confirm('Replace what you have entered so far with this template?')) {
+      return;
+    }
+
+    setLoadingTemplate(true);
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('*')
+        .eq('quiz_id', template.id)
+        .order('order_index');
+
+      if (error) throw error;
+
+      setTitle(template.title);
+      setDescription(template.description || '');
+      setTimeLimit(template.time_limit_minutes ? String(template.time_limit_minutes) : '');
+      setMaxAttempts(template.max_attempts ? String(template.max_attempts) : '');
+      setShuffleQuestions(template.shuffle_questions);
+      setShuffleOptions(template.shuffle_options);
+      setReviewVisibility(template.review_visibility);
+      setQuestionsPerAttempt(template.questions_per_attempt ? String(template.questions_per_attempt) : '');
+      setSectionDrawCounts(
+        Object.fromEntries(Object.entries(template.section_draw_counts).map(([section, count]) => [section, String(count)]))
+      );
+      setQuestions(
+        data && data.length > 0
+          ? data.map((question, i) => ({ ...question, order_index: i }))
+          : [createQuestion(0)]
+      );
+      setShowImportReport(false);
+    } catch (error) {
+      console.error('Error loading template:', error);
+      alert('Failed to load the template. Please try again.');
+    } finally {
+      setLoadingTemplate(false);
+    }
+  };
+
   const addQuestion = () => {
-    setQuestions([
-      ...questions,
-      {
-        question_text: '',
-        options: ['', ''],
-        correct_answer: '',
-        order_index: questions.length
-      }
-    ]);
+    setQuestions([...questions, createQuestion(questions.length)]);
+  };
+
+  // Added questions replace the untouched starter question instead of following it
+  const keptQuestions = questions.length === 1 && !questions[0].question_text.trim() ? [] : questions;
+
+  const appendQuestions = (newQuestions: QuestionDraft[]) => {
+    setQuestions([...keptQuestions, ...newQuestions].map((q, i) => ({ ...q, order_index: i })));
+  };
+
+  const addFromBank = (bankQuestions: BankQuestion[]) => {
+    appendQuestions(bankQuestions.map((question, i) => fromBankQuestion(question, keptQuestions.length + i)));
+    setShowBankPicker(false);
+  };
+
+  const importQuestions = (imported: QuestionDraft[], importedTitle: string | null) => {
+    appendQuestions(imported);
+    if (importedTitle && !title.trim()) {
+      setTitle(importedTitle);
+    }
+    setShowImport(false);
+    setShowImportReport(true);
   };
 
+  const questionProblems = questions
+    .map((question, index) => validateQuestion(question, index))
+    .filter((problem): problem is string => problem !== null);
+
   const removeQuestion = (index: number) => {
     if (questions.length === 1) return;
     const newQuestions = questions.filter((_, i) => i !== index);
@@ -52,33 +157,9 @@ const CreateQuiz: React.FC = () => {
     setQuestions(newQuestions.map((q, i) => ({ ...q, order_index: i })));
   };
 
-  const updateQuestion = (index: number, field: keyof Omit<Question, 'id' | 'quiz_id'>, value: any) => {
-    const newQuestions = [...questions];
-    newQuestions[index] = { ...newQuestions[index], [field]: value };
-    setQuestions(newQuestions);
-  };
-
-  const addOption = (questionIndex: number) => {
-    if (questions[questionIndex].options.length >= 5) return;
-    const newQuestions = [...questions];
-    newQuestions[questionIndex].options.push('');
-    setQuestions(newQuestions);
-  };
-
-  const removeOption = (questionIndex: number, optionIndex: number) => {
-    if (questions[questionIndex].options.length <= 2) return;
-    const newQuestions = [...questions];
-    newQuestions[questionIndex].options.splice(optionIndex, 1);
-    // Clear correct answer if it was the removed option
-    if (newQuestions[questionIndex].correct_answer === questions[questionIndex].options[optionIndex]) {
-      newQuestions[questionIndex].correct_answer = '';
-    }
-    setQuestions(newQuestions);
-  };
-
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+  const updateQuestion = (index: number, changes: Partial<QuestionDraft>) => {
     const newQuestions = [...questions];
-    newQuestions[questionIndex].options[optionIndex] = value;
+    newQuestions[index] = { ...newQuestions[index], ...changes };
     setQuestions(newQuestions);
   };
 
@@ -88,30 +169,35 @@ const CreateQuiz: React.FC = () => {
       return false;
     }
 
-    for (let i = 0; i < questions.length; i++) {
-      const question = questions[i];
-      
-      if (!question.question_text.trim()) {
-        alert(`Please enter text for question ${i + 1}`);
-        return false;
-      }
+    if (timeLimit && !(Number.isInteger(Number(timeLimit)) && Number(timeLimit) > 0)) {
+      alert('The time limit must be a whole number of minutes');
+      return false;
+    }
 
-      if (question.options.some(option => !option.trim())) {
-        alert(`Please fill in all options for question ${i + 1}`);
-        return false;
-      }
+    if (maxAttempts && !(Number.isInteger(Number(maxAttempts)) && Number(maxAttempts) > 0)) {
+      alert('The maximum number of attempts must be a whole number');
+      return false;
+    }
 
-      if (!question.correct_answer.trim()) {
-        alert(`Please select a correct answer for question ${i + 1}`);
-        return false;
-      }
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      alert('The closing time must be after the opening time');
+      return false;
+    }
 
-      if (!question.options.includes(question.correct_answer)) {
-        alert(`The correct answer for question ${i + 1} must be one of the provided options`);
+    for (let i = 0; i < questions.length; i++) {
+      const problem = validateQuestion(questions[i], i);
+      if (problem) {
+        alert(problem);
         return false;
       }
     }
 
+    const drawProblem = validateDrawSettings(questions, questionsPerAttempt, sectionDrawCounts);
+    if (drawProblem) {
+      alert(drawProblem);
+      return false;
+    }
+
     return true;
   };
 
@@ -127,6 +213,15 @@ const CreateQuiz: React.FC = () => {
         .insert({
           title: title.trim(),
           description: description.trim() || null,
+          time_limit_minutes: timeLimit ? Number(timeLimit) : null,
+          opens_at: fromDateTimeLocal(opensAt),
+          closes_at: fromDateTimeLocal(closesAt),
+          max_attempts: maxAttempts ? Number(maxAttempts) : null,
+          shuffle_questions: shuffleQuestions,
+          shuffle_options: shuffleOptions,
+          questions_per_attempt: questionsPerAttempt ? Number(questionsPerAttempt) : null,
+          section_draw_counts: toSectionDrawCounts(questions, sectionDrawCounts),
+          review_visibility: reviewVisibility,
           created_by: user.id,
           is_active: true
         })
@@ -135,18 +230,17 @@ const CreateQuiz: React.FC = () => {
 
       if (quizError) throw quizError;
 
-      // Create questions
+      // Create questions, recording them as the quiz's first version
       const questionsToInsert = questions.map((question) => ({
-        quiz_id: quiz.id,
-        question_text: question.question_text.trim(),
-        options: question.options.map(opt => opt.trim()),
-        correct_answer: question.correct_answer.trim(),
-        order_index: question.order_index
+        ...toQuestionRow(question, quiz.id, question.order_index),
+        id: null
       }));
 
-      const { error: questionsError } = await supabase
-        .from('questions')
-        .insert(questionsToInsert);
+      const { error: questionsError } = await supabase.rpc('save_quiz', {
+        p_quiz_id: quiz.id,
+        p_settings: {},
+        p_questions: questionsToInsert
+      });
 
       if (questionsError) throw questionsError;
 
@@ -186,22 +280,51 @@ const CreateQuiz: React.FC = () => {
                 <div key={index} className="border-b border-gray-200 pb-8 last:border-b-0">
                   <h3 className="text-xl font-semibold text-gray-900 mb-4">
                     {index + 1}. {question.question_text}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      ({formatPoints(question.points)} {question.points === 1 ? 'pt' : 'pts'})
+                    </span>
                   </h3>
                   
                   <div className="space-y-3">
-                    {question.options.map((option, optionIndex) => (
+                    {question.question_type === 'essay' && (
+                      <textarea
+                        rows={4}
+                        className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Write your answer"
+                      />
+                    )}
+                    {(question.question_type === 'short_answer' || question.question_type === 'numeric') && (
+                      <>
+                        <input
+                          type="text"
+                          inputMode={question.question_type === 'numeric' ? 'decimal' : 'text'}
+                          className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          placeholder={question.question_type === 'numeric' ? 'Enter a number' : 'Type your answer'}
+                        />
+                        <p className="text-green-600 text-sm font-medium">
+                          ✓ {question.question_type === 'numeric'
+                            ? `${question.correct_answer}${question.tolerance > 0
+                                ? ` ± ${question.tolerance}${question.tolerance_mode === 'relative' ? '%' : ''}`
+                                : ''}`
+                            : [formatAnswer(question.correct_answers.filter(answer => answer.trim())), question.answer_pattern && `/${question.answer_pattern}/`]
+                                .filter(Boolean)
+                                .join(' or ')}
+                        </p>
+                      </>
+                    )}
+                    {isChoiceQuestion(question.question_type) && question.options.map((option, optionIndex) => (
                       <label
                         key={optionIndex}
                         className="flex items-center p-3 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer transition-colors"
                       >
                         <input
-                          type="radio"
+                          type={question.question_type === 'multiple_select' ? 'checkbox' : 'radio'}
                           name={`preview-question-${index}`}
                           value={option}
                           className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
                         />
                         <span className="ml-3 text-gray-900">{option}</span>
-                        {option === question.correct_answer && (
+                        {isCorrectOption(question, option) && (
                           <span className="ml-auto text-green-600 text-sm font-medium">✓ Correct</span>
                         )}
                       </label>
@@ -227,6 +350,36 @@ const CreateQuiz: React.FC = () => {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-8">
+          {templates.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <LayoutTemplate className="h-5 w-5 text-purple-600" />
+                <h2 className="text-xl font-semibold text-gray-900">Start from a Template</h2>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <select
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                  className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  <option value="">Choose a template</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.title}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={applyTemplate}
+                  disabled={!templateId || loadingTemplate}
+                  className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 whitespace-nowrap"
+                >
+                  {loadingTemplate ? <LoadingSpinner size="small" /> : <LayoutTemplate className="h-4 w-4" />}
+                  Use Template
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Quiz Details */}
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Quiz Details</h2>
@@ -260,10 +413,133 @@ const CreateQuiz: React.FC = () => {
                   placeholder="Provide instructions or context for your quiz"
                 />
               </div>
+
+              <div>
+                <label htmlFor="timeLimit" className="block text-sm font-medium text-gray-700 mb-2">
+                  Time Limit in Minutes (Optional)
+                </label>
+                <input
+                  type="number"
+                  id="timeLimit"
+                  min={1}
+                  value={timeLimit}
+                  onChange={(e) => setTimeLimit(e.target.value)}
+                  className="block w-full sm:w-48 border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="No time limit"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="maxAttempts" className="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum Attempts per Student (Optional)
+                </label>
+                <input
+                  type="number"
+                  id="maxAttempts"
+                  min={1}
+                  value={maxAttempts}
+                  onChange={(e) => setMaxAttempts(e.target.value)}
+                  className="block w-full sm:w-48 border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="Unlimited"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="opensAt" className="block text-sm font-medium text-gray-700 mb-2">
+                    Opens At (Optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="opensAt"
+                    value={opensAt}
+                    onChange={(e) => setOpensAt(e.target.value)}
+                    className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="closesAt" className="block text-sm font-medium text-gray-700 mb-2">
+                    Closes At (Optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="closesAt"
+                    value={closesAt}
+                    onChange={(e) => setClosesAt(e.target.value)}
+                    className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="reviewVisibility" className="block text-sm font-medium text-gray-700 mb-2">
+                  Show Students the Correct Answers
+                </label>
+                <select
+                  id="reviewVisibility"
+                  value={reviewVisibility}
+                  onChange={(e) => setReviewVisibility(e.target.value as ReviewVisibility)}
+                  className="block w-full sm:w-64 border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  {(Object.keys(reviewVisibilityLabels) as ReviewVisibility[]).map(visibility => (
+                    <option key={visibility} value={visibility}>{reviewVisibilityLabels[visibility]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Their marks per question and your feedback are shown at the same time.</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={shuffleQuestions}
+                    onChange={(e) => setShuffleQuestions(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Shuffle question order for each attempt
+                </label>
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={shuffleOptions}
+                    onChange={(e) => setShuffleOptions(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Shuffle answer options for each attempt
+                </label>
+              </div>
+
+              <QuestionDrawSettings
+                questions={questions}
+                questionsPerAttempt={questionsPerAttempt}
+                sectionDrawCounts={sectionDrawCounts}
+                onQuestionsPerAttemptChange={setQuestionsPerAttempt}
+                onSectionDrawCountsChange={setSectionDrawCounts}
+              />
             </div>
           </div>
 
+          {/* Import Report */}
+          {showImportReport && questionProblems.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <div className="flex items-center gap-2 text-sm font-medium text-yellow-800 mb-2">
+                <AlertTriangle className="h-4 w-4" />
+                Fix these problems before creating the quiz
+              </div>
+              <ul className="list-disc list-inside text-sm text-yellow-800 space-y-1">
+                {questionProblems.map((problem, index) => (
+                  <li key={index}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Questions */}
+          <datalist id="question-sections">
+            {getSections(questions).map(section => (
+              <option key={section} value={section} />
+            ))}
+          </datalist>
           <div className="space-y-4 sm:space-y-6">
             {questions.map((question, questionIndex) => (
               <div key={questionIndex} className="bg-white rounded-lg shadow-md p-6">
@@ -306,6 +582,12 @@ const CreateQuiz: React.FC = () => {
                 </div>
 
                 <div className="space-y-4 sm:space-y-6">
+                  <BankLinkControls
+                    question={question}
+                    questionIndex={questionIndex}
+                    onChange={(changes) => updateQuestion(questionIndex, changes)}
+                  />
+
                   {/* Question Text */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -314,76 +596,81 @@ const CreateQuiz: React.FC = () => {
                     <textarea
                       rows={2}
                       value={question.question_text}
-                      onChange={(e) => updateQuestion(questionIndex, 'question_text', e.target.value)}
-                      className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors resize-none"
+                      onChange={(e) => updateQuestion(questionIndex, { question_text: e.target.value })}
+                      disabled={!!question.bank_question_id}
+                      className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors resize-none disabled:opacity-60"
                       placeholder="Enter your question"
                       required
                     />
                   </div>
 
-                  {/* Options */}
+                  {/* Question Time Limit */}
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-3">
-                      Answer Options * (Select the correct answer)
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Time Limit in Seconds (Optional)
                     </label>
-                    <div className="space-y-2 sm:space-y-3">
-                      {question.options.map((option, optionIndex) => (
-                        <div key={optionIndex} className="flex items-center space-x-2 sm:space-x-3">
-                          <input
-                            type="radio"
-                            name={`correct-${questionIndex}`}
-                            checked={question.correct_answer === option}
-                            onChange={() => updateQuestion(questionIndex, 'correct_answer', option)}
-                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 flex-shrink-0"
-                          />
-                          <input
-                            type="text"
-                            value={option}
-                            onChange={(e) => updateOption(questionIndex, optionIndex, e.target.value)}
-                            className="flex-1 border border-gray-300 rounded-lg px-2 sm:px-3 py-1 sm:py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm sm:text-base"
-                            placeholder={`Option ${optionIndex + 1}`}
-                            required
-                          />
-                          {question.options.length > 2 && (
-                            <button
-                              type="button"
-                              onClick={() => removeOption(questionIndex, optionIndex)}
-                              className="p-1 sm:p-2 text-red-400 hover:text-red-600 transition-colors flex-shrink-0"
-                              title="Remove option"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-
-                    {question.options.length < 5 && (
-                      <button
-                        type="button"
-                        onClick={() => addOption(questionIndex)}
-                        className="mt-2 sm:mt-3 text-blue-600 hover:text-blue-700 text-sm font-medium transition-colors flex items-center gap-1"
-                      >
-                        <Plus className="h-4 w-4" />
-                        Add Option
-                      </button>
-                    )}
+                    <input
+                      type="number"
+                      min={1}
+                      value={question.time_limit_seconds ?? ''}
+                      onChange={(e) => updateQuestion(questionIndex, { time_limit_seconds: e.target.value ? Number(e.target.value) : null })}
+                      className="block w-full sm:w-48 border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="No limit"
+                    />
                   </div>
+
+                  {/* Question Section */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Section (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      list="question-sections"
+                      value={question.section ?? ''}
+                      onChange={(e) => updateQuestion(questionIndex, { section: e.target.value || null })}
+                      className="block w-full sm:w-64 border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="No section"
+                    />
+                  </div>
+
+                  <QuestionAnswerEditor
+                    question={question}
+                    questionIndex={questionIndex}
+                    onChange={(changes) => updateQuestion(questionIndex, changes)}
+                    locked={!!question.bank_question_id}
+                  />
                 </div>
               </div>
             ))}
           </div>
 
-          {/* Add Question Button */}
-          <div className="text-center">
+          {/* Add Question Buttons */}
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
             <button
               type="button"
               onClick={addQuestion}
-              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 sm:px-6 py-2 sm:py-3 rounded-lg font-medium transition-colors flex items-center gap-2 mx-auto text-sm sm:text-base"
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 sm:px-6 py-2 sm:py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 text-sm sm:text-base"
             >
               <Plus className="h-5 w-5" />
               Add Question
             </button>
+            <button
+              type="button"
+              onClick={() => setShowBankPicker(true)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 sm:px-6 py-2 sm:py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 text-sm sm:text-base"
+            >
+              <Library className="h-5 w-5" />
+              Add from Question Bank
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowImport(true)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 sm:px-6 py-2 sm:py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 text-sm sm:text-base"
+            >
+              <Upload className="h-5 w-5" />
+              Import Questions
+            </button>
           </div>
 
           {/* Action Buttons */}
@@ -413,6 +700,18 @@ const CreateQuiz: React.FC = () => {
           </div>
         </form>
       </div>
+
+      {showBankPicker && (
+        <BankQuestionPicker onAdd={addFromBank} onClose={() => setShowBankPicker(false)} />
+      )}
+
+      {showImport && (
+        <ImportQuestionsDialog
+          startIndex={keptQuestions.length}
+          onImport={importQuestions}
+          onClose={() => setShowImport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,17 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { getScheduleStatus, ScheduleStatus } from '../lib/availability';
+import { buildQtiPackage } from '../lib/qti';
+import { downloadBlob, toFileName } from '../lib/download';
+import { hasPermission, permissionLabels } from '../lib/sharing';
 import { useAuth } from '../contexts/AuthContext';
-import { Quiz } from '../types/database';
+import { Quiz, QuizPermission } from '../types/database';
 import Navbar from '../components/Navbar';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Plus, Eye, Edit, Trash2, Users, Clock, BarChart3 } from 'lucide-react';
-import { Share2 } from 'lucide-react';
+import ShareQuizDialog from '../components/ShareQuizDialog';
+import { Plus, Eye, Edit, Trash2, Users, Clock, BarChart3, Package, Copy, LayoutTemplate, UserPlus, Share2, KeyRound, X } from 'lucide-react';
+
+const scheduleBadges: { [key in ScheduleStatus]: { label: string; className: string } } = {
+  scheduled: { label: 'Scheduled', className: 'bg-yellow-100 text-yellow-800' },
+  open: { label: 'Open', className: 'bg-blue-100 text-blue-800' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-800' },
+};
 
 const Dashboard: React.FC = () => {
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [loading, setLoading] = useState(true);
   const [responseCounts, setResponseCounts] = useState<{ [key: string]: number }>({});
+  // The signed-in teacher's permission on each quiz
+  const [permissions, setPermissions] = useState<{ [key: string]: QuizPermission }>({});
+  const [sharingQuiz, setSharingQuiz] = useState<Quiz | null>(null);
+  // Access codes of the quizzes that have one
+  const [accessCodes, setAccessCodes] = useState<{ [key: string]: string }>({});
   const { user } = useAuth();
 
   useEffect(() => {
@@ -21,11 +36,24 @@ const Dashboard: React.FC = () => {
   }, [user]);
 
   const fetchQuizzes = async () => {
+    if (!user) return;
+
     try {
+      const { data: sharedData, error: sharedError } = await supabase
+        .from('quiz_collaborators')
+        .select('quiz_id, permission')
+        .eq('user_id', user.id);
+
+      if (sharedError) throw sharedError;
+
+      // Quizzes the teacher created and ones shared with them
+      const sharedIds = (sharedData || []).map(shared => shared.quiz_id);
       const { data: quizzesData, error: quizzesError } = await supabase
         .from('quizzes')
         .select('*')
-        .eq('created_by', user?.id)
+        .or(sharedIds.length > 0
+          ? `created_by.eq.${user.id},id.in.(${sharedIds.join(',')})`
+          : `created_by.eq.${user.id}`)
         .order('created_at', { ascending: false });
 
       if (quizzesError) throw quizzesError;
@@ -33,6 +61,28 @@ const Dashboard: React.FC = () => {
       if (quizzesData) {
         setQuizzes(quizzesData);
 
+        const quizPermissions: { [key: string]: QuizPermission } = {};
+        (sharedData || []).forEach(shared => {
+          quizPermissions[shared.quiz_id] = shared.permission;
+        });
+        quizzesData.forEach(quiz => {
+          if (quiz.created_by === user.id) quizPermissions[quiz.id] = 'owner';
+        });
+        setPermissions(quizPermissions);
+
+        const { data: codesData, error: codesError } = await supabase
+          .from('quiz_access_codes')
+          .select('quiz_id, code')
+          .in('quiz_id', quizzesData.map(quiz => quiz.id));
+
+        if (codesError) throw codesError;
+
+        const codes: { [key: string]: string } = {};
+        (codesData || []).forEach(row => {
+          codes[row.quiz_id] = row.code;
+        });
+        setAccessCodes(codes);
+
         // Fetch response counts for each quiz
         const counts: { [key: string]: number } = {};
         await Promise.all(
@@ -90,6 +140,106 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const duplicateQuiz = async (quiz: Quiz) => {
+    const title = window.prompt('Title for the copy:', `Copy of ${quiz.title}`);
+    if (!title?.trim()) return;
+
+    try {
+      const { error } = await supabase.rpc('duplicate_quiz', {
+        p_quiz_id: quiz.id,
+        p_title: title.trim()
+      });
+
+      if (error) throw error;
+
+      await fetchQuizzes();
+    } catch (error) {
+      console.error('Error duplicating quiz:', error);
+      alert('Failed to duplicate quiz. Please try again.');
+    }
+  };
+
+  const toggleTemplate = async (quiz: Quiz) => {
+    try {
+      const { error } = await supabase
+        .from('quizzes')
+        .update({ is_template: !quiz.is_template })
+        .eq('id', quiz.id);
+
+      if (error) throw error;
+
+      setQuizzes(quizzes.map(q =>
+        q.id === quiz.id ? { ...q, is_template: !q.is_template } : q
+      ));
+    } catch (error) {
+      console.error('Error updating quiz template:', error);
+    }
+  };
+
+  const rotateAccessCode = async (quiz: Quiz) => {
+    if (accessCodes[quiz.id] && !window.confirm(`Replace the access code of "${quiz.title}"? Students will need the new code to start the quiz.`)) {
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('rotate_quiz_access_code', { p_quiz_id: quiz.id });
+
+      if (error) throw error;
+
+      setAccessCodes({ ...accessCodes, [quiz.id]: data });
+    } catch (error) {
+      console.error('Error rotating access code:', error);
+      alert('Failed to change the access code. Please try again.');
+    }
+  };
+
+  const removeAccessCode = async (quiz: Quiz) => {
+    if (!window.confirm(`Remove the access code of "${quiz.title}"? Anyone with the link will be able to take the quiz.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('remove_quiz_access_code', { p_quiz_id: quiz.id });
+
+      if (error) throw error;
+
+      const codes = { ...accessCodes };
+      delete codes[quiz.id];
+      setAccessCodes(codes);
+    } catch (error) {
+      console.error('Error removing access code:', error);
+      alert('Failed to remove the access code. Please try again.');
+    }
+  };
+
+  const exportQuiz = async (quiz: Quiz) => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('*')
+        .eq('quiz_id', quiz.id)
+        .order('order_index');
+
+      if (error) throw error;
+
+      const { blob, warnings } = buildQtiPackage(quiz, data || []);
+      downloadBlob(blob, `${toFileName(quiz.title)}_qti.zip`);
+      if (warnings.length > 0) {
+        alert(`Some settings cannot be exported to QTI:\n\n${warnings.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error exporting quiz:', error);
+      alert('Failed to export quiz. Please try again.');
+    }
+  };
+
+  const describeSchedule = (quiz: Quiz) => {
+    const parts = [];
+    if (quiz.opens_at) parts.push(`Opens ${new Date(quiz.opens_at).toLocaleString()}`);
+    if (quiz.closes_at) parts.push(`Closes ${new Date(quiz.closes_at).toLocaleString()}`);
+    return parts.join(' · ');
+  };
+
   const copyQuizLink = (quizId: string) => {
     const link = `${window.location.origin}/quiz/${quizId}`;
     navigator.clipboard.writeText(link);
@@ -231,6 +381,11 @@ const Dashboard: React.FC = () => {
                       <td className="px-3 sm:px-6 py-4">
                         <div>
                           <div className="text-sm font-medium text-gray-900 break-words">{quiz.title}</div>
+                          {quiz.created_by !== user?.id && permissions[quiz.id] && (
+                            <span className="inline-flex mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800">
+                              Shared with you · {permissionLabels[permissions[quiz.id]]}
+                            </span>
+                          )}
                           {quiz.description && (
                             <div className="text-sm text-gray-500 break-words max-w-xs sm:max-w-sm">
                               {quiz.description}
@@ -241,14 +396,46 @@ const Dashboard: React.FC = () => {
                       <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
                         <button
                           onClick={() => toggleQuizStatus(quiz)}
-                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full transition-colors ${
+                          disabled={!hasPermission(permissions[quiz.id], 'editor')}
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full transition-colors disabled:cursor-default ${
                             quiz.is_active
-                              ? 'bg-green-100 text-green-800 hover:bg-green-200'
-                              : 'bg-red-100 text-red-800 hover:bg-red-200'
+                              ? 'bg-green-100 text-green-800 hover:bg-green-200 disabled:hover:bg-green-100'
+                              : 'bg-red-100 text-red-800 hover:bg-red-200 disabled:hover:bg-red-100'
                           }`}
                         >
                           {quiz.is_active ? 'Active' : 'Inactive'}
                         </button>
+                        {(quiz.opens_at || quiz.closes_at) && (
+                          <span
+                            className={`ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full ${scheduleBadges[getScheduleStatus(quiz)].className}`}
+                            title={describeSchedule(quiz)}
+                          >
+                            {scheduleBadges[getScheduleStatus(quiz)].label}
+                          </span>
+                        )}
+                        {quiz.is_template && (
+                          <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                            Template
+                          </span>
+                        )}
+                        {accessCodes[quiz.id] && (
+                          <span
+                            className="ml-2 inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800"
+                            title="Students need this code to start the quiz"
+                          >
+                            <KeyRound className="h-3 w-3" />
+                            <span className="font-mono">{accessCodes[quiz.id]}</span>
+                            {hasPermission(permissions[quiz.id], 'editor') && (
+                              <button
+                                onClick={() => removeAccessCode(quiz)}
+                                className="hover:text-amber-950 transition-colors"
+                                title="Remove access code"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            )}
+                          </span>
+                        )}
                       </td>
                       <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {responseCounts[quiz.id] || 0}
@@ -265,13 +452,15 @@ const Dashboard: React.FC = () => {
                           >
                             <Share2 className="h-5 w-5" />
                           </button>
-                          <Link
-                            to={`/edit/${quiz.id}`}
-                            className="text-indigo-600 hover:text-indigo-900 transition-colors"
-                            title="Edit quiz"
-                          >
-                            <Edit className="h-5 w-5" />
-                          </Link>
+                          {hasPermission(permissions[quiz.id], 'editor') && (
+                            <Link
+                              to={`/edit/${quiz.id}`}
+                              className="text-indigo-600 hover:text-indigo-900 transition-colors"
+                              title="Edit quiz"
+                            >
+                              <Edit className="h-5 w-5" />
+                            </Link>
+                          )}
                           <Link
                             to={`/results/${quiz.id}`}
                             className="text-emerald-600 hover:text-emerald-900 transition-colors"
@@ -280,12 +469,53 @@ const Dashboard: React.FC = () => {
                             <BarChart3 className="h-5 w-5" />
                           </Link>
                           <button
-                            onClick={() => deleteQuiz(quiz.id)}
-                            className="text-red-600 hover:text-red-900 transition-colors"
-                            title="Delete quiz"
+                            onClick={() => duplicateQuiz(quiz)}
+                            className="text-blue-600 hover:text-blue-900 transition-colors"
+                            title="Duplicate quiz"
+                          >
+                            <Copy className="h-5 w-5" />
+                          </button>
+                          {hasPermission(permissions[quiz.id], 'editor') && (
+                            <button
+                              onClick={() => toggleTemplate(quiz)}
+                              className={`transition-colors ${quiz.is_template ? 'text-purple-600 hover:text-purple-900' : 'text-gray-400 hover:text-gray-600'}`}
+                              title={quiz.is_template ? 'Stop using as a template' : 'Use as a template'}
+                            >
+                              <LayoutTemplate className="h-5 w-5" />
+                            </button>
+                          )}
+                          {hasPermission(permissions[quiz.id], 'editor') && (
+                            <button
+                              onClick={() => rotateAccessCode(quiz)}
+                              className={`transition-colors ${accessCodes[quiz.id] ? 'text-amber-600 hover:text-amber-900' : 'text-gray-400 hover:text-gray-600'}`}
+                              title={accessCodes[quiz.id] ? 'Rotate access code' : 'Require an access code'}
+                            >
+                              <KeyRound className="h-5 w-5" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => exportQuiz(quiz)}
+                            className="text-gray-600 hover:text-gray-900 transition-colors"
+                            title="Export as QTI package"
+                          >
+                            <Package className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => setSharingQuiz(quiz)}
+                            className="text-indigo-600 hover:text-indigo-900 transition-colors"
+                            title="Share with teachers"
                           >
-                            <Trash2 className="h-5 w-5" />
+                            <UserPlus className="h-5 w-5" />
                           </button>
+                          {hasPermission(permissions[quiz.id], 'owner') && (
+                            <button
+                              onClick={() => deleteQuiz(quiz.id)}
+                              className="text-red-600 hover:text-red-900 transition-colors"
+                              title="Delete quiz"
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -296,6 +526,15 @@ const Dashboard: React.FC = () => {
           )}
         </div>
       </div>
+
+      {sharingQuiz && (
+        <ShareQuizDialog
+          quizId={sharingQuiz.id}
+          quizTitle={sharingQuiz.title}
+          permission={permissions[sharingQuiz.id]}
+          onClose={() => setSharingQuiz(null)}
+        />
+      )}
     </div>
   );
 };
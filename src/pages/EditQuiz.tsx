@@ -1,20 +1,45 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { fromDateTimeLocal, toDateTimeLocal } from '../lib/format';
+import { reviewVisibilityLabels } from '../lib/availability';
+import { createQuestion, getSections, toQuestionRow, toSectionDrawCounts, validateDrawSettings, validateQuestion } from '../lib/questions';
+import { fromBankQuestion } from '../lib/bank';
+import { hasPermission } from '../lib/sharing';
 import { useAuth } from '../contexts/AuthContext';
-import { Quiz, Question } from '../types/database';
+import { BankQuestion, Quiz, QuizPermission, Question, QuestionDraft, ReviewVisibility } from '../types/database';
 import Navbar from '../components/Navbar';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Plus, Trash2, MoveUp, MoveDown, Save } from 'lucide-react';
+import QuestionAnswerEditor from '../components/QuestionAnswerEditor';
+import BankLinkControls from '../components/BankLinkControls';
+import BankQuestionPicker from '../components/BankQuestionPicker';
+import VersionHistory from '../components/VersionHistory';
+import QuestionDrawSettings from '../components/QuestionDrawSettings';
+import ShareQuizDialog from '../components/ShareQuizDialog';
+import QuizClassAssignment from '../components/QuizClassAssignment';
+import { Plus, Trash2, MoveUp, MoveDown, Save, Library, History, UserPlus } from 'lucide-react';
 
 const EditQuiz: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [timeLimit, setTimeLimit] = useState('');
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [maxAttempts, setMaxAttempts] = useState('');
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [reviewVisibility, setReviewVisibility] = useState<ReviewVisibility>('after_submit');
+  const [questionsPerAttempt, setQuestionsPerAttempt] = useState('');
+  const [sectionDrawCounts, setSectionDrawCounts] = useState<{ [section: string]: string }>({});
   const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [permission, setPermission] = useState<QuizPermission | null>(null);
+  const [showShare, setShowShare] = useState(false);
   
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -27,12 +52,17 @@ const EditQuiz: React.FC = () => {
 
   const fetchQuiz = async () => {
     try {
+      // Co-teachers need editor permission
+      const { data: permissionData, error: permissionError } = await supabase.rpc('quiz_permission', { p_quiz_id: id! });
+
+      if (permissionError) throw permissionError;
+      if (!hasPermission(permissionData, 'editor')) throw new Error('Quiz not found');
+
       // Fetch quiz
       const { data: quizData, error: quizError } = await supabase
         .from('quizzes')
         .select('*')
-        .eq('id', id)
-        .eq('created_by', user?.id)
+        .eq('id', id!)
         .single();
 
       if (quizError) throw quizError;
@@ -41,14 +71,26 @@ const EditQuiz: React.FC = () => {
       const { data: questionsData, error: questionsError } = await supabase
         .from('questions')
         .select('*')
-        .eq('quiz_id', id)
+        .eq('quiz_id', id!)
         .order('order_index');
 
       if (questionsError) throw questionsError;
 
       setQuiz(quizData);
+      setPermission(permissionData);
       setTitle(quizData.title);
       setDescription(quizData.description || '');
+      setTimeLimit(quizData.time_limit_minutes ? String(quizData.time_limit_minutes) : '');
+      setOpensAt(toDateTimeLocal(quizData.opens_at));
+      setClosesAt(toDateTimeLocal(quizData.closes_at));
+      setMaxAttempts(quizData.max_attempts ? String(quizData.max_attempts) : '');
+      setShuffleQuestions(quizData.shuffle_questions);
+      setShuffleOptions(quizData.shuffle_options);
+      setReviewVisibility(quizData.review_visibility);
+      setQuestionsPerAttempt(quizData.questions_per_attempt ? String(quizData.questions_per_attempt) : '');
+      setSectionDrawCounts(
+        Object.fromEntries(Object.entries(quizData.section_draw_counts).map(([section, count]) => [section, String(count)]))
+      );
       setQuestions(questionsData);
     } catch (error) {
       console.error('Error fetching quiz:', error);
@@ -60,31 +102,27 @@ const EditQuiz: React.FC = () => {
 
   const addQuestion = () => {
     const newQuestion: Question = {
+      ...createQuestion(questions.length),
       id: `temp-${Date.now()}`,
-      quiz_id: id!,
-      question_text: '',
-      options: ['', ''],
-      correct_answer: '',
-      order_index: questions.length
+      quiz_id: id!
     };
     setQuestions([...questions, newQuestion]);
   };
 
-  const removeQuestion = async (index: number) => {
+  const addFromBank = (bankQuestions: BankQuestion[]) => {
+    const newQuestions: Question[] = bankQuestions.map((question, i) => ({
+      ...fromBankQuestion(question, questions.length + i),
+      id: `temp-${Date.now()}-${i}`,
+      quiz_id: id!
+    }));
+    setQuestions([...questions, ...newQuestions]);
+    setShowBankPicker(false);
+  };
+
+  // Saved questions are only deleted when the quiz is saved
+  const removeQuestion = (index: number) => {
     if (questions.length === 1) return;
-    
-    const question = questions[index];
-    
-    // If it's an existing question (has real ID), delete from database
-    if (!question.id.startsWith('temp-')) {
-      try {
-        await supabase.from('questions').delete().eq('id', question.id);
-      } catch (error) {
-        console.error('Error deleting question:', error);
-        return;
-      }
-    }
-    
+
     const newQuestions = questions.filter((_, i) => i !== index);
     setQuestions(newQuestions.map((q, i) => ({ ...q, order_index: i })));
   };
@@ -99,72 +137,45 @@ const EditQuiz: React.FC = () => {
     setQuestions(newQuestions.map((q, i) => ({ ...q, order_index: i })));
   };
 
-  const updateQuestion = (index: number, field: keyof Question, value: any) => {
+  const updateQuestion = (index: number, changes: Partial<QuestionDraft>) => {
     const newQuestions = [...questions];
-    newQuestions[index] = { ...newQuestions[index], [field]: value };
+    newQuestions[index] = { ...newQuestions[index], ...changes };
     setQuestions(newQuestions);
   };
 
-  const addOption = (questionIndex: number) => {
-    if (questions[questionIndex].options.length >= 5) return;
-    const newQuestions = [...questions];
-    newQuestions[questionIndex].options.push('');
-    setQuestions(newQuestions);
-  };
+  const validateForm = () => {
+    if (!title.trim()) {
+      alert('Please enter a quiz title');
+      return false;
+    }
 
-  const removeOption = (questionIndex: number, optionIndex: number) => {
-    if (questions[questionIndex].options.length <= 2) return;
-    const newQuestions = [...questions];
-    const removedOption = newQuestions[questionIndex].options[optionIndex];
-    newQuestions[questionIndex].options.splice(optionIndex, 1);
-    
-    // Clear correct answer if it was the removed option
-    if (newQuestions[questionIndex].correct_answer === removedOption) {
-      newQuestions[questionIndex].correct_answer = '';
+    if (timeLimit && !(Number.isInteger(Number(timeLimit)) && Number(timeLimit) > 0)) {
+      alert('The time limit must be a whole number of minutes');
+      return false;
     }
-    setQuestions(newQuestions);
-  };
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
-    const newQuestions = [...questions];
-    const oldValue = newQuestions[questionIndex].options[optionIndex];
-    newQuestions[questionIndex].options[optionIndex] = value;
-    
-    // Update correct answer if it was the old option value
-    if (newQuestions[questionIndex].correct_answer === oldValue) {
-      newQuestions[questionIndex].correct_answer = value;
+    if (maxAttempts && !(Number.isInteger(Number(maxAttempts)) && Number(maxAttempts) > 0)) {
+      alert('The maximum number of attempts must be a whole number');
+      return false;
     }
-    setQuestions(newQuestions);
-  };
 
-  const validateForm = () => {
-    if (!title.trim()) {
-      alert('Please enter a quiz title');
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      alert('The closing time must be after the opening time');
       return false;
     }
 
     for (let i = 0; i < questions.length; i++) {
-      const question = questions[i];
-      
-      if (!question.question_text.trim()) {
-        alert(`Please enter text for question ${i + 1}`);
-        return false;
-      }
-
-      if (question.options.some(option => !option.trim())) {
-        alert(`Please fill in all options for question ${i + 1}`);
-        return false;
-      }
-
-      if (!question.correct_answer.trim()) {
-        alert(`Please select a correct answer for question ${i + 1}`);
+      const problem = validateQuestion(questions[i], i);
+      if (problem) {
+        alert(problem);
         return false;
       }
+    }
 
-      if (!question.options.includes(question.correct_answer)) {
-        alert(`The correct answer for question ${i + 1} must be one of the provided options`);
-        return false;
-      }
+    const drawProblem = validateDrawSettings(questions, questionsPerAttempt, sectionDrawCounts);
+    if (drawProblem) {
+      alert(drawProblem);
+      return false;
     }
 
     return true;
@@ -176,40 +187,34 @@ const EditQuiz: React.FC = () => {
 
     setSaving(true);
     try {
-      // Update quiz
-      const { error: quizError } = await supabase
-        .from('quizzes')
-        .update({
-          title: title.trim(),
-          description: description.trim() || null
-        })
-        .eq('id', id);
-
-      if (quizError) throw quizError;
-
-      // Delete all existing questions and insert new ones
-      // This is simpler than trying to update individual questions
-      const { error: deleteError } = await supabase
-        .from('questions')
-        .delete()
-        .eq('quiz_id', id);
-
-      if (deleteError) throw deleteError;
-
-      // Insert all questions (both new and existing)
-      const questionsToInsert = questions.map((question, index) => ({
-        quiz_id: id!,
-        question_text: question.question_text.trim(),
-        options: question.options.map(opt => opt.trim()),
-        correct_answer: question.correct_answer.trim(),
-        order_index: index
+      // Update saved questions in place so their ids, and the answers
+      // already given to them, survive the edit. Questions removed here are
+      // deleted and new ones inserted, and the quiz is saved as a new
+      // version, all in one transaction.
+      const questionsToSave = questions.map((question, index) => ({
+        ...toQuestionRow(question, id!, index),
+        id: question.id.startsWith('temp-') ? null : question.id
       }));
 
-      const { error: insertError } = await supabase
-        .from('questions')
-        .insert(questionsToInsert);
-
-      if (insertError) throw insertError;
+      const { error } = await supabase.rpc('save_quiz', {
+        p_quiz_id: id!,
+        p_settings: {
+          title: title.trim(),
+          description: description.trim() || null,
+          time_limit_minutes: timeLimit ? Number(timeLimit) : null,
+          opens_at: fromDateTimeLocal(opensAt),
+          closes_at: fromDateTimeLocal(closesAt),
+          max_attempts: maxAttempts ? Number(maxAttempts) : null,
+          shuffle_questions: shuffleQuestions,
+          shuffle_options: shuffleOptions,
+          questions_per_attempt: questionsPerAttempt ? Number(questionsPerAttempt) : null,
+          section_draw_counts: toSectionDrawCounts(questions, sectionDrawCounts),
+          review_visibility: reviewVisibility
+        },
+        p_questions: questionsToSave
+      });
+
+      if (error) throw error;
 
       navigate('/dashboard');
     } catch (error) {
@@ -250,11 +255,37 @@ const EditQuiz: React.FC = () => {
       <Navbar />
       
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Edit Quiz</h1>
-          <p className="text-gray-600 mt-2">Update your quiz questions and details</p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Edit Quiz</h1>
+            <p className="text-gray-600 mt-2">Update your quiz questions and details</p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <button
+              type="button"
+              onClick={() => setShowShare(true)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              <UserPlus className="h-5 w-5" />
+              Share
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowHistory(!showHistory)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              <History className="h-5 w-5" />
+              {showHistory ? 'Hide History' : `Version History (v${quiz.version})`}
+            </button>
+          </div>
         </div>
 
+        {showHistory && (
+          <VersionHistory quizId={quiz.id} currentVersion={quiz.version} onRestored={fetchQuiz} />
+        )}
+
+        <QuizClassAssignment quizId={quiz.id} />
+
         <form onSubmit={handleSubmit} className="space-y-8">
           {/* Quiz Details */}
           <div className="bg-white rounded-lg shadow-md p-6">
@@ -289,10 +320,118 @@ const EditQuiz: React.FC = () => {
                   placeholder="Provide instructions or context for your quiz"
                 />
               </div>
+
+              <div>
+                <label htmlFor="timeLimit" className="block text-sm font-medium text-gray-700 mb-2">
+                  Time Limit in Minutes (Optional)
+                </label>
+                <input
+                  type="number"
+                  id="timeLimit"
+                  min={1}
+                  value={timeLimit}
+                  onChange={(e) => setTimeLimit(e.target.value)}
+                  className="block w-full sm:w-48 border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="No time limit"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="maxAttempts" className="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum Attempts per Student (Optional)
+                </label>
+                <input
+                  type="number"
+                  id="maxAttempts"
+                  min={1}
+                  value={maxAttempts}
+                  onChange={(e) => setMaxAttempts(e.target.value)}
+                  className="block w-full sm:w-48 border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="Unlimited"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="opensAt" className="block text-sm font-medium text-gray-700 mb-2">
+                    Opens At (Optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="opensAt"
+                    value={opensAt}
+                    onChange={(e) => setOpensAt(e.target.value)}
+                    className="block w-full border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="closesAt" className="block text-sm font-medium text-gray-700 mb-2">
+                    Closes At (Optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="closesAt"
+                    value={closesAt}
+                    onChange={(e) => setClosesAt(e.target.value)}
+                    className="block w-full border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="reviewVisibility" className="block text-sm font-medium text-gray-700 mb-2">
+                  Show Students the Correct Answers
+                </label>
+                <select
+                  id="reviewVisibility"
+                  value={reviewVisibility}
+                  onChange={(e) => setReviewVisibility(e.target.value as ReviewVisibility)}
+                  className="block w-full sm:w-64 border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  {(Object.keys(reviewVisibilityLabels) as ReviewVisibility[]).map(visibility => (
+                    <option key={visibility} value={visibility}>{reviewVisibilityLabels[visibility]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Their marks per question and your feedback are shown at the same time.</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={shuffleQuestions}
+                    onChange={(e) => setShuffleQuestions(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Shuffle question order for each attempt
+                </label>
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={shuffleOptions}
+                    onChange={(e) => setShuffleOptions(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Shuffle answer options for each attempt
+                </label>
+              </div>
+
+              <QuestionDrawSettings
+                questions={questions}
+                questionsPerAttempt={questionsPerAttempt}
+                sectionDrawCounts={sectionDrawCounts}
+                onQuestionsPerAttemptChange={setQuestionsPerAttempt}
+                onSectionDrawCountsChange={setSectionDrawCounts}
+              />
             </div>
           </div>
 
           {/* Questions */}
+          <datalist id="question-sections">
+            {getSections(questions).map(section => (
+              <option key={section} value={section} />
+            ))}
+          </datalist>
           <div className="space-y-6">
             {questions.map((question, questionIndex) => (
               <div key={questionIndex} className="bg-white rounded-lg shadow-md p-6">
@@ -335,6 +474,12 @@ const EditQuiz: React.FC = () => {
                 </div>
 
                 <div className="space-y-6">
+                  <BankLinkControls
+                    question={question}
+                    questionIndex={questionIndex}
+                    onChange={(changes) => updateQuestion(questionIndex, changes)}
+                  />
+
                   {/* Question Text */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -343,76 +488,73 @@ const EditQuiz: React.FC = () => {
                     <textarea
                       rows={2}
                       value={question.question_text}
-                      onChange={(e) => updateQuestion(questionIndex, 'question_text', e.target.value)}
-                      className="block w-full border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors resize-none"
+                      onChange={(e) => updateQuestion(questionIndex, { question_text: e.target.value })}
+                      disabled={!!question.bank_question_id}
+                      className="block w-full border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors resize-none disabled:opacity-60"
                       placeholder="Enter your question"
                       required
                     />
                   </div>
 
-                  {/* Options */}
+                  {/* Question Time Limit */}
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-3">
-                      Answer Options * (Select the correct answer)
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Time Limit in Seconds (Optional)
                     </label>
-                    <div className="space-y-3">
-                      {question.options.map((option, optionIndex) => (
-                        <div key={optionIndex} className="flex items-center space-x-3">
-                          <input
-                            type="radio"
-                            name={`correct-${questionIndex}`}
-                            checked={question.correct_answer === option}
-                            onChange={() => updateQuestion(questionIndex, 'correct_answer', option)}
-                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-                          />
-                          <input
-                            type="text"
-                            value={option}
-                            onChange={(e) => updateOption(questionIndex, optionIndex, e.target.value)}
-                            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                            placeholder={`Option ${optionIndex + 1}`}
-                            required
-                          />
-                          {question.options.length > 2 && (
-                            <button
-                              type="button"
-                              onClick={() => removeOption(questionIndex, optionIndex)}
-                              className="p-2 text-red-400 hover:text-red-600 transition-colors"
-                              title="Remove option"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-
-                    {question.options.length < 5 && (
-                      <button
-                        type="button"
-                        onClick={() => addOption(questionIndex)}
-                        className="mt-3 text-blue-600 hover:text-blue-700 text-sm font-medium transition-colors flex items-center gap-1"
-                      >
-                        <Plus className="h-4 w-4" />
-                        Add Option
-                      </button>
-                    )}
+                    <input
+                      type="number"
+                      min={1}
+                      value={question.time_limit_seconds ?? ''}
+                      onChange={(e) => updateQuestion(questionIndex, { time_limit_seconds: e.target.value ? Number(e.target.value) : null })}
+                      className="block w-full sm:w-48 border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="No limit"
+                    />
                   </div>
+
+                  {/* Question Section */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Section (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      list="question-sections"
+                      value={question.section ?? ''}
+                      onChange={(e) => updateQuestion(questionIndex, { section: e.target.value || null })}
+                      className="block w-full sm:w-64 border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="No section"
+                    />
+                  </div>
+
+                  <QuestionAnswerEditor
+                    question={question}
+                    questionIndex={questionIndex}
+                    onChange={(changes) => updateQuestion(questionIndex, changes)}
+                    locked={!!question.bank_question_id}
+                  />
                 </div>
               </div>
             ))}
           </div>
 
-          {/* Add Question Button */}
-          <div className="text-center">
+          {/* Add Question Buttons */}
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
             <button
               type="button"
               onClick={addQuestion}
-              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-medium transition-colors flex items-center gap-2 mx-auto"
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
             >
               <Plus className="h-5 w-5" />
               Add Question
             </button>
+            <button
+              type="button"
+              onClick={() => setShowBankPicker(true)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              <Library className="h-5 w-5" />
+              Add from Question Bank
+            </button>
           </div>
 
           {/* Action Buttons */}
@@ -432,6 +574,19 @@ const EditQuiz: React.FC = () => {
           </div>
         </form>
       </div>
+
+      {showBankPicker && (
+        <BankQuestionPicker onAdd={addFromBank} onClose={() => setShowBankPicker(false)} />
+      )}
+
+      {showShare && permission && (
+        <ShareQuizDialog
+          quizId={quiz.id}
+          quizTitle={quiz.title}
+          permission={permission}
+          onClose={() => setShowShare(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Eye, EyeOff, Mail, Lock } from 'lucide-react';
+import { getHomePath } from '../lib/roles';
+import { Eye, EyeOff, Mail, Lock, User, Hash } from 'lucide-react';
 
 const Login: React.FC = () => {
   const [isSignUp, setIsSignUp] = useState(false);
+  const [isStudentSignUp, setIsStudentSignUp] = useState(false);
+  const [fullName, setFullName] = useState('');
+  const [registerNumber, setRegisterNumber] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -12,14 +16,14 @@ const Login: React.FC = () => {
   const [error, setError] = useState('');
   const [message, setMessage] = useState('');
 
-  const { user, signIn, signUp } = useAuth();
+  const { user, profile, signIn, signUp } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
     if (user) {
-      navigate('/dashboard');
+      navigate(getHomePath(profile));
     }
-  }, [user, navigate]);
+  }, [user, profile, navigate]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,18 +33,23 @@ const Login: React.FC = () => {
 
     try {
       if (isSignUp) {
-        const { error } = await signUp(email, password);
+        const { error } = await signUp(
+          email,
+          password,
+          isStudentSignUp ? { fullName: fullName.trim(), registerNumber: registerNumber.trim() } : undefined
+        );
         if (error) {
           setError(error.message);
         } else {
-          setMessage('Check your email to confirm your account!');
+          setMessage(isStudentSignUp
+            ? 'Check your email to confirm your account!'
+            : 'Check your email to confirm your account! A school admin then needs to give it teacher access before you can create quizzes.');
         }
       } else {
+        // Signing in updates the user, which redirects by role above
         const { error } = await signIn(email, password);
         if (error) {
           setError(error.message);
-        } else {
-          navigate('/dashboard');
         }
       }
     } catch (err) {
@@ -64,7 +73,9 @@ const Login: React.FC = () => {
             </h2>
             <p className="text-gray-600 mt-2">
               {isSignUp 
-                ? 'Sign up to start creating amazing quizzes' 
+                ? isStudentSignUp
+                  ? 'Sign up to keep your details and see all your quiz results'
+                  : 'Sign up to start creating amazing quizzes'
                 : 'Sign in to your account to continue'
               }
             </p>
@@ -84,6 +95,72 @@ const Login: React.FC = () => {
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-6">
+            {isSignUp && (
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-2">I am a</span>
+                <div className="grid grid-cols-2 gap-2">
+                  {[false, true].map(student => (
+                    <button
+                      key={String(student)}
+                      type="button"
+                      onClick={() => setIsStudentSignUp(student)}
+                      className={`py-2 rounded-lg border text-sm font-medium transition-colors ${
+                        isStudentSignUp === student
+                          ? 'bg-blue-50 border-blue-500 text-blue-700'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {student ? 'Student' : 'Teacher'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {isSignUp && isStudentSignUp && (
+              <>
+                <div>
+                  <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
+                    Full Name
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <User className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="fullName"
+                      type="text"
+                      required
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="Enter your name"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="registerNumber" className="block text-sm font-medium text-gray-700 mb-2">
+                    Register Number
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Hash className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="registerNumber"
+                      type="text"
+                      required
+                      value={registerNumber}
+                      onChange={(e) => setRegisterNumber(e.target.value)}
+                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="Enter your register number"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
                 Email Address
@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { formatAnswer, formatPoints, getPercentage } from '../lib/questions';
+import { hiddenReviewMessages } from '../lib/availability';
+import { useAuth } from '../contexts/AuthContext';
+import { MyAttempt } from '../types/database';
+import Navbar from '../components/Navbar';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { ChevronDown, ChevronUp, Hourglass, History, Save } from 'lucide-react';
+
+const MyAttempts: React.FC = () => {
+  const [attempts, setAttempts] = useState<MyAttempt[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [fullName, setFullName] = useState('');
+  const [registerNumber, setRegisterNumber] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user, profile, refreshProfile } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchAttempts();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setFullName(profile?.full_name ?? '');
+    setRegisterNumber(profile?.register_number ?? '');
+  }, [profile]);
+
+  const fetchAttempts = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_my_attempts');
+
+      if (error) throw error;
+      setAttempts(data);
+    } catch (error) {
+      console.error('Error fetching attempts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          full_name: fullName.trim() || null,
+          register_number: registerNumber.trim() || null,
+        })
+        .eq('id', user!.id);
+
+      if (error) throw error;
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      alert('Error saving your details. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="large" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">My Attempts</h1>
+          <p className="text-gray-600 mt-1">Every quiz you have submitted while signed in, with your answers.</p>
+        </div>
+
+        {/* Profile */}
+        <form onSubmit={saveProfile} className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">My Details</h2>
+          <p className="text-sm text-gray-600 mb-4">Filled in for you when you take a quiz.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            <div>
+              <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
+                Full Name
+              </label>
+              <input
+                id="fullName"
+                type="text"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="registerNumber" className="block text-sm font-medium text-gray-700 mb-2">
+                Register Number
+              </label>
+              <input
+                id="registerNumber"
+                type="text"
+                value={registerNumber}
+                onChange={(e) => setRegisterNumber(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              <Save className="h-4 w-4" />
+              {saving ? 'Saving...' : 'Save Details'}
+            </button>
+          </div>
+        </form>
+
+        {/* Attempts */}
+        {attempts.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-12 text-center">
+            <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No attempts yet</h3>
+            <p className="text-gray-600">Quizzes you submit while signed in will appear here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {attempts.map(({ response, quiz_title, review_visibility, review }) => {
+              const expanded = expandedId === response.id;
+              return (
+                <div key={response.id} className="bg-white rounded-lg shadow-md overflow-hidden">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : response.id)}
+                    className="w-full px-6 py-4 flex items-center justify-between gap-4 text-left hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <h3 className="text-lg font-semibold text-gray-900 break-words">{quiz_title}</h3>
+                      <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-gray-500">
+                        <span>{new Date(response.submitted_at).toLocaleString()}</span>
+                        {response.is_late && (
+                          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                            Late
+                          </span>
+                        )}
+                        {response.needs_grading && (
+                          <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+                            <Hourglass className="h-3 w-3" />
+                            Pending review
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4 flex-shrink-0">
+                      <div className="text-right">
+                        <div className="text-lg font-bold text-blue-600">
+                          {formatPoints(response.score)}/{formatPoints(response.max_score)}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {Math.round(getPercentage(response.score, response.max_score))}%
+                        </div>
+                      </div>
+                      {expanded ? (
+                        <ChevronUp className="h-5 w-5 text-gray-400" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5 text-gray-400" />
+                      )}
+                    </div>
+                  </button>
+
+                  {expanded && (
+                    <div className="border-t border-gray-200 px-6 py-4 space-y-4">
+                      {review ? (
+                        review.map((graded, index) => {
+                          const points = graded.points;
+                          const maxPoints = graded.max_points;
+                          const pending = points === null;
+                          return (
+                            <div key={graded.position} className="border border-gray-200 rounded-lg p-4">
+                              <h4 className="font-medium text-gray-900 mb-3 break-words">
+                                {index + 1}. {graded.question_text}
+                              </h4>
+
+                              <div className="space-y-2">
+                                <div className="flex items-center justify-between gap-4">
+                                  <span className="text-sm text-gray-600 flex-shrink-0">Your answer:</span>
+                                  <span className={`text-sm font-medium break-words whitespace-pre-wrap ${
+                                    pending
+                                      ? 'text-gray-700'
+                                      : points >= maxPoints
+                                      ? 'text-green-600'
+                                      : points > 0
+                                      ? 'text-amber-600'
+                                      : 'text-red-600'
+                                  }`}>
+                                    {formatAnswer(graded.answer)}
+                                    {pending
+                                      ? ''
+                                      : points >= maxPoints
+                                      ? ' ✓'
+                                      : points > 0
+                                      ? ` (${formatPoints(points)}/${formatPoints(maxPoints)} pts)`
+                                      : points < 0
+                                      ? ` ✗ (${formatPoints(points)} pts)`
+                                      : ' ✗'}
+                                  </span>
+                                </div>
+
+                                {pending && (
+                                  <div className="flex items-center gap-2 text-sm text-amber-700">
+                                    <Hourglass className="h-4 w-4" />
+                                    Pending review
+                                  </div>
+                                )}
+
+                                {!pending && points < maxPoints && graded.correct_answer !== null && (
+                                  <div className="flex items-center justify-between">
+                                    <span className="text-sm text-gray-600">Correct answer:</span>
+                                    <span className="text-sm font-medium text-green-600">
+                                      {formatAnswer(graded.correct_answer)}
+                                    </span>
+                                  </div>
+                                )}
+
+                                {graded.feedback && (
+                                  <div className="bg-blue-50 border border-blue-200 rounded-lg px-3 py-2 text-sm text-blue-900 whitespace-pre-wrap">
+                                    <span className="font-medium">Feedback: </span>
+                                    {graded.feedback}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })
+                      ) : (
+                        <p className="text-sm text-gray-600">{hiddenReviewMessages[review_visibility]}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyAttempts;
@@ -0,0 +1,349 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { difficultyBadgeClasses, difficultyLabels, emptyBankFilters, filterBankQuestions, fromBankQuestion, parseTags } from '../lib/bank';
+import { createQuestion, formatAnswer, getCorrectAnswer, questionTypeLabels, toQuestionContent, validateQuestion } from '../lib/questions';
+import { useAuth } from '../contexts/AuthContext';
+import { BankQuestion, Difficulty, QuestionDraft } from '../types/database';
+import Navbar from '../components/Navbar';
+import LoadingSpinner from '../components/LoadingSpinner';
+import BankFilterBar from '../components/BankFilterBar';
+import QuestionAnswerEditor from '../components/QuestionAnswerEditor';
+import { Plus, Edit, Trash2, Save, Library } from 'lucide-react';
+
+interface BankDraft {
+  id: string | null;
+  question: QuestionDraft;
+  tags: string;
+  difficulty: Difficulty | '';
+}
+
+const QuestionBank: React.FC = () => {
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [usageCounts, setUsageCounts] = useState<{ [key: string]: number }>({});
+  const [filters, setFilters] = useState(emptyBankFilters);
+  const [draft, setDraft] = useState<BankDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchBankQuestions();
+    }
+  }, [user]);
+
+  const fetchBankQuestions = async () => {
+    if (!user) return;
+
+    try {
+      const { data: bankData, error: bankError } = await supabase
+        .from('bank_questions')
+        .select('*')
+        .eq('created_by', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (bankError) throw bankError;
+
+      // Count the quiz questions still linked to each bank question
+      const { data: linkedData, error: linkedError } = await supabase
+        .from('questions')
+        .select('bank_question_id')
+        .not('bank_question_id', 'is', null);
+
+      if (linkedError) throw linkedError;
+
+      const counts: { [key: string]: number } = {};
+      linkedData.forEach(({ bank_question_id }) => {
+        if (bank_question_id) {
+          counts[bank_question_id] = (counts[bank_question_id] || 0) + 1;
+        }
+      });
+
+      setBankQuestions(bankData || []);
+      setUsageCounts(counts);
+    } catch (error) {
+      console.error('Error fetching question bank:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startNew = () => {
+    setDraft({ id: null, question: createQuestion(0), tags: '', difficulty: '' });
+  };
+
+  const startEdit = (question: BankQuestion) => {
+    setDraft({
+      id: question.id,
+      question: fromBankQuestion(question, 0),
+      tags: question.tags.join(', '),
+      difficulty: question.difficulty ?? '',
+    });
+  };
+
+  const updateDraftQuestion = (changes: Partial<QuestionDraft>) => {
+    if (!draft) return;
+    setDraft({ ...draft, question: { ...draft.question, ...changes } });
+  };
+
+  const saveDraft = async () => {
+    if (!draft || !user) return;
+
+    const problem = validateQuestion(draft.question, 0);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    const usageCount = draft.id ? usageCounts[draft.id] || 0 : 0;
+    if (usageCount > 0 && !window.confirm(`This question is used in ${usageCount} quiz question${usageCount === 1 ? '' : 's'}. Your changes will be applied there too. Continue?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const fields = {
+        ...toQuestionContent(draft.question),
+        tags: parseTags(draft.tags),
+        difficulty: draft.difficulty || null,
+      };
+
+      const { data, error } = draft.id
+        ? await supabase
+          .from('bank_questions')
+          .update(fields)
+          .eq('id', draft.id)
+          .select()
+          .single()
+        : await supabase
+          .from('bank_questions')
+          .insert({ ...fields, created_by: user.id })
+          .select()
+          .single();
+
+      if (error) throw error;
+
+      setBankQuestions([data, ...bankQuestions.filter(question => question.id !== data.id)]);
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving bank question:', error);
+      alert('Failed to save the question. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteQuestion = async (question: BankQuestion) => {
+    const usageCount = usageCounts[question.id] || 0;
+    const message = usageCount > 0
+      ? `Delete this question from the bank? The ${usageCount} quiz question${usageCount === 1 ? '' : 's'} using it will keep their own copy.`
+      : 'Delete this question from the bank? This action cannot be undone.';
+
+    if (window.confirm(message)) {
+      try {
+        const { error } = await supabase
+          .from('bank_questions')
+          .delete()
+          .eq('id', question.id);
+
+        if (error) throw error;
+
+        setBankQuestions(bankQuestions.filter(q => q.id !== question.id));
+        if (draft?.id === question.id) setDraft(null);
+      } catch (error) {
+        console.error('Error deleting bank question:', error);
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="large" />
+        </div>
+      </div>
+    );
+  }
+
+  const visibleQuestions = filterBankQuestions(bankQuestions, filters);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Question Bank</h1>
+            <p className="text-gray-600 mt-1">Reuse questions across quizzes. Edits reach every quiz that uses them.</p>
+          </div>
+          <button
+            onClick={startNew}
+            disabled={draft !== null}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+          >
+            <Plus className="h-5 w-5" />
+            New Question
+          </button>
+        </div>
+
+        {/* Editor */}
+        {draft && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8 space-y-6">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {draft.id ? 'Edit Question' : 'New Question'}
+            </h2>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Question Text *
+              </label>
+              <textarea
+                rows={2}
+                value={draft.question.question_text}
+                onChange={(e) => updateDraftQuestion({ question_text: e.target.value })}
+                className="block w-full border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors resize-none"
+                placeholder="Enter your question"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tags (Comma separated)
+                </label>
+                <input
+                  type="text"
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                  className="block w-full border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="e.g. algebra, chapter 3"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Difficulty
+                </label>
+                <select
+                  value={draft.difficulty}
+                  onChange={(e) => setDraft({ ...draft, difficulty: e.target.value as Difficulty | '' })}
+                  className="block w-full border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  <option value="">Not set</option>
+                  {(Object.keys(difficultyLabels) as Difficulty[]).map(difficulty => (
+                    <option key={difficulty} value={difficulty}>{difficultyLabels[difficulty]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <QuestionAnswerEditor
+              question={draft.question}
+              questionIndex={0}
+              onChange={updateDraftQuestion}
+              showScoring={false}
+            />
+
+            <p className="text-xs text-gray-500">
+              Points, negative marks, time limits and sections are set separately in each quiz.
+            </p>
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 rounded-lg font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveDraft}
+                disabled={saving}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                {saving ? <LoadingSpinner size="small" /> : <Save className="h-4 w-4" />}
+                {saving ? 'Saving...' : 'Save Question'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Questions */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <BankFilterBar questions={bankQuestions} filters={filters} onChange={setFilters} />
+          </div>
+
+          {bankQuestions.length === 0 ? (
+            <div className="text-center py-12 px-6">
+              <Library className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No questions yet</h3>
+              <p className="text-gray-600">
+                Add questions here, or use "Save to Question Bank" on a question while editing a quiz.
+              </p>
+            </div>
+          ) : visibleQuestions.length === 0 ? (
+            <div className="text-center py-12 px-6 text-sm text-gray-600">
+              No questions match these filters.
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {visibleQuestions.map(question => {
+                const usageCount = usageCounts[question.id] || 0;
+                return (
+                  <div key={question.id} className="px-6 py-4 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 break-words">{question.question_text}</p>
+                      {question.question_type !== 'essay' && (
+                        <p className="text-sm text-gray-600 mt-1 break-words">
+                          Answer: {formatAnswer(getCorrectAnswer(question)) || question.answer_pattern}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <span className="text-xs text-gray-500">{questionTypeLabels[question.question_type]}</span>
+                        {question.difficulty && (
+                          <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${difficultyBadgeClasses[question.difficulty]}`}>
+                            {difficultyLabels[question.difficulty]}
+                          </span>
+                        )}
+                        {question.tags.map(tag => (
+                          <span key={tag} className="inline-flex px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                            {tag}
+                          </span>
+                        ))}
+                        <span className="text-xs text-gray-400">
+                          {usageCount > 0 ? `Used in ${usageCount} quiz question${usageCount === 1 ? '' : 's'}` : 'Not used yet'}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <button
+                        onClick={() => startEdit(question)}
+                        disabled={draft !== null}
+                        className="text-blue-600 hover:text-blue-900 disabled:text-gray-300 transition-colors"
+                        title="Edit question"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteQuestion(question)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                        title="Delete question"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -1,18 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { formatDuration } from '../lib/format';
+import { downloadBlob, toFileName } from '../lib/download';
+import { formatOrdinal, getPercentileRank } from '../lib/statistics';
+import { buildResultsSheets, emptyExportFilters, ExportFilters, filterResponses, getTimeTaken, hasExportFilters, toCsv } from '../lib/exports';
+import { buildXlsx } from '../lib/xlsx';
+import { attemptPolicyLabels, getCountedResult, groupAttemptsByStudent } from '../lib/attempts';
+import { formatAnswer, formatPoints, getCorrectAnswer, getMaxScore, getPercentage, getServedPositions } from '../lib/questions';
+import { getQuestionColumns, getResponseQuestions, toVersionedQuestions, VersionedQuestions } from '../lib/versions';
+import { hasPermission } from '../lib/sharing';
+import { getMissingStudents } from '../lib/roster';
 import { useAuth } from '../contexts/AuthContext';
-import { Quiz, Question, Response } from '../types/database';
+import { AttemptPolicy, Quiz, QuizPermission, Question, Response, RosterStudent } from '../types/database';
 import Navbar from '../components/Navbar';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Download, Users, Trophy, BarChart3, ArrowLeft } from 'lucide-react';
+import GradingQueue from '../components/GradingQueue';
+import ItemAnalysis from '../components/ItemAnalysis';
+import ScoreDistribution from '../components/ScoreDistribution';
+import { Download, Users, Trophy, BarChart3, ArrowLeft, ChevronDown, ChevronRight, FileSpreadsheet, Filter, UserX } from 'lucide-react';
 
 const QuizResults: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [versions, setVersions] = useState<VersionedQuestions>({});
   const [responses, setResponses] = useState<Response[]>([]);
   const [loading, setLoading] = useState(true);
+  const [expandedStudents, setExpandedStudents] = useState<Set<string>>(new Set());
+  const [exportFilters, setExportFilters] = useState<ExportFilters>(emptyExportFilters);
+  const [showExportFilters, setShowExportFilters] = useState(false);
+  const [permission, setPermission] = useState<QuizPermission | null>(null);
+  // Students on the rosters of the classes the quiz is assigned to
+  const [roster, setRoster] = useState<RosterStudent[]>([]);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -23,12 +43,17 @@ const QuizResults: React.FC = () => {
 
   const fetchData = async () => {
     try {
+      // Co-teachers with any permission can see results
+      const { data: permissionData, error: permissionError } = await supabase.rpc('quiz_permission', { p_quiz_id: id! });
+
+      if (permissionError) throw permissionError;
+      if (!permissionData) throw new Error('Quiz not found');
+
       // Fetch quiz
       const { data: quizData, error: quizError } = await supabase
         .from('quizzes')
         .select('*')
-        .eq('id', id)
-        .eq('created_by', user?.id)
+        .eq('id', id!)
         .single();
 
       if (quizError) throw quizError;
@@ -37,23 +62,54 @@ const QuizResults: React.FC = () => {
       const { data: questionsData, error: questionsError } = await supabase
         .from('questions')
         .select('*')
-        .eq('quiz_id', id)
+        .eq('quiz_id', id!)
         .order('order_index');
 
       if (questionsError) throw questionsError;
 
+      // Fetch the questions each response was answered against
+      const { data: versionsData, error: versionsError } = await supabase
+        .from('quiz_versions')
+        .select('*')
+        .eq('quiz_id', id!);
+
+      if (versionsError) throw versionsError;
+
       // Fetch responses
       const { data: responsesData, error: responsesError } = await supabase
         .from('responses')
         .select('*')
-        .eq('quiz_id', id)
+        .eq('quiz_id', id!)
         .order('submitted_at', { ascending: false });
 
       if (responsesError) throw responsesError;
 
+      // Fetch the rosters of the quiz's classes
+      const { data: classesData, error: classesError } = await supabase
+        .from('quiz_classes')
+        .select('class_id')
+        .eq('quiz_id', id!);
+
+      if (classesError) throw classesError;
+
+      const classIds = (classesData || []).map(row => row.class_id);
+      let rosterData: RosterStudent[] = [];
+      if (classIds.length > 0) {
+        const { data, error: rosterError } = await supabase
+          .from('class_students')
+          .select('*')
+          .in('class_id', classIds);
+
+        if (rosterError) throw rosterError;
+        rosterData = data || [];
+      }
+
       setQuiz(quizData);
+      setPermission(permissionData);
       setQuestions(questionsData);
+      setVersions(toVersionedQuestions(versionsData || []));
       setResponses(responsesData || []);
+      setRoster(rosterData);
     } catch (error) {
       console.error('Error fetching quiz results:', error);
     } finally {
@@ -61,67 +117,139 @@ const QuizResults: React.FC = () => {
     }
   };
 
+  const attemptPolicy: AttemptPolicy = quiz?.attempt_policy ?? 'best';
+  const studentAttempts = groupAttemptsByStudent(responses);
+  const analyzedResponses = studentAttempts.map(student =>
+    getCountedResult(student.attempts, attemptPolicy).attempt ?? student.attempts[0]
+  );
+  const countedPercentages = studentAttempts.map(student => getCountedResult(student.attempts, attemptPolicy).percentage);
+  const percentileRanks: { [key: string]: number } = Object.fromEntries(
+    studentAttempts.map((student, index) => [student.key, getPercentileRank(countedPercentages[index], countedPercentages)])
+  );
+  const missingStudents = getMissingStudents(roster, responses);
+
+  // Averages use one counted result per student, chosen by the attempt policy
   const calculateStats = () => {
     if (responses.length === 0) {
-      return { averageScore: 0, totalResponses: 0, averagePercentage: 0 };
+      return { averageScore: 0, averageMaxScore: getMaxScore(questions), totalResponses: 0, totalStudents: 0, averagePercentage: 0 };
     }
 
-    const totalScore = responses.reduce((sum, response) => sum + response.score, 0);
-    const averageScore = totalScore / responses.length;
-    const averagePercentage = (averageScore / questions.length) * 100;
+    const counted = studentAttempts.map(student => getCountedResult(student.attempts, attemptPolicy));
+    const averageScore = counted.reduce((sum, result) => sum + result.score, 0) / counted.length;
+    // Students drawing from a pool may have had different maximum scores
+    const averageMaxScore = counted.reduce((sum, result) => sum + result.total, 0) / counted.length;
+    const averagePercentage = counted.reduce((sum, result) => sum + result.percentage, 0) / counted.length;
 
     return {
       averageScore: Math.round(averageScore * 10) / 10,
+      averageMaxScore,
       totalResponses: responses.length,
+      totalStudents: studentAttempts.length,
       averagePercentage: Math.round(averagePercentage)
     };
   };
 
-  const exportToCSV = () => {
-    if (responses.length === 0) {
-      alert('No responses to export');
-      return;
+  const updateAttemptPolicy = async (policy: AttemptPolicy) => {
+    if (!quiz) return;
+    try {
+      const { error } = await supabase
+        .from('quizzes')
+        .update({ attempt_policy: policy })
+        .eq('id', quiz.id);
+
+      if (error) throw error;
+
+      setQuiz({ ...quiz, attempt_policy: policy });
+    } catch (error) {
+      console.error('Error updating attempt policy:', error);
+      alert('Failed to update which attempt counts. Please try again.');
+    }
+  };
+
+  const handleGraded = (graded: Response) => {
+    setResponses(responses.map(response => (response.id === graded.id ? graded : response)));
+  };
+
+  const toggleStudent = (key: string) => {
+    const next = new Set(expandedStudents);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
     }
+    setExpandedStudents(next);
+  };
 
-    const headers = [
-      'Student Name',
-      'Email',
-      'Register Number',
-      'Score',
-      'Total Questions',
-      'Percentage',
-      'Submitted At',
-      ...questions.map((_, index) => `Question ${index + 1}`)
-    ];
-
-    const rows = responses.map(response => {
-      const percentage = Math.round((response.score / response.total_questions) * 100);
-      return [
-        response.student_name,
-        response.student_email,
-        response.student_register_number,
-        response.score,
-        response.total_questions,
-        `${percentage}%`,
-        new Date(response.submitted_at).toLocaleString(),
-        ...response.answers
-      ];
-    });
-
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
-    ].join('\n');
+  const percentageBadgeClass = (percentage: number) =>
+    percentage >= 80
+      ? 'bg-green-100 text-green-800'
+      : percentage >= 60
+      ? 'bg-yellow-100 text-yellow-800'
+      : 'bg-red-100 text-red-800';
+
+  const describeCredit = (points: number | null | undefined, maxPoints: number) => {
+    if (points === undefined) return '';
+    if (points === null) return '⏳ Pending review';
+    if (points >= maxPoints) return `✓ Correct (${formatPoints(points)} pts)`;
+    if (points > 0) return `◐ Partially correct (${formatPoints(points)}/${formatPoints(maxPoints)} pts)`;
+    return `✗ Incorrect (${formatPoints(points)} pts)`;
+  };
+
+  const questionsFor = (response: Response) => getResponseQuestions(response, versions, questions);
+
+  const showResponseDetails = (response: Response) => {
+    const responseQuestions = questionsFor(response);
+    const positions = getServedPositions(response, responseQuestions.length);
+    const details = responseQuestions.map((question, index) => {
+      const servedAt = positions.indexOf(index);
+      if (servedAt === -1) {
+        return `${index + 1}. ${question.question_text}\nNot part of this attempt`;
+      }
+
+      const shownAs = servedAt !== index ? ` (shown as question ${servedAt + 1})` : '';
+      const correctAnswer = question.question_type === 'essay'
+        ? ''
+        : `\nCorrect Answer: ${formatAnswer(getCorrectAnswer(question))}`;
+      const feedback = response.question_feedback[index] ? `\nFeedback: ${response.question_feedback[index]}` : '';
+      return `${index + 1}. ${question.question_text}${shownAs}\nStudent Answer: ${formatAnswer(response.answers[index])}${correctAnswer}\n${describeCredit(response.question_scores[index], question.points)}${feedback}`;
+    }).join('\n\n');
+    
+    alert(`Detailed Response for ${response.student_name}\n\n${details}`);
+  };
+
+  const exportRows = () => buildResultsSheets({
+    quiz: quiz!,
+    questions,
+    questionColumns: getQuestionColumns(questions, versions),
+    responses,
+    attemptPolicy,
+    questionsFor,
+    filters: exportFilters
+  });
+
+  const hasExportableResponses = () => {
+    if (filterResponses(responses, exportFilters).length === 0) {
+      alert(hasExportFilters(exportFilters) ? 'No responses match the export filters' : 'No responses to export');
+      return false;
+    }
+    return true;
+  };
+
+  const exportToCSV = () => {
+    if (!hasExportableResponses()) return;
+
+    // Responses first, then the summary and item analysis after blank lines
+    const [summary, responseRows, items] = exportRows();
+    const csvContent = toCsv([...responseRows.rows, [], ['Summary'], ...summary.rows, [], ...items.rows]);
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${quiz?.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_results.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(blob, `${toFileName(quiz?.title ?? 'quiz')}_results.csv`);
+  };
+
+  const exportToExcel = () => {
+    if (!hasExportableResponses()) return;
+
+    downloadBlob(buildXlsx(exportRows()), `${toFileName(quiz?.title ?? 'quiz')}_results.xlsx`);
   };
 
   const stats = calculateStats();
@@ -176,15 +304,109 @@ const QuizResults: React.FC = () => {
               Created on {new Date(quiz.created_at).toLocaleDateString()}
             </div>
             {responses.length > 0 && (
-              <button
-                onClick={exportToCSV}
-                className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
-              >
-                <Download className="h-5 w-5" />
-                Export CSV
-              </button>
+              <div className="flex flex-wrap justify-end gap-2">
+                <button
+                  onClick={() => setShowExportFilters(!showExportFilters)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+                    hasExportFilters(exportFilters)
+                      ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <Filter className="h-5 w-5" />
+                  Export Filters
+                </button>
+                <button
+                  onClick={exportToCSV}
+                  className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  <Download className="h-5 w-5" />
+                  Export CSV
+                </button>
+                <button
+                  onClick={exportToExcel}
+                  className="bg-emerald-700 hover:bg-emerald-800 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  <FileSpreadsheet className="h-5 w-5" />
+                  Export Excel
+                </button>
+              </div>
             )}
           </div>
+
+          {showExportFilters && responses.length > 0 && (
+            <div className="mt-4 bg-white rounded-lg shadow-md p-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <label htmlFor="submittedFrom" className="block text-sm font-medium text-gray-700 mb-1">
+                    Submitted From
+                  </label>
+                  <input
+                    type="date"
+                    id="submittedFrom"
+                    value={exportFilters.submittedFrom}
+                    onChange={(e) => setExportFilters({ ...exportFilters, submittedFrom: e.target.value })}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="submittedTo" className="block text-sm font-medium text-gray-700 mb-1">
+                    Submitted To
+                  </label>
+                  <input
+                    type="date"
+                    id="submittedTo"
+                    value={exportFilters.submittedTo}
+                    onChange={(e) => setExportFilters({ ...exportFilters, submittedTo: e.target.value })}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="minPercentage" className="block text-sm font-medium text-gray-700 mb-1">
+                    Minimum Score %
+                  </label>
+                  <input
+                    type="number"
+                    id="minPercentage"
+                    min={0}
+                    max={100}
+                    value={exportFilters.minPercentage}
+                    onChange={(e) => setExportFilters({ ...exportFilters, minPercentage: e.target.value })}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="0"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxPercentage" className="block text-sm font-medium text-gray-700 mb-1">
+                    Maximum Score %
+                  </label>
+                  <input
+                    type="number"
+                    id="maxPercentage"
+                    min={0}
+                    max={100}
+                    value={exportFilters.maxPercentage}
+                    onChange={(e) => setExportFilters({ ...exportFilters, maxPercentage: e.target.value })}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="100"
+                  />
+                </div>
+              </div>
+              <div className="mt-3 flex items-center justify-between text-sm">
+                <span className="text-gray-600">
+                  {filterResponses(responses, exportFilters).length} of {responses.length} responses will be exported
+                </span>
+                {hasExportFilters(exportFilters) && (
+                  <button
+                    onClick={() => setExportFilters(emptyExportFilters)}
+                    className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Stats Cards */}
@@ -197,6 +419,9 @@ const QuizResults: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Total Responses</p>
                 <p className="text-3xl font-bold text-gray-900">{stats.totalResponses}</p>
+                {stats.totalStudents !== stats.totalResponses && (
+                  <p className="text-xs text-gray-500">from {stats.totalStudents} students</p>
+                )}
               </div>
             </div>
           </div>
@@ -209,7 +434,7 @@ const QuizResults: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Average Score</p>
                 <p className="text-3xl font-bold text-gray-900">
-                  {stats.averageScore}/{questions.length}
+                  {stats.averageScore}/{formatPoints(stats.averageMaxScore)}
                 </p>
               </div>
             </div>
@@ -228,10 +453,34 @@ const QuizResults: React.FC = () => {
           </div>
         </div>
 
+        <ScoreDistribution percentages={countedPercentages} />
+
+        {hasPermission(permission, 'editor') && (
+          <GradingQueue questionsFor={questionsFor} responses={responses} onGraded={handleGraded} />
+        )}
+
+        <ItemAnalysis questions={questions} responses={analyzedResponses} questionsFor={questionsFor} />
+
         {/* Responses Table */}
         <div className="bg-white rounded-lg shadow-md overflow-hidden">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
             <h2 className="text-lg font-semibold text-gray-900">Student Responses</h2>
+            <div className="flex items-center gap-2">
+              <label htmlFor="attemptPolicy" className="text-sm text-gray-600">
+                Counts towards results:
+              </label>
+              <select
+                id="attemptPolicy"
+                value={attemptPolicy}
+                onChange={(e) => updateAttemptPolicy(e.target.value as AttemptPolicy)}
+                disabled={!hasPermission(permission, 'editor')}
+                className="border border-gray-300 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {(Object.keys(attemptPolicyLabels) as AttemptPolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{attemptPolicyLabels[policy]}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {responses.length === 0 ? (
@@ -260,67 +509,151 @@ const QuizResults: React.FC = () => {
                     <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Student
                     </th>
+                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Attempts
+                    </th>
                     <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Score
                     </th>
                     <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Percentage
                     </th>
+                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Percentile
+                    </th>
                     <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Submitted
                     </th>
+                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Time Taken
+                    </th>
                     <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
                     </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {responses.map((response) => {
-                    const percentage = Math.round((response.score / response.total_questions) * 100);
+                  {studentAttempts.map((student) => {
+                    const counted = getCountedResult(student.attempts, attemptPolicy);
+                    const shown = counted.attempt ?? student.attempts[0];
+                    const percentage = Math.round(counted.percentage);
+                    const timeTaken = getTimeTaken(shown);
+                    const expanded = expandedStudents.has(student.key);
                     return (
-                      <tr key={response.id} className="hover:bg-gray-50">
-                        <td className="px-3 sm:px-6 py-4">
-                          <div>
-                            <div className="text-sm font-medium text-gray-900 break-words">{response.student_name}</div>
-                            <div className="text-sm text-gray-500 break-words">{response.student_email}</div>
-                            <div className="text-xs text-gray-400 break-words">{response.student_register_number}</div>
-                          </div>
-                        </td>
-                        <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900 font-medium">
-                            {response.score}/{response.total_questions}
-                          </div>
-                        </td>
-                        <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            percentage >= 80
-                              ? 'bg-green-100 text-green-800'
-                              : percentage >= 60
-                              ? 'bg-yellow-100 text-yellow-800'
-                              : 'bg-red-100 text-red-800'
-                          }`}>
-                            {percentage}%
-                          </span>
-                        </td>
-                        <td className="px-3 sm:px-6 py-4 text-sm text-gray-500">
-                          <div className="break-words">{new Date(response.submitted_at).toLocaleDateString()}</div>
-                          <div className="text-xs text-gray-400">{new Date(response.submitted_at).toLocaleTimeString()}</div>
-                        </td>
-                        <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <button
-                            onClick={() => {
-                              const details = questions.map((question, index) => 
-                                `${index + 1}. ${question.question_text}\nStudent Answer: ${response.answers[index]}\nCorrect Answer: ${question.correct_answer}\n${response.answers[index] === question.correct_answer ? '✓ Correct' : '✗ Incorrect'}`
-                              ).join('\n\n');
-                              
-                              alert(`Detailed Response for ${response.student_name}\n\n${details}`);
-                            }}
-                            className="text-blue-600 hover:text-blue-900 transition-colors"
-                          >
-                            View Details
-                          </button>
-                        </td>
-                      </tr>
+                      <React.Fragment key={student.key}>
+                        <tr className="hover:bg-gray-50">
+                          <td className="px-3 sm:px-6 py-4">
+                            <div>
+                              <div className="text-sm font-medium text-gray-900 break-words">{student.studentName}</div>
+                              <div className="text-sm text-gray-500 break-words">{student.studentEmail}</div>
+                              <div className="text-xs text-gray-400 break-words">{student.studentRegisterNumber}</div>
+                            </div>
+                          </td>
+                          <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {student.attempts.length > 1 ? (
+                              <button
+                                onClick={() => toggleStudent(student.key)}
+                                className="flex items-center gap-1 text-blue-600 hover:text-blue-900 transition-colors"
+                              >
+                                {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                {student.attempts.length}
+                              </button>
+                            ) : (
+                              1
+                            )}
+                          </td>
+                          <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900 font-medium">
+                              {formatPoints(counted.score)}/{formatPoints(counted.total)}
+                            </div>
+                            {student.attempts.some(response => response.needs_grading) && (
+                              <div className="text-xs text-amber-700">Pending review</div>
+                            )}
+                          </td>
+                          <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${percentageBadgeClass(percentage)}`}>
+                              {percentage}%
+                            </span>
+                          </td>
+                          <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatOrdinal(percentileRanks[student.key])}
+                          </td>
+                          <td className="px-3 sm:px-6 py-4 text-sm text-gray-500">
+                            <div className="break-words">{new Date(shown.submitted_at).toLocaleDateString()}</div>
+                            <div className="text-xs text-gray-400">{new Date(shown.submitted_at).toLocaleTimeString()}</div>
+                            {shown.access_code && (
+                              <div className="text-xs text-gray-400">Code <span className="font-mono">{shown.access_code}</span></div>
+                            )}
+                          </td>
+                          <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {timeTaken !== null ? formatDuration(timeTaken) : '—'}
+                            {shown.is_late && (
+                              <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                Late
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <button
+                              onClick={() => showResponseDetails(shown)}
+                              className="text-blue-600 hover:text-blue-900 transition-colors"
+                            >
+                              View Details
+                            </button>
+                          </td>
+                        </tr>
+                        {expanded && student.attempts.map((response, index) => {
+                          const attemptPercentage = Math.round(getPercentage(response.score, response.max_score));
+                          const attemptTimeTaken = getTimeTaken(response);
+                          return (
+                            <tr key={response.id} className="bg-gray-50">
+                              <td className="px-3 sm:px-6 py-3 pl-8 sm:pl-12 text-sm text-gray-600">
+                                Attempt {student.attempts.length - index}
+                                {counted.attempt?.id === response.id && (
+                                  <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                                    Counted
+                                  </span>
+                                )}
+                              </td>
+                              <td className="px-3 sm:px-6 py-3"></td>
+                              <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                                {formatPoints(response.score)}/{formatPoints(response.max_score)}
+                                {response.needs_grading && (
+                                  <div className="text-xs text-amber-700">Pending review</div>
+                                )}
+                              </td>
+                              <td className="px-3 sm:px-6 py-3 whitespace-nowrap">
+                                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${percentageBadgeClass(attemptPercentage)}`}>
+                                  {attemptPercentage}%
+                                </span>
+                              </td>
+                              <td className="px-3 sm:px-6 py-3"></td>
+                              <td className="px-3 sm:px-6 py-3 text-sm text-gray-500">
+                                {new Date(response.submitted_at).toLocaleString()}
+                                {response.access_code && (
+                                  <div className="text-xs text-gray-400">Code <span className="font-mono">{response.access_code}</span></div>
+                                )}
+                              </td>
+                              <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                                {attemptTimeTaken !== null ? formatDuration(attemptTimeTaken) : '—'}
+                                {response.is_late && (
+                                  <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                    Late
+                                  </span>
+                                )}
+                              </td>
+                              <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm font-medium">
+                                <button
+                                  onClick={() => showResponseDetails(response)}
+                                  className="text-blue-600 hover:text-blue-900 transition-colors"
+                                >
+                                  View Details
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </React.Fragment>
                     );
                   })}
                 </tbody>
@@ -328,6 +661,31 @@ const QuizResults: React.FC = () => {
             </div>
           )}
         </div>
+
+        {/* Rostered students who have not submitted */}
+        {roster.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden mt-8">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+              <UserX className="h-5 w-5 text-amber-600" />
+              <h2 className="text-lg font-semibold text-gray-900">Not Yet Submitted ({missingStudents.length})</h2>
+            </div>
+            {missingStudents.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-gray-600">Every student on the class rosters has submitted.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {missingStudents.map(student => (
+                  <li key={student.id} className="px-6 py-3 flex flex-col sm:flex-row sm:justify-between gap-1 text-sm">
+                    <span className="font-medium text-gray-900 break-words">{student.student_name}</span>
+                    <span className="text-gray-500 break-words">
+                      {student.student_register_number}
+                      {student.student_email && ` · ${student.student_email}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,16 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { Quiz, Question } from '../types/database';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDuration } from '../lib/format';
+import { hiddenReviewMessages } from '../lib/availability';
+import { formatAnswer, formatPoints, getPercentage, isAnswered, toCanonicalAnswers } from '../lib/questions';
+import { Answer, Quiz, StudentQuestion, GradedAnswer, QuizAttempt } from '../types/database';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { ChevronLeft, ChevronRight, Send, CheckCircle } from 'lucide-react';
+import StudentInfoForm from '../components/StudentInfoForm';
+import { ChevronLeft, ChevronRight, Send, CheckCircle, Clock, Play, Hourglass, KeyRound } from 'lucide-react';
 
 const TakeQuiz: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [quiz, setQuiz] = useState<Quiz | null>(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<StudentQuestion[]>([]);
+  const [questionCount, setQuestionCount] = useState(0);
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [answers, setAnswers] = useState<string[]>([]);
+  const [answers, setAnswers] = useState<Answer[]>([]);
   const [studentName, setStudentName] = useState('');
   const [studentEmail, setStudentEmail] = useState('');
   const [studentRegisterNumber, setStudentRegisterNumber] = useState('');
@@ -18,38 +24,132 @@ const TakeQuiz: React.FC = () => {
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [score, setScore] = useState(0);
+  const [maxScore, setMaxScore] = useState(0);
+  const [review, setReview] = useState<(GradedAnswer | null)[] | null>([]);
+  const [pendingReview, setPendingReview] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [questionTimeUsed, setQuestionTimeUsed] = useState<number[]>([]);
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
+  const [requiresAccessCode, setRequiresAccessCode] = useState(false);
+  const [accessCode, setAccessCode] = useState('');
+  const { user, profile } = useAuth();
+
+  // The latest fetchQuiz, so the load only reruns when the quiz id changes
+  const fetchQuizRef = useRef<() => Promise<void>>();
+  useEffect(() => {
+    fetchQuizRef.current = fetchQuiz;
+  });
 
   useEffect(() => {
     if (id) {
-      fetchQuiz();
+      fetchQuizRef.current?.();
     }
   }, [id]);
 
+  // Signed-in students don't have to type their details again
+  useEffect(() => {
+    if (!user) return;
+    setStudentName(prev => prev || profile?.full_name || '');
+    setStudentEmail(prev => prev || user.email || '');
+    setStudentRegisterNumber(prev => prev || profile?.register_number || '');
+  }, [user, profile]);
+
+  // Tick once a second while an attempt is in progress
+  useEffect(() => {
+    if (!attempt || submitted) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      setQuestionTimeUsed(prev => {
+        const next = [...prev];
+        next[currentQuestion] = (next[currentQuestion] || 0) + 1;
+        return next;
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [attempt, submitted, currentQuestion]);
+
+  // Look up remaining attempts for signed-in students; anonymous students
+  // only find out when they reach the limit
+  useEffect(() => {
+    setAttemptsRemaining(null);
+    if (!quiz?.max_attempts || attempt || !user) return;
+
+    const fetchAttemptsRemaining = async () => {
+      const { data, error } = await supabase.rpc('get_attempts_remaining', { p_quiz_id: id! });
+
+      if (error) {
+        console.error('Error checking remaining attempts:', error);
+        return;
+      }
+      setAttemptsRemaining(data);
+    };
+
+    fetchAttemptsRemaining();
+  }, [id, quiz, attempt, user]);
+
+  const timeRemaining = deadline !== null
+    ? Math.max(0, Math.ceil((deadline - now) / 1000))
+    : null;
+  // Once the quiz time limit runs out, answers are locked and the quiz can be
+  // submitted with questions left blank
+  const timeUp = timeRemaining === 0;
+
+  // The latest handleSubmit, so auto-submit sends the current answers
+  const handleSubmitRef = useRef<() => Promise<void>>();
+  useEffect(() => {
+    handleSubmitRef.current = handleSubmit;
+  });
+
+  // Auto-submit when the quiz time limit runs out
+  useEffect(() => {
+    if (timeUp) {
+      handleSubmitRef.current?.();
+    }
+  }, [timeUp]);
+
   const fetchQuiz = async () => {
     try {
       // Fetch quiz
       const { data: quizData, error: quizError } = await supabase
         .from('quizzes')
         .select('*')
-        .eq('id', id)
+        .eq('id', id!)
         .eq('is_active', true)
         .single();
 
       if (quizError) throw quizError;
 
-      // Fetch questions
-      const { data: questionsData, error: questionsError } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('quiz_id', id)
-        .order('order_index');
+      // Questions are only served once an attempt has drawn them
+      const { data: countData, error: countError } = await supabase
+        .rpc('count_served_questions', { p_quiz_id: id! });
+
+      if (countError) throw countError;
 
-      if (questionsError) throw questionsError;
+      const { data: codeData, error: codeError } = await supabase
+        .rpc('quiz_requires_access_code', { p_quiz_id: id! });
+
+      if (codeError) throw codeError;
+
+      const { data: rosterData, error: rosterError } = await supabase
+        .rpc('quiz_has_roster', { p_quiz_id: id! });
+
+      if (rosterError) throw rosterError;
 
       setQuiz(quizData);
-      setQuestions(questionsData);
-      setAnswers(new Array(questionsData.length).fill(''));
+      setQuestionCount(countData);
+      setRequiresAccessCode(codeData);
+
+      // Timed, attempt-limited, code-protected and class quizzes wait for
+      // the student to start them
+      if (!quizData.time_limit_minutes && !quizData.max_attempts && !codeData && !rosterData) {
+        await startAttempt(null);
+      }
     } catch (error) {
       console.error('Error fetching quiz:', error);
     } finally {
@@ -57,12 +157,98 @@ const TakeQuiz: React.FC = () => {
     }
   };
 
-  const handleAnswerChange = (answer: string) => {
+  const startAttempt = async (timeLimitMinutes: number | null) => {
+    // The code and roster are checked in the database before any
+    // questions are drawn
+    const { data, error } = await supabase.rpc('start_quiz_attempt', {
+      p_quiz_id: id!,
+      p_access_code: accessCode.trim() || undefined,
+      p_student_name: studentName.trim() || undefined,
+      p_student_email: studentEmail.trim() || undefined,
+      p_student_register_number: studentRegisterNumber.trim() || undefined
+    });
+
+    if (error) throw error;
+    // A wrong code returns no attempt rather than an error, so the failed
+    // try stays recorded for throttling
+    if (!data) throw new Error('Invalid access code');
+
+    // Fetch the questions drawn for this attempt, without their correct answers
+    const { data: questionsData, error: questionsError } = await supabase
+      .rpc('get_attempt_questions', { p_attempt_id: data.id });
+
+    if (questionsError) throw questionsError;
+
+    setQuestions(questionsData);
+    setAnswers(new Array(questionsData.length).fill(''));
+    setQuestionTimeUsed(new Array(questionsData.length).fill(0));
+    setAttempt(data);
+    setNow(Date.now());
+    if (timeLimitMinutes) {
+      // Count from when the server started the attempt, so reloading the page
+      // doesn't reset the clock
+      setDeadline(new Date(data.started_at).getTime() + timeLimitMinutes * 60 * 1000);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!studentName.trim() || !studentEmail.trim() || !studentRegisterNumber.trim()) {
+      alert('Please enter your name, email, and register number');
+      return;
+    }
+
+    if (requiresAccessCode && !accessCode.trim()) {
+      alert('Please enter the access code for this quiz');
+      return;
+    }
+
+    if (attemptsRemaining === 0) {
+      alert('You have no attempts remaining for this quiz');
+      return;
+    }
+
+    setStarting(true);
+    try {
+      await startAttempt(quiz?.time_limit_minutes ?? null);
+    } catch (error) {
+      console.error('Error starting quiz:', error);
+      if ((error as { message?: string }).message?.includes('Invalid access code')) {
+        alert('That access code is not correct. Please check it or ask your teacher.');
+      } else if ((error as { message?: string }).message?.includes('Too many incorrect access codes')) {
+        alert('Too many incorrect access codes were entered. Please wait a few minutes and try again.');
+      } else if ((error as { message?: string }).message?.includes('not on the class roster')) {
+        alert('Your details do not match the class roster for this quiz. Please check your name, email and register number or ask your teacher.');
+      } else {
+        alert('Failed to start quiz. Please try again.');
+      }
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const isQuestionExpired = (index: number) => {
+    const limit = questions[index]?.time_limit_seconds;
+    return !!limit && (questionTimeUsed[index] || 0) >= limit;
+  };
+
+  const handleAnswerChange = (answer: Answer) => {
+    if (timeUp || isQuestionExpired(currentQuestion)) return;
+
     const newAnswers = [...answers];
     newAnswers[currentQuestion] = answer;
     setAnswers(newAnswers);
   };
 
+  const toggleOption = (option: string) => {
+    const current = answers[currentQuestion];
+    const selected = Array.isArray(current) ? current : [];
+    handleAnswerChange(
+      selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option]
+    );
+  };
+
   const nextQuestion = () => {
     if (currentQuestion < questions.length - 1) {
       setCurrentQuestion(currentQuestion + 1);
@@ -75,51 +261,50 @@ const TakeQuiz: React.FC = () => {
     }
   };
 
-  const calculateScore = () => {
-    let correctAnswers = 0;
-    for (let i = 0; i < questions.length; i++) {
-      if (answers[i] === questions[i].correct_answer) {
-        correctAnswers++;
-      }
-    }
-    return correctAnswers;
-  };
-
   const handleSubmit = async () => {
+    if (!attempt || submitting || submitted) return;
 
     if (!studentName.trim() || !studentEmail.trim() || !studentRegisterNumber.trim()) {
       alert('Please enter your name, email, and register number');
       return;
     }
 
-    if (answers.some(answer => !answer.trim())) {
+    if (!timeUp && answers.some((answer, index) => !isAnswered(answer) && !isQuestionExpired(index))) {
       alert('Please answer all questions before submitting');
       return;
     }
 
     setSubmitting(true);
     try {
-      const calculatedScore = calculateScore();
-      const { error } = await supabase
-        .from('responses')
-        .insert({
-          quiz_id: id!,
-          student_name: studentName.trim(),
-          student_email: studentEmail.trim(),
-          student_register_number: studentRegisterNumber.trim(),
-          answers,
-          score: calculatedScore,
-          total_questions: questions.length
-        });
+      // Grading happens in the database; the returned row carries the score
+      const { data: result, error } = await supabase.rpc('submit_response', {
+        p_quiz_id: id!,
+        p_attempt_id: attempt.id,
+        p_student_name: studentName.trim(),
+        p_student_email: studentEmail.trim(),
+        p_student_register_number: studentRegisterNumber.trim(),
+        p_answers: toCanonicalAnswers(answers, questions)
+      });
 
       if (error) throw error;
 
-      setScore(calculatedScore);
+      setScore(result.response.score);
+      setMaxScore(result.response.max_score);
+      setReview(result.review);
+      setPendingReview(result.response.needs_grading);
       setSubmitted(true);
       setShowResults(true);
     } catch (error) {
       console.error('Error submitting quiz:', error);
-      alert('Failed to submit quiz. Please try again.');
+      if ((error as { message?: string }).message?.includes('Maximum number of attempts')) {
+        alert('You have already used all of your attempts for this quiz.');
+      } else if ((error as { message?: string }).message?.includes('still in the quiz')) {
+        alert('The questions in your attempt were removed from the quiz by your teacher. Please reload the page to start again.');
+      } else if ((error as { message?: string }).message?.includes('not on the class roster')) {
+        alert('Your details do not match the class roster for this quiz. Please check your name, email and register number or ask your teacher.');
+      } else {
+        alert('Failed to submit quiz. Please try again.');
+      }
     } finally {
       setSubmitting(false);
     }
@@ -133,12 +318,12 @@ const TakeQuiz: React.FC = () => {
     );
   }
 
-  if (!quiz || questions.length === 0) {
+  if (!quiz || questionCount === 0 || (attempt && questions.length === 0)) {
     return <Navigate to="/" replace />;
   }
 
   if (showResults) {
-    const percentage = Math.round((score / questions.length) * 100);
+    const percentage = Math.round(getPercentage(score, maxScore));
     
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -153,8 +338,8 @@ const TakeQuiz: React.FC = () => {
             <div className="bg-gray-50 rounded-lg p-8 mb-8">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div className="text-center">
-                  <div className="text-3xl font-bold text-blue-600 mb-2">{score}</div>
-                  <div className="text-gray-600">Correct Answers</div>
+                  <div className="text-3xl font-bold text-blue-600 mb-2">{formatPoints(score)}/{formatPoints(maxScore)}</div>
+                  <div className="text-gray-600">Points</div>
                 </div>
                 <div className="text-center">
                   <div className="text-3xl font-bold text-gray-900 mb-2">{questions.length}</div>
@@ -162,45 +347,173 @@ const TakeQuiz: React.FC = () => {
                 </div>
                 <div className="text-center">
                   <div className="text-3xl font-bold text-emerald-600 mb-2">{percentage}%</div>
-                  <div className="text-gray-600">Score</div>
+                  <div className="text-gray-600">{pendingReview ? 'Score so far' : 'Score'}</div>
                 </div>
               </div>
+              {pendingReview && (
+                <div className="mt-6 flex items-center justify-center gap-2 text-sm text-amber-700">
+                  <Hourglass className="h-4 w-4" />
+                  Pending review: some answers will be graded by your teacher, so your score may still change.
+                </div>
+              )}
             </div>
 
-            <div className="border-t pt-8">
-              <h2 className="text-xl font-semibold text-gray-900 mb-6">Review Your Answers</h2>
-              <div className="space-y-6 text-left">
-                {questions.map((question, index) => (
-                  <div key={question.id} className="border border-gray-200 rounded-lg p-4">
-                    <h3 className="font-medium text-gray-900 mb-3">
-                      {index + 1}. {question.question_text}
-                    </h3>
-                    
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">Your answer:</span>
-                        <span className={`text-sm font-medium ${
-                          answers[index] === question.correct_answer 
-                            ? 'text-green-600' 
-                            : 'text-red-600'
-                        }`}>
-                          {answers[index]}
-                          {answers[index] === question.correct_answer ? ' ✓' : ' ✗'}
-                        </span>
-                      </div>
-                      
-                      {answers[index] !== question.correct_answer && (
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm text-gray-600">Correct answer:</span>
-                          <span className="text-sm font-medium text-green-600">
-                            {question.correct_answer}
-                          </span>
+            {review ? (
+              <div className="border-t pt-8">
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Review Your Answers</h2>
+                <div className="space-y-6 text-left">
+                  {questions.map((question, index) => {
+                    // The review comes back in canonical order
+                    const graded = review[question.position];
+                    if (!graded) return null;
+
+                    const points = graded.points;
+                    const maxPoints = graded.max_points;
+                    const pending = points === null;
+                    return (
+                      <div key={question.id} className="border border-gray-200 rounded-lg p-4">
+                        <h3 className="font-medium text-gray-900 mb-3">
+                          {index + 1}. {question.question_text}
+                        </h3>
+
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between gap-4">
+                            <span className="text-sm text-gray-600 flex-shrink-0">Your answer:</span>
+                            <span className={`text-sm font-medium break-words whitespace-pre-wrap ${
+                              pending
+                                ? 'text-gray-700'
+                                : points >= maxPoints
+                                ? 'text-green-600'
+                                : points > 0
+                                ? 'text-amber-600'
+                                : 'text-red-600'
+                            }`}>
+                              {formatAnswer(answers[index])}
+                              {pending
+                                ? ''
+                                : points >= maxPoints
+                                ? ' ✓'
+                                : points > 0
+                                ? ` (${formatPoints(points)}/${formatPoints(maxPoints)} pts)`
+                                : points < 0
+                                ? ` ✗ (${formatPoints(points)} pts)`
+                                : ' ✗'}
+                            </span>
+                          </div>
+
+                          {pending && (
+                            <div className="flex items-center gap-2 text-sm text-amber-700">
+                              <Hourglass className="h-4 w-4" />
+                              Pending review
+                            </div>
+                          )}
+
+                          {!pending && points < maxPoints && graded.correct_answer !== null && (
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-gray-600">Correct answer:</span>
+                              <span className="text-sm font-medium text-green-600">
+                                {formatAnswer(graded.correct_answer)}
+                              </span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  </div>
-                ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : (
+              <div className="border-t pt-8 text-gray-600">
+                {hiddenReviewMessages[quiz.review_visibility]}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!attempt) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">{quiz.title}</h1>
+            {quiz.description && (
+              <p className="text-gray-600 text-lg leading-relaxed mb-6">{quiz.description}</p>
+            )}
+
+            {quiz.time_limit_minutes && (
+              <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-4 py-3 mb-6">
+                <Clock className="h-5 w-5 flex-shrink-0" />
+                <span>
+                  You have {quiz.time_limit_minutes} minute{quiz.time_limit_minutes === 1 ? '' : 's'} to
+                  complete {questionCount} question{questionCount === 1 ? '' : 's'}. The timer starts
+                  when you click Start Quiz and your answers are submitted automatically when it runs out.
+                </span>
+              </div>
+            )}
+
+            {quiz.max_attempts && (
+              <div className="text-gray-600 mb-6">
+                This quiz allows {quiz.max_attempts} attempt{quiz.max_attempts === 1 ? '' : 's'} per student.
+              </div>
+            )}
+
+            {requiresAccessCode && (
+              <div className="border-t pt-6 mb-6">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                  <KeyRound className="h-4 w-4" />
+                  Access Code *
+                </label>
+                <input
+                  type="text"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value.toUpperCase())}
+                  className="block w-full sm:w-56 border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono tracking-widest"
+                  placeholder="Enter the code"
+                  autoComplete="off"
+                />
+                <p className="text-sm text-gray-500 mt-1">Your teacher will give you the code for this quiz.</p>
               </div>
+            )}
+
+            <div className="border-t pt-6">
+              <StudentInfoForm
+                name={studentName}
+                email={studentEmail}
+                registerNumber={studentRegisterNumber}
+                onNameChange={setStudentName}
+                onEmailChange={setStudentEmail}
+                onRegisterNumberChange={setStudentRegisterNumber}
+              />
+            </div>
+
+            {attemptsRemaining !== null && (
+              <div className={`mt-6 rounded-lg px-4 py-3 ${
+                attemptsRemaining === 0
+                  ? 'bg-red-50 border border-red-200 text-red-800'
+                  : 'bg-blue-50 border border-blue-200 text-blue-800'
+              }`}>
+                {attemptsRemaining === 0
+                  ? 'You have no attempts remaining for this quiz.'
+                  : `You have ${attemptsRemaining} of ${quiz.max_attempts} attempt${quiz.max_attempts === 1 ? '' : 's'} remaining.`}
+              </div>
+            )}
+
+            <div className="flex justify-center mt-8">
+              <button
+                onClick={handleStart}
+                disabled={starting || attemptsRemaining === 0 || (requiresAccessCode && !accessCode.trim()) || !studentName.trim() || !studentEmail.trim() || !studentRegisterNumber.trim()}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-6 sm:px-8 py-2 sm:py-3 rounded-lg font-medium transition-colors text-sm sm:text-base"
+              >
+                {starting ? (
+                  <LoadingSpinner size="small" />
+                ) : (
+                  <Play className="h-5 w-5" />
+                )}
+                {starting ? 'Starting...' : 'Start Quiz'}
+              </button>
             </div>
           </div>
         </div>
@@ -208,12 +521,26 @@ const TakeQuiz: React.FC = () => {
     );
   }
 
+  const currentTimeLimit = questions[currentQuestion].time_limit_seconds;
+  const currentExpired = isQuestionExpired(currentQuestion);
+  const currentLocked = timeUp || currentExpired;
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Quiz Header */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">{quiz.title}</h1>
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4 mb-4">
+            <h1 className="text-3xl font-bold text-gray-900">{quiz.title}</h1>
+            {timeRemaining !== null && (
+              <div className={`flex items-center gap-2 px-3 py-2 rounded-lg font-mono text-lg font-semibold self-start ${
+                timeRemaining <= 60 ? 'bg-red-100 text-red-700' : 'bg-blue-50 text-blue-700'
+              }`}>
+                <Clock className="h-5 w-5" />
+                {formatDuration(timeRemaining)}
+              </div>
+            )}
+          </div>
           {quiz.description && (
             <p className="text-gray-600 text-lg leading-relaxed mb-6">{quiz.description}</p>
           )}
@@ -232,51 +559,17 @@ const TakeQuiz: React.FC = () => {
             </div>
           </div>
 
-          {/* Student Info (only on first question) */}
-          {currentQuestion === 0 && !submitted && (
+          {/* Student Info (only on first question of untimed quizzes) */}
+          {currentQuestion === 0 && !submitted && !quiz.time_limit_minutes && (
             <div className="border-t pt-6 mt-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Your Information</h3>
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Full Name *
-                  </label>
-                  <input
-                    type="text"
-                    value={studentName}
-                    onChange={(e) => setStudentName(e.target.value)}
-                    className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                    placeholder="Enter your name"
-                    required
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Email Address *
-                  </label>
-                  <input
-                    type="email"
-                    value={studentEmail}
-                    onChange={(e) => setStudentEmail(e.target.value)}
-                    className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                    placeholder="Enter your email"
-                    required
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Register Number *
-                  </label>
-                  <input
-                    type="text"
-                    value={studentRegisterNumber}
-                    onChange={(e) => setStudentRegisterNumber(e.target.value)}
-                    className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                    placeholder="Enter your register number"
-                    required
-                  />
-                </div>
-              </div>
+              <StudentInfoForm
+                name={studentName}
+                email={studentEmail}
+                registerNumber={studentRegisterNumber}
+                onNameChange={setStudentName}
+                onEmailChange={setStudentEmail}
+                onRegisterNumberChange={setStudentRegisterNumber}
+              />
             </div>
           )}
         </div>
@@ -286,24 +579,71 @@ const TakeQuiz: React.FC = () => {
           <h2 className="text-xl sm:text-2xl font-semibold text-gray-900 mb-4 sm:mb-6 break-words">
             {currentQuestion + 1}. {questions[currentQuestion].question_text}
           </h2>
+
+          {currentTimeLimit && (
+            <div className={`flex items-center gap-2 text-sm mb-4 ${currentExpired ? 'text-red-600' : 'text-gray-600'}`}>
+              <Clock className="h-4 w-4" />
+              {currentExpired
+                ? "Time's up for this question"
+                : `Time left for this question: ${formatDuration(currentTimeLimit - (questionTimeUsed[currentQuestion] || 0))}`}
+            </div>
+          )}
           
           <div className="space-y-4">
+            {questions[currentQuestion].question_type === 'multiple_select' && (
+              <p className="text-sm text-gray-600">Select all that apply.</p>
+            )}
             {questions[currentQuestion].options.map((option, optionIndex) => (
               <label
                 key={optionIndex}
-                className="flex items-start sm:items-center p-3 sm:p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 cursor-pointer transition-all duration-200"
+                className={`flex items-start sm:items-center p-3 sm:p-4 border border-gray-200 rounded-lg transition-all duration-200 ${
+                  currentLocked ? 'opacity-60 cursor-not-allowed' : 'hover:bg-blue-50 hover:border-blue-300 cursor-pointer'
+                }`}
               >
-                <input
-                  type="radio"
-                  name={`question-${currentQuestion}`}
-                  value={option}
-                  checked={answers[currentQuestion] === option}
-                  onChange={() => handleAnswerChange(option)}
-                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 flex-shrink-0 mt-0.5 sm:mt-0"
-                />
+                {questions[currentQuestion].question_type === 'multiple_select' ? (
+                  <input
+                    type="checkbox"
+                    value={option}
+                    checked={Array.isArray(answers[currentQuestion]) && answers[currentQuestion].includes(option)}
+                    onChange={() => toggleOption(option)}
+                    disabled={currentLocked}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded flex-shrink-0 mt-0.5 sm:mt-0"
+                  />
+                ) : (
+                  <input
+                    type="radio"
+                    name={`question-${currentQuestion}`}
+                    value={option}
+                    checked={answers[currentQuestion] === option}
+                    onChange={() => handleAnswerChange(option)}
+                    disabled={currentLocked}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 flex-shrink-0 mt-0.5 sm:mt-0"
+                  />
+                )}
                 <span className="ml-3 sm:ml-4 text-gray-900 text-base sm:text-lg break-words">{option}</span>
               </label>
             ))}
+            {questions[currentQuestion].question_type === 'essay' && (
+              <textarea
+                value={typeof answers[currentQuestion] === 'string' ? answers[currentQuestion] : ''}
+                onChange={(e) => handleAnswerChange(e.target.value)}
+                disabled={currentLocked}
+                rows={8}
+                className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-base focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                placeholder="Write your answer"
+              />
+            )}
+            {(questions[currentQuestion].question_type === 'short_answer' || questions[currentQuestion].question_type === 'numeric') && (
+              <input
+                type="text"
+                inputMode={questions[currentQuestion].question_type === 'numeric' ? 'decimal' : 'text'}
+                value={typeof answers[currentQuestion] === 'string' ? answers[currentQuestion] : ''}
+                onChange={(e) => handleAnswerChange(e.target.value)}
+                disabled={currentLocked}
+                className="block w-full border border-gray-300 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-base sm:text-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                placeholder={questions[currentQuestion].question_type === 'numeric' ? 'Enter a number' : 'Type your answer'}
+              />
+            )}
           </div>
         </div>
 
@@ -321,8 +661,8 @@ const TakeQuiz: React.FC = () => {
           <div className="flex gap-4 order-1 sm:order-2">
             {currentQuestion === questions.length - 1 ? (
               <button
-                onClick={handleSubmit}
-                disabled={submitting || !answers[currentQuestion] || !studentName.trim() || !studentEmail.trim() || !studentRegisterNumber.trim()}
+                onClick={() => handleSubmit()}
+                disabled={submitting || (!isAnswered(answers[currentQuestion]) && !currentLocked) || !studentName.trim() || !studentEmail.trim() || !studentRegisterNumber.trim()}
                 className="flex items-center gap-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-6 sm:px-8 py-2 sm:py-3 rounded-lg font-medium transition-colors text-sm sm:text-base"
               >
                 {submitting ? (
@@ -335,7 +675,7 @@ const TakeQuiz: React.FC = () => {
             ) : (
               <button
                 onClick={nextQuestion}
-                disabled={!answers[currentQuestion]}
+                disabled={!isAnswered(answers[currentQuestion]) && !currentLocked}
                 className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg font-medium transition-colors text-sm sm:text-base"
               >
                 Next
@@ -1,3 +1,28 @@
+export type AttemptPolicy = 'best' | 'latest' | 'average';
+
+export type ReviewVisibility = 'after_submit' | 'after_close' | 'never';
+
+export type QuestionType = 'single_choice' | 'multiple_select' | 'short_answer' | 'numeric' | 'essay';
+
+export type PartialCredit = 'none' | 'right_minus_wrong' | 'per_option';
+
+export type ToleranceMode = 'absolute' | 'relative';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type UserRole = 'teacher' | 'student' | 'admin';
+
+// What a teacher may do with a quiz: viewers see it and its results,
+// editors also change it and grade, owners also delete and share it
+export type QuizPermission = 'viewer' | 'editor' | 'owner';
+
+// A multiple-select answer is the list of chosen options; every other
+// question type is answered with a single string
+export type Answer = string | string[];
+
+// Questions drawn per attempt, keyed by section name
+export type SectionDrawCounts = { [section: string]: number };
+
 export interface Database {
   public: {
     Tables: {
@@ -9,6 +34,18 @@ export interface Database {
           created_by: string;
           created_at: string;
           is_active: boolean;
+          time_limit_minutes: number | null;
+          opens_at: string | null;
+          closes_at: string | null;
+          max_attempts: number | null;
+          attempt_policy: AttemptPolicy;
+          shuffle_questions: boolean;
+          shuffle_options: boolean;
+          questions_per_attempt: number | null;
+          section_draw_counts: SectionDrawCounts;
+          review_visibility: ReviewVisibility;
+          version: number;
+          is_template: boolean;
         };
         Insert: {
           id?: string;
@@ -17,6 +54,18 @@ export interface Database {
           created_by: string;
           created_at?: string;
           is_active?: boolean;
+          time_limit_minutes?: number | null;
+          opens_at?: string | null;
+          closes_at?: string | null;
+          max_attempts?: number | null;
+          attempt_policy?: AttemptPolicy;
+          shuffle_questions?: boolean;
+          shuffle_options?: boolean;
+          questions_per_attempt?: number | null;
+          section_draw_counts?: SectionDrawCounts;
+          review_visibility?: ReviewVisibility;
+          version?: number;
+          is_template?: boolean;
         };
         Update: {
           id?: string;
@@ -25,7 +74,20 @@ export interface Database {
           created_by?: string;
           created_at?: string;
           is_active?: boolean;
+          time_limit_minutes?: number | null;
+          opens_at?: string | null;
+          closes_at?: string | null;
+          max_attempts?: number | null;
+          attempt_policy?: AttemptPolicy;
+          shuffle_questions?: boolean;
+          shuffle_options?: boolean;
+          questions_per_attempt?: number | null;
+          section_draw_counts?: SectionDrawCounts;
+          review_visibility?: ReviewVisibility;
+          version?: number;
+          is_template?: boolean;
         };
+        Relationships: [];
       };
       questions: {
         Row: {
@@ -35,6 +97,17 @@ export interface Database {
           options: string[];
           correct_answer: string;
           order_index: number;
+          time_limit_seconds: number | null;
+          question_type: QuestionType;
+          correct_answers: string[];
+          partial_credit: PartialCredit;
+          answer_pattern: string | null;
+          tolerance: number;
+          tolerance_mode: ToleranceMode;
+          points: number;
+          negative_points: number;
+          section: string | null;
+          bank_question_id: string | null;
         };
         Insert: {
           id?: string;
@@ -43,6 +116,17 @@ export interface Database {
           options: string[];
           correct_answer: string;
           order_index: number;
+          time_limit_seconds?: number | null;
+          question_type?: QuestionType;
+          correct_answers?: string[];
+          partial_credit?: PartialCredit;
+          answer_pattern?: string | null;
+          tolerance?: number;
+          tolerance_mode?: ToleranceMode;
+          points?: number;
+          negative_points?: number;
+          section?: string | null;
+          bank_question_id?: string | null;
         };
         Update: {
           id?: string;
@@ -51,7 +135,19 @@ export interface Database {
           options?: string[];
           correct_answer?: string;
           order_index?: number;
+          time_limit_seconds?: number | null;
+          question_type?: QuestionType;
+          correct_answers?: string[];
+          partial_credit?: PartialCredit;
+          answer_pattern?: string | null;
+          tolerance?: number;
+          tolerance_mode?: ToleranceMode;
+          points?: number;
+          negative_points?: number;
+          section?: string | null;
+          bank_question_id?: string | null;
         };
+        Relationships: [];
       };
       responses: {
         Row: {
@@ -60,10 +156,21 @@ export interface Database {
           student_name: string;
           student_email: string;
           student_register_number: string;
-          answers: string[];
+          answers: Answer[];
           score: number;
           total_questions: number;
           submitted_at: string;
+          started_at: string | null;
+          is_late: boolean;
+          question_scores: (number | null)[];
+          needs_grading: boolean;
+          question_feedback: (string | null)[];
+          max_score: number;
+          question_order: number[];
+          option_orders: number[][];
+          quiz_version: number;
+          student_id: string | null;
+          access_code: string | null;
         };
         Insert: {
           id?: string;
@@ -71,10 +178,21 @@ export interface Database {
           student_name: string;
           student_email: string;
           student_register_number: string;
-          answers: string[];
+          answers: Answer[];
           score: number;
           total_questions: number;
           submitted_at?: string;
+          started_at?: string | null;
+          is_late?: boolean;
+          question_scores?: (number | null)[];
+          needs_grading?: boolean;
+          question_feedback?: (string | null)[];
+          max_score?: number;
+          question_order?: number[];
+          option_orders?: number[][];
+          quiz_version?: number;
+          student_id?: string | null;
+          access_code?: string | null;
         };
         Update: {
           id?: string;
@@ -82,12 +200,449 @@ export interface Database {
           student_name?: string;
           student_email?: string;
           student_register_number?: string;
-          answers?: string[];
+          answers?: Answer[];
           score?: number;
           total_questions?: number;
           submitted_at?: string;
+          started_at?: string | null;
+          is_late?: boolean;
+          question_scores?: (number | null)[];
+          needs_grading?: boolean;
+          question_feedback?: (string | null)[];
+          max_score?: number;
+          question_order?: number[];
+          option_orders?: number[][];
+          quiz_version?: number;
+          student_id?: string | null;
+          access_code?: string | null;
+        };
+        Relationships: [];
+      };
+      quiz_attempts: {
+        Row: {
+          id: string;
+          quiz_id: string;
+          started_at: string;
+          submitted_at: string | null;
+          question_order: number[];
+          option_orders: number[][];
+          quiz_version: number;
+          access_code: string | null;
+        };
+        Insert: {
+          id?: string;
+          quiz_id: string;
+          started_at?: string;
+          submitted_at?: string | null;
+          question_order?: number[];
+          option_orders?: number[][];
+          quiz_version?: number;
+          access_code?: string | null;
+        };
+        Update: {
+          id?: string;
+          quiz_id?: string;
+          started_at?: string;
+          submitted_at?: string | null;
+          question_order?: number[];
+          option_orders?: number[][];
+          quiz_version?: number;
+          access_code?: string | null;
+        };
+        Relationships: [];
+      };
+      bank_questions: {
+        Row: {
+          id: string;
+          created_by: string;
+          question_text: string;
+          question_type: QuestionType;
+          options: string[];
+          correct_answer: string;
+          correct_answers: string[];
+          partial_credit: PartialCredit;
+          answer_pattern: string | null;
+          tolerance: number;
+          tolerance_mode: ToleranceMode;
+          tags: string[];
+          difficulty: Difficulty | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          created_by: string;
+          question_text: string;
+          question_type?: QuestionType;
+          options?: string[];
+          correct_answer?: string;
+          correct_answers?: string[];
+          partial_credit?: PartialCredit;
+          answer_pattern?: string | null;
+          tolerance?: number;
+          tolerance_mode?: ToleranceMode;
+          tags?: string[];
+          difficulty?: Difficulty | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          created_by?: string;
+          question_text?: string;
+          question_type?: QuestionType;
+          options?: string[];
+          correct_answer?: string;
+          correct_answers?: string[];
+          partial_credit?: PartialCredit;
+          answer_pattern?: string | null;
+          tolerance?: number;
+          tolerance_mode?: ToleranceMode;
+          tags?: string[];
+          difficulty?: Difficulty | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      quiz_versions: {
+        Row: {
+          id: string;
+          quiz_id: string;
+          version: number;
+          questions: Question[];
+          created_by: string | null;
+          created_at: string;
+          settings: QuizSettings;
+          author_email: string | null;
+          restored_from: number | null;
+        };
+        Insert: {
+          id?: string;
+          quiz_id: string;
+          version: number;
+          questions?: Question[];
+          created_by?: string | null;
+          created_at?: string;
+          settings?: QuizSettings;
+          author_email?: string | null;
+          restored_from?: number | null;
+        };
+        Update: {
+          id?: string;
+          quiz_id?: string;
+          version?: number;
+          questions?: Question[];
+          created_by?: string | null;
+          created_at?: string;
+          settings?: QuizSettings;
+          author_email?: string | null;
+          restored_from?: number | null;
+        };
+        Relationships: [];
+      };
+      profiles: {
+        Row: {
+          id: string;
+          role: UserRole;
+          full_name: string | null;
+          register_number: string | null;
+          created_at: string;
+          is_active: boolean;
+        };
+        Insert: {
+          id: string;
+          role?: UserRole;
+          full_name?: string | null;
+          register_number?: string | null;
+          created_at?: string;
+          is_active?: boolean;
+        };
+        Update: {
+          id?: string;
+          role?: UserRole;
+          full_name?: string | null;
+          register_number?: string | null;
+          created_at?: string;
+          is_active?: boolean;
+        };
+        Relationships: [];
+      };
+      quiz_collaborators: {
+        Row: {
+          quiz_id: string;
+          user_id: string;
+          permission: QuizPermission;
+          added_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          quiz_id: string;
+          user_id: string;
+          permission: QuizPermission;
+          added_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          quiz_id?: string;
+          user_id?: string;
+          permission?: QuizPermission;
+          added_by?: string | null;
+          created_at?: string;
         };
+        Relationships: [];
       };
+      classes: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      class_students: {
+        Row: {
+          id: string;
+          class_id: string;
+          student_name: string;
+          student_email: string;
+          student_register_number: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          class_id: string;
+          student_name: string;
+          student_email?: string;
+          student_register_number: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          class_id?: string;
+          student_name?: string;
+          student_email?: string;
+          student_register_number?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      quiz_classes: {
+        Row: {
+          quiz_id: string;
+          class_id: string;
+        };
+        Insert: {
+          quiz_id: string;
+          class_id: string;
+        };
+        Update: {
+          quiz_id?: string;
+          class_id?: string;
+        };
+        Relationships: [];
+      };
+      quiz_access_codes: {
+        Row: {
+          quiz_id: string;
+          code: string;
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          quiz_id: string;
+          code: string;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          quiz_id?: string;
+          code?: string;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      get_attempts_remaining: {
+        Args: {
+          p_quiz_id: string;
+        };
+        Returns: number | null;
+      };
+      get_my_attempts: {
+        Args: Record<string, never>;
+        Returns: MyAttempt[];
+      };
+      grade_essay: {
+        Args: {
+          p_response_id: string;
+          p_question_index: number;
+          p_points: number;
+          p_feedback: string;
+        };
+        Returns: Response;
+      };
+      count_served_questions: {
+        Args: {
+          p_quiz_id: string;
+        };
+        Returns: number;
+      };
+      get_attempt_questions: {
+        Args: {
+          p_attempt_id: string;
+        };
+        Returns: StudentQuestion[];
+      };
+      save_quiz: {
+        Args: {
+          p_quiz_id: string;
+          // Settings left out keep their current value
+          p_settings: Partial<QuizSettings>;
+          // Rows without an id are inserted; saved questions left out are deleted
+          p_questions: (Omit<Question, 'id'> & { id: string | null })[];
+        };
+        Returns: number;
+      };
+      duplicate_quiz: {
+        Args: {
+          p_quiz_id: string;
+          p_title: string;
+        };
+        // Id of the new quiz
+        Returns: string;
+      };
+      restore_quiz_version: {
+        Args: {
+          p_quiz_id: string;
+          p_version: number;
+        };
+        Returns: number;
+      };
+      start_quiz_attempt: {
+        Args: {
+          p_quiz_id: string;
+          // Required when the quiz has an access code
+          p_access_code?: string;
+          // Required when the quiz is assigned to a class
+          p_student_name?: string;
+          p_student_email?: string;
+          p_student_register_number?: string;
+        };
+        // Null when the access code is wrong
+        Returns: QuizAttempt | null;
+      };
+      submit_response: {
+        Args: {
+          p_quiz_id: string;
+          p_attempt_id: string;
+          p_student_name: string;
+          p_student_email: string;
+          p_student_register_number: string;
+          p_answers: Answer[];
+        };
+        Returns: SubmissionResult;
+      };
+      get_teachers: {
+        Args: Record<string, never>;
+        Returns: TeacherAccount[];
+      };
+      grant_teacher_role: {
+        Args: {
+          p_email: string;
+        };
+        Returns: undefined;
+      };
+      reassign_quiz: {
+        Args: {
+          p_quiz_id: string;
+          p_owner_id: string;
+        };
+        Returns: undefined;
+      };
+      set_account_active: {
+        Args: {
+          p_user_id: string;
+          p_active: boolean;
+        };
+        Returns: undefined;
+      };
+      quiz_permission: {
+        Args: {
+          p_quiz_id: string;
+        };
+        Returns: QuizPermission | null;
+      };
+      get_quiz_collaborators: {
+        Args: {
+          p_quiz_id: string;
+        };
+        Returns: QuizCollaborator[];
+      };
+      share_quiz: {
+        Args: {
+          p_quiz_id: string;
+          p_email: string;
+          p_permission: QuizPermission;
+        };
+        Returns: undefined;
+      };
+      unshare_quiz: {
+        Args: {
+          p_quiz_id: string;
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      quiz_has_roster: {
+        Args: {
+          p_quiz_id: string;
+        };
+        Returns: boolean;
+      };
+      quiz_requires_access_code: {
+        Args: {
+          p_quiz_id: string;
+        };
+        Returns: boolean;
+      };
+      rotate_quiz_access_code: {
+        Args: {
+          p_quiz_id: string;
+        };
+        // The new code
+        Returns: string;
+      };
+      remove_quiz_access_code: {
+        Args: {
+          p_quiz_id: string;
+        };
+        Returns: undefined;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
 }
@@ -99,9 +654,41 @@ export interface Quiz {
   created_by: string;
   created_at: string;
   is_active: boolean;
+  time_limit_minutes: number | null;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_attempts: number | null;
+  attempt_policy: AttemptPolicy;
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  // Questions outside any section drawn per attempt; all when null
+  questions_per_attempt: number | null;
+  section_draw_counts: SectionDrawCounts;
+  // When students see the correct answers, marks and feedback
+  review_visibility: ReviewVisibility;
+  // Bumped whenever the questions change; 0 until they are first saved
+  version: number;
+  // Offered as a starting point in CreateQuiz
+  is_template: boolean;
   questions?: Question[];
 }
 
+// Quiz fields that are saved with each version
+export type QuizSettings = Pick<
+  Quiz,
+  | 'title'
+  | 'description'
+  | 'time_limit_minutes'
+  | 'opens_at'
+  | 'closes_at'
+  | 'max_attempts'
+  | 'shuffle_questions'
+  | 'shuffle_options'
+  | 'questions_per_attempt'
+  | 'section_draw_counts'
+  | 'review_visibility'
+>;
+
 export interface Question {
   id: string;
   quiz_id: string;
@@ -109,16 +696,196 @@ export interface Question {
   options: string[];
   correct_answer: string;
   order_index: number;
+  time_limit_seconds: number | null;
+  question_type: QuestionType;
+  correct_answers: string[];
+  partial_credit: PartialCredit;
+  answer_pattern: string | null;
+  tolerance: number;
+  tolerance_mode: ToleranceMode;
+  points: number;
+  // Deducted when an answered question earns no credit
+  negative_points: number;
+  section: string | null;
+  // Set while the question's content is kept in sync with a bank question
+  bank_question_id: string | null;
+}
+
+// Content fields shared by quiz questions and bank questions
+export type QuestionContent = Pick<
+  Question,
+  | 'question_text'
+  | 'question_type'
+  | 'options'
+  | 'correct_answer'
+  | 'correct_answers'
+  | 'partial_credit'
+  | 'answer_pattern'
+  | 'tolerance'
+  | 'tolerance_mode'
+>;
+
+export interface BankQuestion extends QuestionContent {
+  id: string;
+  created_by: string;
+  tags: string[];
+  difficulty: Difficulty | null;
+  created_at: string;
+  updated_at: string;
 }
 
-export interface Response {
+// A quiz as saved at one version
+export interface QuizVersion {
   id: string;
   quiz_id: string;
+  version: number;
+  // In canonical answer order
+  questions: Question[];
+  settings: QuizSettings;
+  created_by: string | null;
+  author_email: string | null;
+  // Version that was restored to create this one
+  restored_from: number | null;
+  created_at: string;
+}
+
+// Question being authored in CreateQuiz/EditQuiz before it is saved
+export type QuestionDraft = Omit<Question, 'id' | 'quiz_id'>;
+
+export interface Response extends ServedOrder {
+  id: string;
+  quiz_id: string;
+  // Signed-in user who submitted the response
+  student_id: string | null;
   student_name: string;
   student_email: string;
   student_register_number: string;
-  answers: string[];
+  answers: Answer[];
   score: number;
+  // Points earned per question; null while an essay waits to be graded
+  question_scores: (number | null)[];
+  question_feedback: (string | null)[];
+  needs_grading: boolean;
   total_questions: number;
+  // Points available when the response was submitted
+  max_score: number;
   submitted_at: string;
-}
\ No newline at end of file
+  started_at: string | null;
+  is_late: boolean;
+  // Quiz version the answers line up with
+  quiz_version: number;
+  // Access code the attempt was started with
+  access_code: string | null;
+}
+
+// Order in which an attempt's questions and options were served
+export interface ServedOrder {
+  // Answer positions of the served questions in served order; empty means
+  // every question in canonical order
+  question_order: number[];
+  // Per answer position, indexes into `options` in served order
+  option_orders: number[][];
+}
+
+export interface QuizAttempt extends ServedOrder {
+  id: string;
+  quiz_id: string;
+  quiz_version: number;
+  started_at: string;
+  submitted_at: string | null;
+  access_code: string | null;
+}
+
+// Question as served to students: the correct answer is never included
+export type StudentQuestion = Pick<
+  Question,
+  'id' | 'question_text' | 'question_type' | 'options' | 'order_index' | 'time_limit_seconds'
+> & {
+  // Index of the question's answer in canonical order
+  position: number;
+};
+
+export interface GradedAnswer {
+  question_id: string;
+  // Null for essays, which have no answer key
+  correct_answer: Answer | null;
+  // Points earned, negative for a penalised wrong answer; null until an essay is graded
+  points: number | null;
+  max_points: number;
+}
+
+export interface SubmissionResult {
+  response: Response;
+  // Canonical order; null for questions the attempt did not serve. Null
+  // altogether while the quiz keeps its answers hidden.
+  review: (GradedAnswer | null)[] | null;
+}
+
+export interface Profile {
+  id: string;
+  role: UserRole;
+  full_name: string | null;
+  register_number: string | null;
+  // Deactivated accounts cannot sign in
+  is_active: boolean;
+  created_at: string;
+}
+
+// A teacher or admin as listed on the admin page
+export interface TeacherAccount {
+  id: string;
+  email: string;
+  role: UserRole;
+  full_name: string | null;
+  is_active: boolean;
+  created_at: string;
+  quiz_count: number;
+}
+
+// A question of a stored response as its student sees it afterwards
+export interface ReviewedAnswer {
+  // Index of the answer in canonical order
+  position: number;
+  question_text: string;
+  question_type: QuestionType;
+  answer: Answer;
+  // Null for essays, which have no answer key
+  correct_answer: Answer | null;
+  points: number | null;
+  max_points: number;
+  feedback: string | null;
+}
+
+export interface MyAttempt {
+  response: Response;
+  quiz_title: string;
+  review_visibility: ReviewVisibility;
+  // In the order the questions were served; null while hidden
+  review: ReviewedAnswer[] | null;
+}
+
+// The creator or a collaborator of a quiz, as listed in the share dialog
+export interface QuizCollaborator {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  permission: QuizPermission;
+  // The creator is always an owner and cannot be removed
+  is_creator: boolean;
+}
+
+export interface SchoolClass {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface RosterStudent {
+  id: string;
+  class_id: string;
+  student_name: string;
+  student_email: string;
+  student_register_number: string;
+  created_at: string;
+}
@@ -0,0 +1,103 @@
+/*
+  # Server-side grading of quiz submissions
+
+  1. New Functions
+    - `grade_answers(quiz_id, answers)`
+      - Compares an index-aligned answers array with `questions.correct_answer`
+        (ordered by `order_index`) and returns the number of correct answers
+    - `submit_response(...)`
+      - Single entry point for students to submit a quiz
+      - Computes `score` and `total_questions` itself and inserts the response
+
+  2. Security
+    - Drop "Anyone can insert responses" so scores can no longer be posted
+      directly from the client
+    - `submit_response` runs as SECURITY DEFINER and is executable by anon
+      and authenticated users
+
+  3. Data
+    - Regrade existing responses so every stored score is server-computed
+*/
+
+CREATE OR REPLACE FUNCTION grade_answers(p_quiz_id uuid, p_answers jsonb)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM (
+    SELECT
+      correct_answer,
+      row_number() OVER (ORDER BY order_index, id) - 1 AS position
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+  ) q
+  WHERE p_answers ->> q.position::integer = q.correct_answer;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total integer;
+  v_response responses;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM quizzes WHERE id = p_quiz_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    total_questions
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    v_total
+  )
+  RETURNING * INTO v_response;
+
+  RETURN v_response;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION submit_response(uuid, text, text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_response(uuid, text, text, text, jsonb) TO anon, authenticated;
+
+-- Responses may only be created through submit_response
+DROP POLICY IF EXISTS "Anyone can insert responses" ON responses;
+
+-- Replace client-computed scores on existing rows
+UPDATE responses
+SET
+  score = grade_answers(quiz_id, answers),
+  total_questions = (
+    SELECT count(*) FROM questions WHERE questions.quiz_id = responses.quiz_id
+  );
@@ -0,0 +1,125 @@
+/*
+  # Hide correct answers from students
+
+  1. New Functions
+    - `get_quiz_questions(quiz_id)`
+      - Student-facing question list for an active quiz
+      - Returns only `id`, `question_text`, `options` and `order_index`
+
+  2. Changed Functions
+    - `submit_response(...)` now returns the graded response together with a
+      per-question review (`question_id`, `correct_answer`, `is_correct`), so
+      answers are only revealed after a submission has been graded
+
+  3. Security
+    - Drop "Anyone can read questions for active quizzes"; anonymous users can
+      no longer select from `questions` directly
+*/
+
+CREATE OR REPLACE FUNCTION get_quiz_questions(p_quiz_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  options jsonb,
+  order_index integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.question_text, q.options, q.order_index
+  FROM questions q
+  JOIN quizzes z ON z.id = q.quiz_id
+  WHERE q.quiz_id = p_quiz_id
+    AND z.is_active = true
+  ORDER BY q.order_index, q.id;
+$$;
+
+REVOKE ALL ON FUNCTION get_quiz_questions(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_quiz_questions(uuid) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Anyone can read questions for active quizzes" ON questions;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS submit_response(uuid, text, text, text, jsonb);
+
+CREATE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total integer;
+  v_response responses;
+  v_review jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM quizzes WHERE id = p_quiz_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    total_questions
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    v_total
+  )
+  RETURNING * INTO v_response;
+
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'question_id', q.id,
+        'correct_answer', q.correct_answer,
+        'is_correct', coalesce(p_answers ->> q.position::integer = q.correct_answer, false)
+      )
+      ORDER BY q.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_review
+  FROM (
+    SELECT
+      id,
+      correct_answer,
+      row_number() OVER (ORDER BY order_index, id) - 1 AS position
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+  ) q;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', v_review
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION submit_response(uuid, text, text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_response(uuid, text, text, text, jsonb) TO anon, authenticated;
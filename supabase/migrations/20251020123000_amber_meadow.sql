@@ -0,0 +1,208 @@
+/*
+  # Timed quizzes
+
+  1. Changes
+    - `quizzes.time_limit_minutes` (integer, optional) - overall time limit
+    - `questions.time_limit_seconds` (integer, optional) - per-question limit,
+      enforced by the quiz-taking client
+    - `responses.started_at` (timestamp, optional) - when the attempt began
+    - `responses.is_late` (boolean) - submitted after the quiz time limit
+
+  2. New Tables
+    - `quiz_attempts`
+      - `id` (uuid, primary key)
+      - `quiz_id` (uuid, references quizzes)
+      - `started_at` (timestamp, set by the server)
+      - `submitted_at` (timestamp, set when the attempt is submitted)
+
+  3. New Functions
+    - `start_quiz_attempt(quiz_id)` records the server-side start time
+
+  4. Changed Functions
+    - `get_quiz_questions` also returns `time_limit_seconds`
+    - `submit_response` requires an attempt id, copies its start time onto the
+      response and flags submissions received more than 30 seconds after the
+      time limit
+
+  5. Security
+    - Enable RLS on `quiz_attempts` without policies; it is only reachable
+      through the SECURITY DEFINER functions above
+*/
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS time_limit_minutes integer
+  CHECK (time_limit_minutes > 0);
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS time_limit_seconds integer
+  CHECK (time_limit_seconds > 0);
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS started_at timestamptz;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS is_late boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id uuid NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz
+);
+
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_quiz_id ON quiz_attempts(quiz_id);
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM quizzes WHERE id = p_quiz_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Quiz is not available';
+  END IF;
+
+  INSERT INTO quiz_attempts (quiz_id)
+  VALUES (p_quiz_id)
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_quiz_attempt(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(uuid) TO anon, authenticated;
+
+-- The result columns change, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_quiz_questions(uuid);
+
+CREATE FUNCTION get_quiz_questions(p_quiz_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  options jsonb,
+  order_index integer,
+  time_limit_seconds integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.question_text, q.options, q.order_index, q.time_limit_seconds
+  FROM questions q
+  JOIN quizzes z ON z.id = q.quiz_id
+  WHERE q.quiz_id = p_quiz_id
+    AND z.is_active = true
+  ORDER BY q.order_index, q.id;
+$$;
+
+REVOKE ALL ON FUNCTION get_quiz_questions(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_quiz_questions(uuid) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS submit_response(uuid, text, text, text, jsonb);
+
+CREATE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_attempt quiz_attempts;
+  v_total integer;
+  v_response responses;
+  v_review jsonb;
+BEGIN
+  SELECT time_limit_minutes INTO v_time_limit
+  FROM quizzes
+  WHERE id = p_quiz_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    total_questions,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    v_total,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'question_id', q.id,
+        'correct_answer', q.correct_answer,
+        'is_correct', coalesce(p_answers ->> q.position::integer = q.correct_answer, false)
+      )
+      ORDER BY q.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_review
+  FROM (
+    SELECT
+      id,
+      correct_answer,
+      row_number() OVER (ORDER BY order_index, id) - 1 AS position
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+  ) q;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', v_review
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION submit_response(uuid, uuid, text, text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_response(uuid, uuid, text, text, text, jsonb) TO anon, authenticated;
@@ -0,0 +1,193 @@
+/*
+  # Scheduled availability windows
+
+  1. Changes
+    - `quizzes.opens_at` (timestamp, optional) - quiz cannot be taken before this
+    - `quizzes.closes_at` (timestamp, optional) - quiz cannot be taken after this
+
+  2. New Functions
+    - `quiz_is_open(quiz_id)` - active and inside its availability window
+
+  3. Changed Functions
+    - `get_quiz_questions`, `start_quiz_attempt` and `submit_response` only
+      serve quizzes that are open
+
+  4. Security
+    - "Anyone can read active quizzes for taking" also requires the quiz to be
+      inside its availability window. Student access to questions and
+      responses already goes through the functions above.
+*/
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS opens_at timestamptz;
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS closes_at timestamptz;
+
+ALTER TABLE quizzes ADD CONSTRAINT quizzes_availability_window_check
+  CHECK (opens_at IS NULL OR closes_at IS NULL OR closes_at > opens_at);
+
+CREATE OR REPLACE FUNCTION quiz_is_open(p_quiz_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM quizzes
+    WHERE id = p_quiz_id
+      AND is_active = true
+      AND (opens_at IS NULL OR opens_at <= now())
+      AND (closes_at IS NULL OR closes_at > now())
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can read active quizzes for taking" ON quizzes;
+
+CREATE POLICY "Anyone can read active quizzes for taking"
+  ON quizzes
+  FOR SELECT
+  TO anon
+  USING (
+    is_active = true
+    AND (opens_at IS NULL OR opens_at <= now())
+    AND (closes_at IS NULL OR closes_at > now())
+  );
+
+CREATE OR REPLACE FUNCTION get_quiz_questions(p_quiz_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  options jsonb,
+  order_index integer,
+  time_limit_seconds integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.question_text, q.options, q.order_index, q.time_limit_seconds
+  FROM questions q
+  WHERE q.quiz_id = p_quiz_id
+    AND quiz_is_open(p_quiz_id)
+  ORDER BY q.order_index, q.id;
+$$;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available';
+  END IF;
+
+  INSERT INTO quiz_attempts (quiz_id)
+  VALUES (p_quiz_id)
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_attempt quiz_attempts;
+  v_total integer;
+  v_response responses;
+  v_review jsonb;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    total_questions,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    v_total,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'question_id', q.id,
+        'correct_answer', q.correct_answer,
+        'is_correct', coalesce(p_answers ->> q.position::integer = q.correct_answer, false)
+      )
+      ORDER BY q.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_review
+  FROM (
+    SELECT
+      id,
+      correct_answer,
+      row_number() OVER (ORDER BY order_index, id) - 1 AS position
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+  ) q;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', v_review
+  );
+END;
+$$;
@@ -0,0 +1,117 @@
+/*
+  # Attempt limits per student
+
+  1. Changes
+    - `quizzes.max_attempts` (integer, optional) - submissions allowed per
+      student; unlimited when null
+    - `quizzes.attempt_policy` (text, default 'best') - which attempt counts
+      towards a student's result: 'best', 'latest' or 'average'
+
+  2. New Functions
+    - `count_student_attempts(quiz_id, email, register_number)` - a student is
+      matched by email or register number, case-insensitively
+    - `get_attempts_remaining(quiz_id, email, register_number)` - lets the
+      quiz-taking page tell students how many attempts they have left
+      (null when unlimited)
+    - `enforce_max_attempts()` - trigger rejecting submissions over the limit
+
+  3. Triggers
+    - `responses_enforce_max_attempts` BEFORE INSERT on `responses`
+*/
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS max_attempts integer
+  CHECK (max_attempts > 0);
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS attempt_policy text NOT NULL DEFAULT 'best'
+  CHECK (attempt_policy IN ('best', 'latest', 'average'));
+
+CREATE INDEX IF NOT EXISTS idx_responses_student_email
+  ON responses(quiz_id, lower(trim(student_email)));
+CREATE INDEX IF NOT EXISTS idx_responses_student_register_number
+  ON responses(quiz_id, lower(trim(student_register_number)));
+
+CREATE OR REPLACE FUNCTION count_student_attempts(
+  p_quiz_id uuid,
+  p_student_email text,
+  p_student_register_number text
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM responses
+  WHERE quiz_id = p_quiz_id
+    AND (
+      lower(trim(student_email)) = lower(trim(p_student_email))
+      OR lower(trim(student_register_number)) = lower(trim(p_student_register_number))
+    );
+$$;
+
+REVOKE ALL ON FUNCTION count_student_attempts(uuid, text, text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION get_attempts_remaining(
+  p_quiz_id uuid,
+  p_student_email text,
+  p_student_register_number text
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN max_attempts IS NULL THEN NULL
+    ELSE greatest(
+      max_attempts - count_student_attempts(id, p_student_email, p_student_register_number),
+      0
+    )
+  END
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND quiz_is_open(id);
+$$;
+
+REVOKE ALL ON FUNCTION get_attempts_remaining(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempts_remaining(uuid, text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_max_attempts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_attempts integer;
+BEGIN
+  SELECT max_attempts INTO v_max_attempts FROM quizzes WHERE id = NEW.quiz_id;
+
+  IF v_max_attempts IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize submissions per quiz so concurrent inserts cannot both pass
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.quiz_id::text));
+
+  IF count_student_attempts(
+    NEW.quiz_id,
+    NEW.student_email,
+    NEW.student_register_number
+  ) >= v_max_attempts THEN
+    RAISE EXCEPTION 'Maximum number of attempts (%) reached for this quiz', v_max_attempts
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS responses_enforce_max_attempts ON responses;
+
+CREATE TRIGGER responses_enforce_max_attempts
+  BEFORE INSERT ON responses
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_max_attempts();
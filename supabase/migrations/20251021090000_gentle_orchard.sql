@@ -0,0 +1,264 @@
+/*
+  # Multiple-select questions with partial credit
+
+  1. Changes
+    - `questions.question_type` (text, default 'single_choice') - 'single_choice'
+      or 'multiple_select'
+    - `questions.correct_answers` (jsonb array) - set of correct options for
+      multiple-select questions
+    - `questions.partial_credit` (text, default 'none') - how multiple-select
+      answers are scored:
+      - 'none': full credit only for exactly the correct set
+      - 'right_minus_wrong': (correct picks - incorrect picks) / correct options,
+        never below zero
+      - 'per_option': share of options judged correctly (picked or left out)
+    - `responses.score` becomes numeric so partial credit can be stored
+    - `responses.question_scores` (jsonb array) - credit earned per question,
+      index-aligned with `answers`
+    - A multiple-select answer is stored as an array of the selected options
+
+  2. New Functions
+    - `ordered_questions(quiz_id)` - questions with their answer position
+    - `grade_question(question, answer)` - credit between 0 and 1
+    - `correct_answer_of(question)` - correct answer in the shape of an answer
+    - `score_questions(quiz_id, answers)` - per-question credit
+    - `review_answers(quiz_id, answers)` - per-question review returned after
+      submission
+
+  3. Changed Functions
+    - `grade_answers` returns numeric and uses `grade_question`
+    - `get_quiz_questions` also returns `question_type`
+    - `submit_response` stores per-question credit and returns the review
+      built by `review_answers`
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS question_type text NOT NULL DEFAULT 'single_choice'
+  CHECK (question_type IN ('single_choice', 'multiple_select'));
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS correct_answers jsonb NOT NULL DEFAULT '[]';
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS partial_credit text NOT NULL DEFAULT 'none'
+  CHECK (partial_credit IN ('none', 'right_minus_wrong', 'per_option'));
+
+ALTER TABLE responses ALTER COLUMN score TYPE numeric;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS question_scores jsonb NOT NULL DEFAULT '[]';
+
+CREATE OR REPLACE FUNCTION ordered_questions(p_quiz_id uuid)
+RETURNS TABLE (position integer, question questions)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (row_number() OVER (ORDER BY q.order_index, q.id) - 1)::integer, q
+  FROM questions q
+  WHERE q.quiz_id = p_quiz_id;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_question(p_question questions, p_answer jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_selected jsonb;
+  v_correct_count integer;
+  v_option_count integer;
+  v_hits integer;
+  v_wrong integer;
+BEGIN
+  IF p_question.question_type = 'multiple_select' THEN
+    v_selected := CASE
+      WHEN jsonb_typeof(p_answer) = 'array' THEN p_answer
+      ELSE '[]'::jsonb
+    END;
+    v_correct_count := jsonb_array_length(p_question.correct_answers);
+    v_option_count := jsonb_array_length(p_question.options);
+
+    SELECT
+      count(DISTINCT s) FILTER (WHERE p_question.correct_answers ? s),
+      count(DISTINCT s) FILTER (WHERE NOT p_question.correct_answers ? s)
+    INTO v_hits, v_wrong
+    FROM jsonb_array_elements_text(v_selected) s;
+
+    IF v_correct_count = 0 THEN
+      RETURN 0;
+    END IF;
+
+    RETURN CASE p_question.partial_credit
+      WHEN 'right_minus_wrong' THEN
+        round(greatest(v_hits - v_wrong, 0)::numeric / v_correct_count, 4)
+      WHEN 'per_option' THEN
+        round((v_hits + (v_option_count - v_correct_count - v_wrong))::numeric / v_option_count, 4)
+      ELSE
+        CASE WHEN v_hits = v_correct_count AND v_wrong = 0 THEN 1 ELSE 0 END
+    END;
+  END IF;
+
+  RETURN CASE WHEN p_answer #>> '{}' = p_question.correct_answer THEN 1 ELSE 0 END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION correct_answer_of(p_question questions)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_question.question_type = 'multiple_select' THEN p_question.correct_answers
+    ELSE to_jsonb(p_question.correct_answer)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION score_questions(p_quiz_id uuid, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(grade_question(o.question, p_answers -> o.position) ORDER BY o.position),
+    '[]'::jsonb
+  )
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS grade_answers(uuid, jsonb);
+
+CREATE FUNCTION grade_answers(p_quiz_id uuid, p_answers jsonb)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(grade_question(o.question, p_answers -> o.position)), 0)
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+CREATE OR REPLACE FUNCTION review_answers(p_quiz_id uuid, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'question_id', (o.question).id,
+        'correct_answer', correct_answer_of(o.question),
+        'points', grade_question(o.question, p_answers -> o.position)
+      )
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+DROP FUNCTION IF EXISTS get_quiz_questions(uuid);
+
+CREATE FUNCTION get_quiz_questions(p_quiz_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  question_type text,
+  options jsonb,
+  order_index integer,
+  time_limit_seconds integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.question_text, q.question_type, q.options, q.order_index, q.time_limit_seconds
+  FROM questions q
+  WHERE q.quiz_id = p_quiz_id
+    AND quiz_is_open(p_quiz_id)
+  ORDER BY q.order_index, q.id;
+$$;
+
+REVOKE ALL ON FUNCTION get_quiz_questions(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_quiz_questions(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_attempt quiz_attempts;
+  v_total integer;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    total_questions,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    score_questions(p_quiz_id, p_answers),
+    v_total,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers)
+  );
+END;
+$$;
+
+-- Record per-question credit for existing responses
+UPDATE responses SET question_scores = score_questions(quiz_id, answers);
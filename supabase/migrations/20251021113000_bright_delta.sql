@@ -0,0 +1,154 @@
+/*
+  # Short-answer and numeric questions
+
+  1. Changes
+    - `questions.question_type` also accepts 'short_answer' and 'numeric'
+    - Short-answer questions list their accepted answers in `correct_answers`
+      and may add a regular expression in `answer_pattern`. Matching ignores
+      case, surrounding whitespace and repeated inner whitespace.
+    - Numeric questions store the expected value in `correct_answer` with a
+      `tolerance` that is either an absolute difference or, when
+      `tolerance_mode` is 'relative', a percentage of the expected value
+    - Neither type uses `options`
+
+  2. New Functions
+    - `normalize_answer(text)` - lower-cases and collapses whitespace
+    - `parse_numeric(text)` - number in the text, or null if it is not one
+
+  3. Changed Functions
+    - `grade_question` grades short-answer and numeric questions
+    - `correct_answer_of` returns the accepted answers of short-answer questions
+*/
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE questions ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('single_choice', 'multiple_select', 'short_answer', 'numeric'));
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS answer_pattern text;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS tolerance numeric NOT NULL DEFAULT 0
+  CHECK (tolerance >= 0);
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS tolerance_mode text NOT NULL DEFAULT 'absolute'
+  CHECK (tolerance_mode IN ('absolute', 'relative'));
+
+CREATE OR REPLACE FUNCTION normalize_answer(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(trim(p_text), '\s+', ' ', 'g'));
+$$;
+
+CREATE OR REPLACE FUNCTION parse_numeric(p_text text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN trim(p_text) ~ '^[-+]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][-+]?[0-9]+)?$'
+      THEN trim(p_text)::numeric
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_question(p_question questions, p_answer jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_selected jsonb;
+  v_text text;
+  v_value numeric;
+  v_expected numeric;
+  v_allowed numeric;
+  v_correct_count integer;
+  v_option_count integer;
+  v_hits integer;
+  v_wrong integer;
+BEGIN
+  IF p_question.question_type = 'multiple_select' THEN
+    v_selected := CASE
+      WHEN jsonb_typeof(p_answer) = 'array' THEN p_answer
+      ELSE '[]'::jsonb
+    END;
+    v_correct_count := jsonb_array_length(p_question.correct_answers);
+    v_option_count := jsonb_array_length(p_question.options);
+
+    SELECT
+      count(DISTINCT s) FILTER (WHERE p_question.correct_answers ? s),
+      count(DISTINCT s) FILTER (WHERE NOT p_question.correct_answers ? s)
+    INTO v_hits, v_wrong
+    FROM jsonb_array_elements_text(v_selected) s;
+
+    IF v_correct_count = 0 THEN
+      RETURN 0;
+    END IF;
+
+    RETURN CASE p_question.partial_credit
+      WHEN 'right_minus_wrong' THEN
+        round(greatest(v_hits - v_wrong, 0)::numeric / v_correct_count, 4)
+      WHEN 'per_option' THEN
+        round((v_hits + (v_option_count - v_correct_count - v_wrong))::numeric / v_option_count, 4)
+      ELSE
+        CASE WHEN v_hits = v_correct_count AND v_wrong = 0 THEN 1 ELSE 0 END
+    END;
+  END IF;
+
+  v_text := p_answer #>> '{}';
+
+  IF p_question.question_type = 'short_answer' THEN
+    IF v_text IS NULL OR trim(v_text) = '' THEN
+      RETURN 0;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(p_question.correct_answers) accepted
+      WHERE normalize_answer(accepted) = normalize_answer(v_text)
+    ) THEN
+      RETURN 1;
+    END IF;
+
+    IF coalesce(p_question.answer_pattern, '') <> '' THEN
+      BEGIN
+        IF trim(v_text) ~* p_question.answer_pattern THEN
+          RETURN 1;
+        END IF;
+      EXCEPTION WHEN invalid_regular_expression THEN
+        RETURN 0;
+      END;
+    END IF;
+
+    RETURN 0;
+  END IF;
+
+  IF p_question.question_type = 'numeric' THEN
+    v_value := parse_numeric(v_text);
+    v_expected := parse_numeric(p_question.correct_answer);
+
+    IF v_value IS NULL OR v_expected IS NULL THEN
+      RETURN 0;
+    END IF;
+
+    v_allowed := CASE p_question.tolerance_mode
+      WHEN 'relative' THEN abs(v_expected) * p_question.tolerance / 100
+      ELSE p_question.tolerance
+    END;
+
+    RETURN CASE WHEN abs(v_value - v_expected) <= v_allowed THEN 1 ELSE 0 END;
+  END IF;
+
+  RETURN CASE WHEN v_text = p_question.correct_answer THEN 1 ELSE 0 END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION correct_answer_of(p_question questions)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_question.question_type IN ('multiple_select', 'short_answer') THEN p_question.correct_answers
+    ELSE to_jsonb(p_question.correct_answer)
+  END;
+$$;
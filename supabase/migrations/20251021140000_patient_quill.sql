@@ -0,0 +1,298 @@
+/*
+  # Essay questions with manual grading
+
+  1. Changes
+    - `questions.question_type` also accepts 'essay'. Essays have no answer
+      key and are scored by the teacher.
+    - An answered essay is stored with null credit in
+      `responses.question_scores` until it has been graded; an unanswered
+      essay scores 0 straight away
+    - `responses.needs_grading` (boolean, default false) - true while any
+      question of the response is waiting for a grade
+    - `responses.question_feedback` (jsonb array) - teacher feedback per
+      question, index-aligned with `answers`
+
+  2. New Functions
+    - `grade_essay(response_id, question_index, points, feedback)` - lets the
+      quiz owner score an essay answer between 0 and 1 and leave feedback.
+      The response score and `needs_grading` are recomputed.
+
+  3. Changed Functions
+    - `grade_question` returns null for answered essays
+    - `correct_answer_of` returns null for essays
+    - `submit_response` sets `needs_grading`
+*/
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE questions ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('single_choice', 'multiple_select', 'short_answer', 'numeric', 'essay'));
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS needs_grading boolean NOT NULL DEFAULT false;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS question_feedback jsonb NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_responses_needs_grading
+  ON responses(quiz_id) WHERE needs_grading;
+
+CREATE OR REPLACE FUNCTION grade_question(p_question questions, p_answer jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_selected jsonb;
+  v_text text;
+  v_value numeric;
+  v_expected numeric;
+  v_allowed numeric;
+  v_correct_count integer;
+  v_option_count integer;
+  v_hits integer;
+  v_wrong integer;
+BEGIN
+  IF p_question.question_type = 'multiple_select' THEN
+    v_selected := CASE
+      WHEN jsonb_typeof(p_answer) = 'array' THEN p_answer
+      ELSE '[]'::jsonb
+    END;
+    v_correct_count := jsonb_array_length(p_question.correct_answers);
+    v_option_count := jsonb_array_length(p_question.options);
+
+    SELECT
+      count(DISTINCT s) FILTER (WHERE p_question.correct_answers ? s),
+      count(DISTINCT s) FILTER (WHERE NOT p_question.correct_answers ? s)
+    INTO v_hits, v_wrong
+    FROM jsonb_array_elements_text(v_selected) s;
+
+    IF v_correct_count = 0 THEN
+      RETURN 0;
+    END IF;
+
+    RETURN CASE p_question.partial_credit
+      WHEN 'right_minus_wrong' THEN
+        round(greatest(v_hits - v_wrong, 0)::numeric / v_correct_count, 4)
+      WHEN 'per_option' THEN
+        round((v_hits + (v_option_count - v_correct_count - v_wrong))::numeric / v_option_count, 4)
+      ELSE
+        CASE WHEN v_hits = v_correct_count AND v_wrong = 0 THEN 1 ELSE 0 END
+    END;
+  END IF;
+
+  v_text := p_answer #>> '{}';
+
+  -- Essays are graded by the teacher; unanswered ones have nothing to grade
+  IF p_question.question_type = 'essay' THEN
+    RETURN CASE WHEN coalesce(trim(v_text), '') = '' THEN 0 END;
+  END IF;
+
+  IF p_question.question_type = 'short_answer' THEN
+    IF v_text IS NULL OR trim(v_text) = '' THEN
+      RETURN 0;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(p_question.correct_answers) accepted
+      WHERE normalize_answer(accepted) = normalize_answer(v_text)
+    ) THEN
+      RETURN 1;
+    END IF;
+
+    IF coalesce(p_question.answer_pattern, '') <> '' THEN
+      BEGIN
+        IF trim(v_text) ~* p_question.answer_pattern THEN
+          RETURN 1;
+        END IF;
+      EXCEPTION WHEN invalid_regular_expression THEN
+        RETURN 0;
+      END;
+    END IF;
+
+    RETURN 0;
+  END IF;
+
+  IF p_question.question_type = 'numeric' THEN
+    v_value := parse_numeric(v_text);
+    v_expected := parse_numeric(p_question.correct_answer);
+
+    IF v_value IS NULL OR v_expected IS NULL THEN
+      RETURN 0;
+    END IF;
+
+    v_allowed := CASE p_question.tolerance_mode
+      WHEN 'relative' THEN abs(v_expected) * p_question.tolerance / 100
+      ELSE p_question.tolerance
+    END;
+
+    RETURN CASE WHEN abs(v_value - v_expected) <= v_allowed THEN 1 ELSE 0 END;
+  END IF;
+
+  RETURN CASE WHEN v_text = p_question.correct_answer THEN 1 ELSE 0 END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION correct_answer_of(p_question questions)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_question.question_type = 'essay' THEN 'null'::jsonb
+    WHEN p_question.question_type IN ('multiple_select', 'short_answer') THEN p_question.correct_answers
+    ELSE to_jsonb(p_question.correct_answer)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_attempt quiz_attempts;
+  v_total integer;
+  v_scores jsonb;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  v_scores := score_questions(p_quiz_id, p_answers);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    v_scores,
+    v_scores @> '[null]',
+    v_total,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_essay(
+  p_response_id uuid,
+  p_question_index integer,
+  p_points numeric,
+  p_feedback text
+)
+RETURNS responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response responses;
+  v_question questions;
+  v_scores jsonb;
+  v_feedback jsonb;
+BEGIN
+  SELECT r.* INTO v_response
+  FROM responses r
+  JOIN quizzes q ON q.id = r.quiz_id
+  WHERE r.id = p_response_id
+    AND q.created_by = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response not found';
+  END IF;
+
+  SELECT (o.question).* INTO v_question
+  FROM ordered_questions(v_response.quiz_id) o
+  WHERE o.position = p_question_index;
+
+  IF NOT FOUND OR v_question.question_type <> 'essay' THEN
+    RAISE EXCEPTION 'Only essay questions can be graded manually';
+  END IF;
+
+  IF p_points IS NULL OR p_points < 0 OR p_points > 1 THEN
+    RAISE EXCEPTION 'Points must be between 0 and 1';
+  END IF;
+
+  -- Rebuild both arrays so positions past their current end can be set
+  SELECT
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(p_points) ELSE coalesce(v_response.question_scores -> i, 'null') END
+      ORDER BY i
+    ),
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(nullif(trim(p_feedback), '')) ELSE coalesce(v_response.question_feedback -> i, 'null') END
+      ORDER BY i
+    )
+  INTO v_scores, v_feedback
+  FROM generate_series(0, greatest(jsonb_array_length(v_response.question_scores) - 1, p_question_index)) i;
+
+  UPDATE responses
+  SET question_scores = v_scores,
+      question_feedback = v_feedback,
+      score = (
+        SELECT coalesce(sum(s::numeric), 0)
+        FROM jsonb_array_elements_text(v_scores) s
+      ),
+      needs_grading = v_scores @> '[null]'
+  WHERE id = v_response.id
+  RETURNING * INTO v_response;
+
+  RETURN v_response;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION grade_essay(uuid, integer, numeric, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION grade_essay(uuid, integer, numeric, text) TO authenticated;
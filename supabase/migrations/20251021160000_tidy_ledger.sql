@@ -0,0 +1,281 @@
+/*
+  # Per-question points and negative marking
+
+  1. Changes
+    - `questions.points` (numeric, default 1) - points a fully correct answer
+      is worth
+    - `questions.negative_points` (numeric, default 0) - points deducted for
+      an answered question that earns no credit. Unanswered questions are
+      never penalised.
+    - `responses.question_scores` now holds the points earned per question
+      rather than a 0-1 credit. Existing responses are unchanged because
+      every question so far was worth 1 point.
+    - `responses.max_score` (numeric) - points available when the response
+      was submitted; percentages are `score / max_score`
+    - A response's total score never drops below zero
+
+  2. New Functions
+    - `answer_given(answer)` - whether an answer is non-empty
+    - `question_points(question, answer)` - points earned for one answer
+    - `quiz_max_score(quiz_id)` - sum of the points of a quiz's questions
+
+  3. Changed Functions
+    - `score_questions`, `grade_answers` and `review_answers` use
+      `question_points`; the review also returns each question's `max_points`
+    - `submit_response` stores `max_score`
+    - `grade_essay` takes points between 0 and the question's points
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS points numeric NOT NULL DEFAULT 1
+  CHECK (points > 0);
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS negative_points numeric NOT NULL DEFAULT 0
+  CHECK (negative_points >= 0);
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS max_score numeric NOT NULL DEFAULT 0;
+
+-- Every question was worth one point until now
+UPDATE responses SET max_score = total_questions;
+
+CREATE OR REPLACE FUNCTION answer_given(p_answer jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE jsonb_typeof(p_answer)
+    WHEN 'array' THEN jsonb_array_length(p_answer) > 0
+    WHEN 'string' THEN trim(p_answer #>> '{}') <> ''
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION question_points(p_question questions, p_answer jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_credit numeric;
+BEGIN
+  v_credit := grade_question(p_question, p_answer);
+
+  IF v_credit IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_credit = 0 AND answer_given(p_answer) THEN
+    RETURN -p_question.negative_points;
+  END IF;
+
+  RETURN round(v_credit * p_question.points, 4);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION quiz_max_score(p_quiz_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(points), 0) FROM questions WHERE quiz_id = p_quiz_id;
+$$;
+
+CREATE OR REPLACE FUNCTION score_questions(p_quiz_id uuid, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(question_points(o.question, p_answers -> o.position) ORDER BY o.position),
+    '[]'::jsonb
+  )
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_answers(p_quiz_id uuid, p_answers jsonb)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT greatest(coalesce(sum(question_points(o.question, p_answers -> o.position)), 0), 0)
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+CREATE OR REPLACE FUNCTION review_answers(p_quiz_id uuid, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'question_id', (o.question).id,
+        'correct_answer', correct_answer_of(o.question),
+        'points', question_points(o.question, p_answers -> o.position),
+        'max_points', (o.question).points
+      )
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_attempt quiz_attempts;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  v_scores := score_questions(p_quiz_id, p_answers);
+  v_max_score := quiz_max_score(p_quiz_id);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    v_scores,
+    v_scores @> '[null]',
+    v_total,
+    v_max_score,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_essay(
+  p_response_id uuid,
+  p_question_index integer,
+  p_points numeric,
+  p_feedback text
+)
+RETURNS responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response responses;
+  v_question questions;
+  v_scores jsonb;
+  v_feedback jsonb;
+BEGIN
+  SELECT r.* INTO v_response
+  FROM responses r
+  JOIN quizzes q ON q.id = r.quiz_id
+  WHERE r.id = p_response_id
+    AND q.created_by = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response not found';
+  END IF;
+
+  SELECT (o.question).* INTO v_question
+  FROM ordered_questions(v_response.quiz_id) o
+  WHERE o.position = p_question_index;
+
+  IF NOT FOUND OR v_question.question_type <> 'essay' THEN
+    RAISE EXCEPTION 'Only essay questions can be graded manually';
+  END IF;
+
+  IF p_points IS NULL OR p_points < 0 OR p_points > v_question.points THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', v_question.points;
+  END IF;
+
+  -- Rebuild both arrays so positions past their current end can be set
+  SELECT
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(p_points) ELSE coalesce(v_response.question_scores -> i, 'null') END
+      ORDER BY i
+    ),
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(nullif(trim(p_feedback), '')) ELSE coalesce(v_response.question_feedback -> i, 'null') END
+      ORDER BY i
+    )
+  INTO v_scores, v_feedback
+  FROM generate_series(0, greatest(jsonb_array_length(v_response.question_scores) - 1, p_question_index)) i;
+
+  UPDATE responses
+  SET question_scores = v_scores,
+      question_feedback = v_feedback,
+      score = (
+        SELECT greatest(coalesce(sum(s::numeric), 0), 0)
+        FROM jsonb_array_elements_text(v_scores) s
+      ),
+      needs_grading = v_scores @> '[null]'
+  WHERE id = v_response.id
+  RETURNING * INTO v_response;
+
+  RETURN v_response;
+END;
+$$;
+
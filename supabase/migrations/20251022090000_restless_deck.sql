@@ -0,0 +1,171 @@
+/*
+  # Question and option shuffling
+
+  1. Changes
+    - `quizzes.shuffle_questions` (boolean, default false) - serve questions
+      in a random order on each attempt
+    - `quizzes.shuffle_options` (boolean, default false) - serve the options
+      of each question in a random order on each attempt
+    - `quiz_attempts.question_order` and `responses.question_order` (jsonb) -
+      answer positions in the order they were served. An empty array means
+      the canonical order.
+    - `quiz_attempts.option_orders` and `responses.option_orders` (jsonb) -
+      for each answer position, the indexes into `options` in the order they
+      were served
+    - Answers are still submitted and stored in canonical order, so grading
+      is unaffected
+
+  2. Changed Functions
+    - `start_quiz_attempt` draws the orders for the attempt
+    - `submit_response` copies them onto the response
+*/
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS shuffle_questions boolean NOT NULL DEFAULT false;
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS shuffle_options boolean NOT NULL DEFAULT false;
+
+ALTER TABLE quiz_attempts ADD COLUMN IF NOT EXISTS question_order jsonb NOT NULL DEFAULT '[]';
+ALTER TABLE quiz_attempts ADD COLUMN IF NOT EXISTS option_orders jsonb NOT NULL DEFAULT '[]';
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS question_order jsonb NOT NULL DEFAULT '[]';
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS option_orders jsonb NOT NULL DEFAULT '[]';
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_question_order jsonb;
+  v_option_orders jsonb;
+  v_attempt quiz_attempts;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  -- random() is null when shuffling is off, leaving the canonical order
+  SELECT coalesce(
+    jsonb_agg(o.position ORDER BY CASE WHEN v_quiz.shuffle_questions THEN random() END, o.position),
+    '[]'::jsonb
+  )
+  INTO v_question_order
+  FROM ordered_questions(p_quiz_id) o;
+
+  SELECT coalesce(
+    jsonb_agg(
+      (
+        SELECT coalesce(
+          jsonb_agg(i ORDER BY CASE WHEN v_quiz.shuffle_options THEN random() END, i),
+          '[]'::jsonb
+        )
+        FROM generate_series(0, jsonb_array_length((o.question).options) - 1) i
+      )
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_option_orders
+  FROM ordered_questions(p_quiz_id) o;
+
+  INSERT INTO quiz_attempts (quiz_id, question_order, option_orders)
+  VALUES (p_quiz_id, v_question_order, v_option_orders)
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_attempt quiz_attempts;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  SELECT count(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+
+  v_scores := score_questions(p_quiz_id, p_answers);
+  v_max_score := quiz_max_score(p_quiz_id);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers),
+    v_scores,
+    v_scores @> '[null]',
+    v_total,
+    v_max_score,
+    v_attempt.question_order,
+    v_attempt.option_orders,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers)
+  );
+END;
+$$;
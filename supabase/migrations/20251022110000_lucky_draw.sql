@@ -0,0 +1,435 @@
+/*
+  # Random draw from a question pool
+
+  1. Changes
+    - `questions.section` (text, optional) - groups questions into sections
+    - `quizzes.questions_per_attempt` (integer, optional) - how many of the
+      questions outside any section each attempt draws at random; all of
+      them when null
+    - `quizzes.section_draw_counts` (jsonb object) - questions drawn per
+      attempt from each named section; sections missing from the object
+      serve all of their questions
+    - `question_order` on attempts and responses now lists only the served
+      questions, so it doubles as the record of which questions a student saw
+    - `responses.total_questions`, `max_score` and `score` only cover the
+      served questions; `question_scores` holds null for the others
+
+  2. New Functions
+    - `served_positions(quiz_id, question_order)` - served answer positions,
+      every position for responses recorded before shuffling existed
+    - `has_ungraded(question_scores, served)` - whether a served question is
+      still waiting for a grade
+    - `count_served_questions(quiz_id)` - questions each attempt will serve,
+      shown to students before they start
+    - `get_attempt_questions(attempt_id)` - the served questions of an
+      attempt in served order with their options shuffled, replacing
+      `get_quiz_questions` so students never see the rest of the pool
+
+  3. Changed Functions
+    - `start_quiz_attempt` draws the questions for the attempt
+    - `score_questions`, `grade_answers`, `quiz_max_score` and
+      `review_answers` take the served positions
+    - `submit_response` and `grade_essay` only grade served questions
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS section text;
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS questions_per_attempt integer
+  CHECK (questions_per_attempt > 0);
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS section_draw_counts jsonb NOT NULL DEFAULT '{}';
+
+DROP FUNCTION IF EXISTS get_quiz_questions(uuid);
+DROP FUNCTION IF EXISTS score_questions(uuid, jsonb);
+DROP FUNCTION IF EXISTS grade_answers(uuid, jsonb);
+DROP FUNCTION IF EXISTS quiz_max_score(uuid);
+DROP FUNCTION IF EXISTS review_answers(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION served_positions(p_quiz_id uuid, p_question_order jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN jsonb_array_length(p_question_order) > 0 THEN p_question_order
+    ELSE (
+      SELECT coalesce(jsonb_agg(o.position ORDER BY o.position), '[]'::jsonb)
+      FROM ordered_questions(p_quiz_id) o
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_ungraded(p_question_scores jsonb, p_served jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(p_served) s(position)
+    WHERE p_question_scores -> s.position::integer = 'null'::jsonb
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION score_questions(p_quiz_id uuid, p_answers jsonb, p_served jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      CASE WHEN p_served @> jsonb_build_array(o.position)
+        THEN question_points(o.question, p_answers -> o.position)
+      END
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_answers(p_quiz_id uuid, p_answers jsonb, p_served jsonb)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT greatest(coalesce(sum(question_points(o.question, p_answers -> o.position)), 0), 0)
+  FROM ordered_questions(p_quiz_id) o
+  WHERE p_served @> jsonb_build_array(o.position);
+$$;
+
+CREATE OR REPLACE FUNCTION quiz_max_score(p_quiz_id uuid, p_served jsonb)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum((o.question).points), 0)
+  FROM ordered_questions(p_quiz_id) o
+  WHERE p_served @> jsonb_build_array(o.position);
+$$;
+
+CREATE OR REPLACE FUNCTION review_answers(p_quiz_id uuid, p_answers jsonb, p_served jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      CASE WHEN p_served @> jsonb_build_array(o.position) THEN
+        jsonb_build_object(
+          'question_id', (o.question).id,
+          'correct_answer', correct_answer_of(o.question),
+          'points', question_points(o.question, p_answers -> o.position),
+          'max_points', (o.question).points
+        )
+      END
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  FROM ordered_questions(p_quiz_id) o;
+$$;
+
+CREATE OR REPLACE FUNCTION count_served_questions(p_quiz_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(least(g.question_count, coalesce(g.draw_count, g.question_count))), 0)::integer
+  FROM (
+    SELECT
+      count(*) AS question_count,
+      CASE
+        WHEN q.section IS NULL THEN z.questions_per_attempt
+        ELSE (z.section_draw_counts ->> q.section)::integer
+      END AS draw_count
+    FROM questions q
+    JOIN quizzes z ON z.id = q.quiz_id
+    WHERE q.quiz_id = p_quiz_id
+      AND quiz_is_open(p_quiz_id)
+    GROUP BY q.section, z.questions_per_attempt, z.section_draw_counts
+  ) g;
+$$;
+
+REVOKE ALL ON FUNCTION count_served_questions(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION count_served_questions(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_question_order jsonb;
+  v_option_orders jsonb;
+  v_attempt quiz_attempts;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  -- Draw from each section, then order the drawn questions. random() is
+  -- null when shuffling is off, leaving the canonical order.
+  SELECT coalesce(
+    jsonb_agg(d.position ORDER BY CASE WHEN v_quiz.shuffle_questions THEN random() END, d.position),
+    '[]'::jsonb
+  )
+  INTO v_question_order
+  FROM (
+    SELECT
+      o.position,
+      (o.question).section AS section,
+      row_number() OVER (PARTITION BY (o.question).section ORDER BY random()) AS draw_rank
+    FROM ordered_questions(p_quiz_id) o
+  ) d
+  WHERE d.draw_rank <= coalesce(
+    CASE
+      WHEN d.section IS NULL THEN v_quiz.questions_per_attempt
+      ELSE (v_quiz.section_draw_counts ->> d.section)::integer
+    END,
+    d.draw_rank
+  );
+
+  SELECT coalesce(
+    jsonb_agg(
+      (
+        SELECT coalesce(
+          jsonb_agg(i ORDER BY CASE WHEN v_quiz.shuffle_options THEN random() END, i),
+          '[]'::jsonb
+        )
+        FROM generate_series(0, jsonb_array_length((o.question).options) - 1) i
+      )
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_option_orders
+  FROM ordered_questions(p_quiz_id) o;
+
+  INSERT INTO quiz_attempts (quiz_id, question_order, option_orders)
+  VALUES (p_quiz_id, v_question_order, v_option_orders)
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_attempt_questions(p_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  position integer,
+  question_text text,
+  question_type text,
+  options jsonb,
+  order_index integer,
+  time_limit_seconds integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (o.question).id,
+    o.position,
+    (o.question).question_text,
+    (o.question).question_type,
+    CASE
+      WHEN jsonb_array_length(a.option_orders -> o.position) = jsonb_array_length((o.question).options) THEN (
+        SELECT coalesce(jsonb_agg((o.question).options -> x.option_index::integer ORDER BY x.n), '[]'::jsonb)
+        FROM jsonb_array_elements_text(a.option_orders -> o.position) WITH ORDINALITY x(option_index, n)
+      )
+      ELSE (o.question).options
+    END,
+    (o.question).order_index,
+    (o.question).time_limit_seconds
+  FROM quiz_attempts a
+  CROSS JOIN LATERAL jsonb_array_elements_text(served_positions(a.quiz_id, a.question_order))
+    WITH ORDINALITY s(position, served_index)
+  JOIN ordered_questions(a.quiz_id) o ON o.position = s.position::integer
+  WHERE a.id = p_attempt_id
+    AND a.submitted_at IS NULL
+    AND quiz_is_open(a.quiz_id)
+  ORDER BY s.served_index;
+$$;
+
+REVOKE ALL ON FUNCTION get_attempt_questions(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempt_questions(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_attempt quiz_attempts;
+  v_served jsonb;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  v_served := served_positions(p_quiz_id, v_attempt.question_order);
+  v_total := jsonb_array_length(v_served);
+  v_scores := score_questions(p_quiz_id, p_answers, v_served);
+  v_max_score := quiz_max_score(p_quiz_id, v_served);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers, v_served),
+    v_scores,
+    has_ungraded(v_scores, v_served),
+    v_total,
+    v_max_score,
+    v_served,
+    v_attempt.option_orders,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers, v_served)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_essay(
+  p_response_id uuid,
+  p_question_index integer,
+  p_points numeric,
+  p_feedback text
+)
+RETURNS responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response responses;
+  v_question questions;
+  v_served jsonb;
+  v_scores jsonb;
+  v_feedback jsonb;
+BEGIN
+  SELECT r.* INTO v_response
+  FROM responses r
+  JOIN quizzes q ON q.id = r.quiz_id
+  WHERE r.id = p_response_id
+    AND q.created_by = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response not found';
+  END IF;
+
+  SELECT (o.question).* INTO v_question
+  FROM ordered_questions(v_response.quiz_id) o
+  WHERE o.position = p_question_index;
+
+  IF NOT FOUND OR v_question.question_type <> 'essay' THEN
+    RAISE EXCEPTION 'Only essay questions can be graded manually';
+  END IF;
+
+  v_served := served_positions(v_response.quiz_id, v_response.question_order);
+
+  IF NOT v_served @> jsonb_build_array(p_question_index) THEN
+    RAISE EXCEPTION 'Question was not part of this attempt';
+  END IF;
+
+  IF p_points IS NULL OR p_points < 0 OR p_points > v_question.points THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', v_question.points;
+  END IF;
+
+  -- Rebuild both arrays so positions past their current end can be set
+  SELECT
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(p_points) ELSE coalesce(v_response.question_scores -> i, 'null') END
+      ORDER BY i
+    ),
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(nullif(trim(p_feedback), '')) ELSE coalesce(v_response.question_feedback -> i, 'null') END
+      ORDER BY i
+    )
+  INTO v_scores, v_feedback
+  FROM generate_series(0, greatest(jsonb_array_length(v_response.question_scores) - 1, p_question_index)) i;
+
+  UPDATE responses
+  SET question_scores = v_scores,
+      question_feedback = v_feedback,
+      score = (
+        SELECT greatest(coalesce(sum(s::numeric), 0), 0)
+        FROM jsonb_array_elements_text(v_scores) s
+      ),
+      needs_grading = has_ungraded(v_scores, v_served)
+  WHERE id = v_response.id
+  RETURNING * INTO v_response;
+
+  RETURN v_response;
+END;
+$$;
+
@@ -0,0 +1,151 @@
+/*
+  # Reusable question bank
+
+  1. New Tables
+    - `bank_questions`
+      - `id` (uuid, primary key)
+      - `created_by` (uuid, references auth.users)
+      - `question_text`, `question_type`, `options`, `correct_answer`,
+        `correct_answers`, `partial_credit`, `answer_pattern`, `tolerance`,
+        `tolerance_mode` - the same content fields as `questions`
+      - `tags` (text array) - free-form labels for finding questions
+      - `difficulty` (text, optional) - 'easy', 'medium' or 'hard'
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes
+    - `questions.bank_question_id` (uuid, optional) - bank question a quiz
+      question was pulled from. While it is set, the question's content is
+      kept identical to the bank question: it is copied when the question is
+      saved and every edit to the bank question is propagated. Points,
+      negative marks, time limit, section and order stay per quiz.
+    - Clearing `bank_question_id` forks the question: it keeps its current
+      content and is edited on its own from then on. Deleting a bank question
+      forks every question linked to it.
+
+  3. Security
+    - Enable RLS on `bank_questions`
+    - Teachers can only access their own bank questions, and can only link
+      quiz questions to those
+
+  4. Triggers
+    - `bank_questions_touch_updated_at` BEFORE UPDATE on `bank_questions`
+    - `bank_questions_propagate` AFTER UPDATE on `bank_questions`
+    - `questions_copy_bank_question` BEFORE INSERT OR UPDATE on `questions`
+*/
+
+CREATE TABLE IF NOT EXISTS bank_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_text text NOT NULL,
+  question_type text NOT NULL DEFAULT 'single_choice'
+    CHECK (question_type IN ('single_choice', 'multiple_select', 'short_answer', 'numeric', 'essay')),
+  options jsonb NOT NULL DEFAULT '[]',
+  correct_answer text NOT NULL DEFAULT '',
+  correct_answers jsonb NOT NULL DEFAULT '[]',
+  partial_credit text NOT NULL DEFAULT 'none'
+    CHECK (partial_credit IN ('none', 'right_minus_wrong', 'per_option')),
+  answer_pattern text,
+  tolerance numeric NOT NULL DEFAULT 0 CHECK (tolerance >= 0),
+  tolerance_mode text NOT NULL DEFAULT 'absolute'
+    CHECK (tolerance_mode IN ('absolute', 'relative')),
+  tags text[] NOT NULL DEFAULT '{}',
+  difficulty text CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE bank_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can CRUD their own bank questions"
+  ON bank_questions
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_bank_questions_created_by ON bank_questions(created_by);
+CREATE INDEX IF NOT EXISTS idx_bank_questions_tags ON bank_questions USING gin(tags);
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS bank_question_id uuid
+  REFERENCES bank_questions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_bank_question_id ON questions(bank_question_id);
+
+CREATE OR REPLACE FUNCTION touch_bank_question()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bank_questions_touch_updated_at ON bank_questions;
+
+CREATE TRIGGER bank_questions_touch_updated_at
+  BEFORE UPDATE ON bank_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_bank_question();
+
+-- Runs as the caller, so the bank question has to be visible to them
+CREATE OR REPLACE FUNCTION copy_bank_question()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_bank bank_questions;
+BEGIN
+  IF NEW.bank_question_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_bank FROM bank_questions WHERE id = NEW.bank_question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank question not found';
+  END IF;
+
+  NEW.question_text := v_bank.question_text;
+  NEW.question_type := v_bank.question_type;
+  NEW.options := v_bank.options;
+  NEW.correct_answer := v_bank.correct_answer;
+  NEW.correct_answers := v_bank.correct_answers;
+  NEW.partial_credit := v_bank.partial_credit;
+  NEW.answer_pattern := v_bank.answer_pattern;
+  NEW.tolerance := v_bank.tolerance;
+  NEW.tolerance_mode := v_bank.tolerance_mode;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS questions_copy_bank_question ON questions;
+
+CREATE TRIGGER questions_copy_bank_question
+  BEFORE INSERT OR UPDATE ON questions
+  FOR EACH ROW
+  EXECUTE FUNCTION copy_bank_question();
+
+-- Touching the linked rows is enough: the copy trigger fills in the content
+CREATE OR REPLACE FUNCTION propagate_bank_question()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE questions
+  SET bank_question_id = NEW.id
+  WHERE bank_question_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bank_questions_propagate ON bank_questions;
+
+CREATE TRIGGER bank_questions_propagate
+  AFTER UPDATE ON bank_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION propagate_bank_question();
@@ -0,0 +1,466 @@
+/*
+  # Non-destructive quiz editing and quiz versions
+
+  1. New Tables
+    - `quiz_versions`
+      - `id` (uuid, primary key)
+      - `quiz_id` (uuid, references quizzes)
+      - `version` (integer) - unique per quiz, counting up from 1
+      - `questions` (jsonb) - the quiz's question rows in answer order
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `quizzes.version` (integer) - current version of the quiz's questions;
+      0 until the questions are first saved
+    - `quiz_attempts.quiz_version` and `responses.quiz_version` (integer) -
+      version the attempt was started on and the response was graded
+      against. A response's `answers`, `question_scores` and
+      `question_feedback` line up with that version's `questions`.
+    - Existing quizzes get version 1 holding their current questions, and
+      existing attempts and responses are recorded against it
+
+  3. Security
+    - Enable RLS on `quiz_versions`
+    - Teachers can read the versions of their own quizzes; versions are only
+      written by `save_quiz_questions`
+
+  4. New Functions
+    - `save_quiz_questions(quiz_id, questions)` - updates questions that
+      have an id, inserts the rest and deletes the ones left out, keeping
+      question ids stable. Records a new version when the questions changed
+      and returns the current version number.
+
+  5. Changed Functions
+    - `start_quiz_attempt` records the quiz version
+    - `submit_response` records the quiz version, and moves the answers of
+      an attempt started before the quiz was edited to the current
+      positions of the same questions
+    - `grade_essay` finds the question in the response's version
+*/
+
+CREATE TABLE IF NOT EXISTS quiz_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id uuid NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version > 0),
+  questions jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (quiz_id, version)
+);
+
+ALTER TABLE quiz_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can read versions of their quizzes"
+  ON quiz_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quizzes
+      WHERE quizzes.id = quiz_versions.quiz_id
+      AND quizzes.created_by = auth.uid()
+    )
+  );
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE quiz_attempts ADD COLUMN IF NOT EXISTS quiz_version integer NOT NULL DEFAULT 1;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS quiz_version integer NOT NULL DEFAULT 1;
+
+INSERT INTO quiz_versions (quiz_id, version, questions, created_by)
+SELECT
+  qz.id,
+  1,
+  (
+    SELECT coalesce(jsonb_agg(to_jsonb(o.question) ORDER BY o.position), '[]'::jsonb)
+    FROM ordered_questions(qz.id) o
+  ),
+  qz.created_by
+FROM quizzes qz
+ON CONFLICT (quiz_id, version) DO NOTHING;
+
+-- New quizzes get version 1 when their questions are first saved
+ALTER TABLE quizzes ALTER COLUMN version SET DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_versions_quiz_id ON quiz_versions(quiz_id);
+
+CREATE OR REPLACE FUNCTION save_quiz_questions(p_quiz_id uuid, p_questions jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_row jsonb;
+  v_id uuid;
+  v_kept uuid[] := '{}';
+  v_snapshot jsonb;
+BEGIN
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND created_by = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be an array';
+  END IF;
+
+  -- Row level security does not apply here, so check bank links by hand
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_questions) q
+    WHERE q ->> 'bank_question_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM bank_questions b
+        WHERE b.id = (q ->> 'bank_question_id')::uuid
+          AND b.created_by = auth.uid()
+      )
+  ) THEN
+    RAISE EXCEPTION 'Bank question not found';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_questions)
+  LOOP
+    SELECT id INTO v_id
+    FROM questions
+    WHERE id = (v_row ->> 'id')::uuid
+      AND quiz_id = p_quiz_id;
+
+    IF FOUND THEN
+      -- Fields missing from the row keep their current value
+      UPDATE questions q
+      SET (
+        question_text, question_type, options, correct_answer, correct_answers,
+        partial_credit, answer_pattern, tolerance, tolerance_mode, points,
+        negative_points, order_index, time_limit_seconds, section, bank_question_id
+      ) = (
+        SELECT
+          r.question_text, r.question_type, r.options, r.correct_answer, r.correct_answers,
+          r.partial_credit, r.answer_pattern, r.tolerance, r.tolerance_mode, r.points,
+          r.negative_points, r.order_index, r.time_limit_seconds, r.section, r.bank_question_id
+        FROM jsonb_populate_record(q, v_row) r
+      )
+      WHERE q.id = v_id;
+    ELSE
+      INSERT INTO questions (
+        quiz_id, question_text, question_type, options, correct_answer, correct_answers,
+        partial_credit, answer_pattern, tolerance, tolerance_mode, points,
+        negative_points, order_index, time_limit_seconds, section, bank_question_id
+      )
+      SELECT
+        p_quiz_id, r.question_text, coalesce(r.question_type, 'single_choice'), coalesce(r.options, '[]'),
+        coalesce(r.correct_answer, ''), coalesce(r.correct_answers, '[]'), coalesce(r.partial_credit, 'none'),
+        r.answer_pattern, coalesce(r.tolerance, 0), coalesce(r.tolerance_mode, 'absolute'), coalesce(r.points, 1),
+        coalesce(r.negative_points, 0), coalesce(r.order_index, 0), r.time_limit_seconds, r.section, r.bank_question_id
+      FROM jsonb_populate_record(NULL::questions, v_row) r
+      RETURNING id INTO v_id;
+    END IF;
+
+    v_kept := v_kept || v_id;
+  END LOOP;
+
+  DELETE FROM questions
+  WHERE quiz_id = p_quiz_id
+    AND NOT (id = ANY (v_kept));
+
+  SELECT coalesce(jsonb_agg(to_jsonb(o.question) ORDER BY o.position), '[]'::jsonb)
+  INTO v_snapshot
+  FROM ordered_questions(p_quiz_id) o;
+
+  -- Saving without changes keeps the current version
+  IF EXISTS (
+    SELECT 1 FROM quiz_versions
+    WHERE quiz_id = p_quiz_id
+      AND version = v_quiz.version
+      AND questions = v_snapshot
+  ) THEN
+    RETURN v_quiz.version;
+  END IF;
+
+  UPDATE quizzes SET version = version + 1 WHERE id = p_quiz_id
+  RETURNING * INTO v_quiz;
+
+  INSERT INTO quiz_versions (quiz_id, version, questions, created_by)
+  VALUES (p_quiz_id, v_quiz.version, v_snapshot, auth.uid());
+
+  RETURN v_quiz.version;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_quiz_questions(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_quiz_questions(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_question_order jsonb;
+  v_option_orders jsonb;
+  v_attempt quiz_attempts;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  -- Draw from each section, then order the drawn questions. random() is
+  -- null when shuffling is off, leaving the canonical order.
+  SELECT coalesce(
+    jsonb_agg(d.position ORDER BY CASE WHEN v_quiz.shuffle_questions THEN random() END, d.position),
+    '[]'::jsonb
+  )
+  INTO v_question_order
+  FROM (
+    SELECT
+      o.position,
+      (o.question).section AS section,
+      row_number() OVER (PARTITION BY (o.question).section ORDER BY random()) AS draw_rank
+    FROM ordered_questions(p_quiz_id) o
+  ) d
+  WHERE d.draw_rank <= coalesce(
+    CASE
+      WHEN d.section IS NULL THEN v_quiz.questions_per_attempt
+      ELSE (v_quiz.section_draw_counts ->> d.section)::integer
+    END,
+    d.draw_rank
+  );
+
+  SELECT coalesce(
+    jsonb_agg(
+      (
+        SELECT coalesce(
+          jsonb_agg(i ORDER BY CASE WHEN v_quiz.shuffle_options THEN random() END, i),
+          '[]'::jsonb
+        )
+        FROM generate_series(0, jsonb_array_length((o.question).options) - 1) i
+      )
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_option_orders
+  FROM ordered_questions(p_quiz_id) o;
+
+  INSERT INTO quiz_attempts (quiz_id, quiz_version, question_order, option_orders)
+  VALUES (p_quiz_id, v_quiz.version, v_question_order, v_option_orders)
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_version integer;
+  v_attempt quiz_attempts;
+  v_served jsonb;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes, version INTO v_time_limit, v_version FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  -- The quiz was edited during the attempt: move answers to the current
+  -- positions of the same questions. Questions added since were not served.
+  IF v_attempt.quiz_version <> v_version THEN
+    WITH moved AS (
+      SELECT o.position, old.position AS old_position
+      FROM ordered_questions(p_quiz_id) o
+      LEFT JOIN LATERAL (
+        SELECT (x.n - 1)::integer AS position
+        FROM quiz_versions v
+        CROSS JOIN LATERAL jsonb_array_elements(v.questions) WITH ORDINALITY x(question, n)
+        WHERE v.quiz_id = p_quiz_id
+          AND v.version = v_attempt.quiz_version
+          AND (x.question ->> 'id')::uuid = (o.question).id
+      ) old ON true
+    )
+    SELECT
+      coalesce(jsonb_agg(coalesce(p_answers -> m.old_position, '""') ORDER BY m.position), '[]'::jsonb),
+      coalesce(jsonb_agg(coalesce(v_attempt.option_orders -> m.old_position, '[]') ORDER BY m.position), '[]'::jsonb),
+      (
+        SELECT coalesce(jsonb_agg(s.position ORDER BY q.n), '[]'::jsonb)
+        FROM jsonb_array_elements_text(v_attempt.question_order) WITH ORDINALITY q(old_position, n)
+        JOIN moved s ON s.old_position = q.old_position::integer
+      )
+    INTO p_answers, v_attempt.option_orders, v_attempt.question_order
+    FROM moved m;
+  END IF;
+
+  v_served := served_positions(p_quiz_id, v_attempt.question_order);
+  v_total := jsonb_array_length(v_served);
+  v_scores := score_questions(p_quiz_id, p_answers, v_served);
+  v_max_score := quiz_max_score(p_quiz_id, v_served);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    quiz_version,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers, v_served),
+    v_scores,
+    has_ungraded(v_scores, v_served),
+    v_total,
+    v_max_score,
+    v_served,
+    v_attempt.option_orders,
+    v_version,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers, v_served)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_essay(
+  p_response_id uuid,
+  p_question_index integer,
+  p_points numeric,
+  p_feedback text
+)
+RETURNS responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response responses;
+  v_question questions;
+  v_served jsonb;
+  v_scores jsonb;
+  v_feedback jsonb;
+BEGIN
+  SELECT r.* INTO v_response
+  FROM responses r
+  JOIN quizzes q ON q.id = r.quiz_id
+  WHERE r.id = p_response_id
+    AND q.created_by = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response not found';
+  END IF;
+
+  -- Answers line up with the questions of the version the student answered
+  SELECT * INTO v_question
+  FROM jsonb_populate_record(
+    NULL::questions,
+    (
+      SELECT v.questions -> p_question_index
+      FROM quiz_versions v
+      WHERE v.quiz_id = v_response.quiz_id
+        AND v.version = v_response.quiz_version
+    )
+  );
+
+  IF v_question.id IS NULL OR v_question.question_type <> 'essay' THEN
+    RAISE EXCEPTION 'Only essay questions can be graded manually';
+  END IF;
+
+  v_served := served_positions(v_response.quiz_id, v_response.question_order);
+
+  IF NOT v_served @> jsonb_build_array(p_question_index) THEN
+    RAISE EXCEPTION 'Question was not part of this attempt';
+  END IF;
+
+  IF p_points IS NULL OR p_points < 0 OR p_points > v_question.points THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', v_question.points;
+  END IF;
+
+  -- Rebuild both arrays so positions past their current end can be set
+  SELECT
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(p_points) ELSE coalesce(v_response.question_scores -> i, 'null') END
+      ORDER BY i
+    ),
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(nullif(trim(p_feedback), '')) ELSE coalesce(v_response.question_feedback -> i, 'null') END
+      ORDER BY i
+    )
+  INTO v_scores, v_feedback
+  FROM generate_series(0, greatest(jsonb_array_length(v_response.question_scores) - 1, p_question_index)) i;
+
+  UPDATE responses
+  SET question_scores = v_scores,
+      question_feedback = v_feedback,
+      score = (
+        SELECT greatest(coalesce(sum(s::numeric), 0), 0)
+        FROM jsonb_array_elements_text(v_scores) s
+      ),
+      needs_grading = has_ungraded(v_scores, v_served)
+  WHERE id = v_response.id
+  RETURNING * INTO v_response;
+
+  RETURN v_response;
+END;
+$$;
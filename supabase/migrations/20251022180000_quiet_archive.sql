@@ -0,0 +1,293 @@
+/*
+  # Quiz version history and restore
+
+  1. Changes
+    - `quiz_versions.settings` (jsonb) - the quiz's title, description,
+      schedule, attempt and draw settings at that version
+    - `quiz_versions.author_email` (text) - email of the teacher who saved
+      the version
+    - `quiz_versions.restored_from` (integer, optional) - version that was
+      restored to create this one
+    - Existing versions are given the quiz's current settings and the email
+      of their author
+
+  2. New Functions
+    - `quiz_settings(quiz)` - the versioned settings of a quiz
+    - `apply_quiz_questions(quiz_id, questions)` - the in-place question
+      update from `save_quiz_questions`. Questions are inserted with the id
+      they are given, so restoring brings deleted questions back under
+      their old id.
+    - `update_quiz_settings(quiz_id, settings)` - writes the versioned
+      settings; ones missing from `settings` keep their current value
+    - `record_quiz_version(quiz_id, restored_from)` - snapshots the quiz
+      as a new version unless nothing changed since the current one
+    - `save_quiz(quiz_id, settings, questions)` - saves the quiz settings
+      and questions together as one version, replacing
+      `save_quiz_questions`
+    - `restore_quiz_version(quiz_id, version)` - brings back the settings and
+      questions of an earlier version as a new version. Links to bank
+      questions that were deleted since are dropped.
+*/
+
+ALTER TABLE quiz_versions ADD COLUMN IF NOT EXISTS settings jsonb NOT NULL DEFAULT '{}';
+ALTER TABLE quiz_versions ADD COLUMN IF NOT EXISTS author_email text;
+ALTER TABLE quiz_versions ADD COLUMN IF NOT EXISTS restored_from integer;
+
+DROP FUNCTION IF EXISTS save_quiz_questions(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION quiz_settings(p_quiz quizzes)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'title', p_quiz.title,
+    'description', p_quiz.description,
+    'time_limit_minutes', p_quiz.time_limit_minutes,
+    'opens_at', p_quiz.opens_at,
+    'closes_at', p_quiz.closes_at,
+    'max_attempts', p_quiz.max_attempts,
+    'shuffle_questions', p_quiz.shuffle_questions,
+    'shuffle_options', p_quiz.shuffle_options,
+    'questions_per_attempt', p_quiz.questions_per_attempt,
+    'section_draw_counts', p_quiz.section_draw_counts
+  );
+$$;
+
+UPDATE quiz_versions v
+SET settings = quiz_settings(q)
+FROM quizzes q
+WHERE q.id = v.quiz_id;
+
+UPDATE quiz_versions v
+SET author_email = u.email
+FROM auth.users u
+WHERE u.id = v.created_by
+  AND v.author_email IS NULL;
+
+CREATE OR REPLACE FUNCTION apply_quiz_questions(p_quiz_id uuid, p_questions jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_id uuid;
+  v_kept uuid[] := '{}';
+BEGIN
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be an array';
+  END IF;
+
+  -- Row level security does not apply here, so check bank links by hand
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_questions) q
+    WHERE q ->> 'bank_question_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM bank_questions b
+        WHERE b.id = (q ->> 'bank_question_id')::uuid
+          AND b.created_by = auth.uid()
+      )
+  ) THEN
+    RAISE EXCEPTION 'Bank question not found';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_questions)
+  LOOP
+    SELECT id INTO v_id
+    FROM questions
+    WHERE id = (v_row ->> 'id')::uuid
+      AND quiz_id = p_quiz_id;
+
+    IF FOUND THEN
+      -- Fields missing from the row keep their current value
+      UPDATE questions q
+      SET (
+        question_text, question_type, options, correct_answer, correct_answers,
+        partial_credit, answer_pattern, tolerance, tolerance_mode, points,
+        negative_points, order_index, time_limit_seconds, section, bank_question_id
+      ) = (
+        SELECT
+          r.question_text, r.question_type, r.options, r.correct_answer, r.correct_answers,
+          r.partial_credit, r.answer_pattern, r.tolerance, r.tolerance_mode, r.points,
+          r.negative_points, r.order_index, r.time_limit_seconds, r.section, r.bank_question_id
+        FROM jsonb_populate_record(q, v_row) r
+      )
+      WHERE q.id = v_id;
+    ELSE
+      INSERT INTO questions (
+        id, quiz_id, question_text, question_type, options, correct_answer, correct_answers,
+        partial_credit, answer_pattern, tolerance, tolerance_mode, points,
+        negative_points, order_index, time_limit_seconds, section, bank_question_id
+      )
+      SELECT
+        coalesce(r.id, gen_random_uuid()), p_quiz_id, r.question_text, coalesce(r.question_type, 'single_choice'), coalesce(r.options, '[]'),
+        coalesce(r.correct_answer, ''), coalesce(r.correct_answers, '[]'), coalesce(r.partial_credit, 'none'),
+        r.answer_pattern, coalesce(r.tolerance, 0), coalesce(r.tolerance_mode, 'absolute'), coalesce(r.points, 1),
+        coalesce(r.negative_points, 0), coalesce(r.order_index, 0), r.time_limit_seconds, r.section, r.bank_question_id
+      FROM jsonb_populate_record(NULL::questions, v_row) r
+      RETURNING id INTO v_id;
+    END IF;
+
+    v_kept := v_kept || v_id;
+  END LOOP;
+
+  DELETE FROM questions
+  WHERE quiz_id = p_quiz_id
+    AND NOT (id = ANY (v_kept));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_quiz_questions(uuid, jsonb) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION record_quiz_version(p_quiz_id uuid, p_restored_from integer)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_questions jsonb;
+BEGIN
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(o.question) ORDER BY o.position), '[]'::jsonb)
+  INTO v_questions
+  FROM ordered_questions(p_quiz_id) o;
+
+  -- Saving without changes keeps the current version
+  IF EXISTS (
+    SELECT 1 FROM quiz_versions
+    WHERE quiz_id = p_quiz_id
+      AND version = v_quiz.version
+      AND questions = v_questions
+      AND settings = quiz_settings(v_quiz)
+  ) THEN
+    RETURN v_quiz.version;
+  END IF;
+
+  UPDATE quizzes SET version = version + 1 WHERE id = p_quiz_id
+  RETURNING * INTO v_quiz;
+
+  INSERT INTO quiz_versions (quiz_id, version, questions, settings, created_by, author_email, restored_from)
+  VALUES (
+    p_quiz_id,
+    v_quiz.version,
+    v_questions,
+    quiz_settings(v_quiz),
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    p_restored_from
+  );
+
+  RETURN v_quiz.version;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_quiz_version(uuid, integer) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION update_quiz_settings(p_quiz_id uuid, p_settings jsonb)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  -- Settings missing from p_settings keep their current value
+  UPDATE quizzes q
+  SET (
+    title, description, time_limit_minutes, opens_at, closes_at, max_attempts,
+    shuffle_questions, shuffle_options, questions_per_attempt, section_draw_counts
+  ) = (
+    SELECT
+      r.title, r.description, r.time_limit_minutes, r.opens_at, r.closes_at, r.max_attempts,
+      r.shuffle_questions, r.shuffle_options, r.questions_per_attempt, r.section_draw_counts
+    FROM jsonb_populate_record(q, p_settings) r
+  )
+  WHERE q.id = p_quiz_id;
+$$;
+
+REVOKE ALL ON FUNCTION update_quiz_settings(uuid, jsonb) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION save_quiz(p_quiz_id uuid, p_settings jsonb, p_questions jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND created_by = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  PERFORM update_quiz_settings(p_quiz_id, p_settings);
+  PERFORM apply_quiz_questions(p_quiz_id, p_questions);
+
+  RETURN record_quiz_version(p_quiz_id, NULL);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_quiz(uuid, jsonb, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_quiz(uuid, jsonb, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION restore_quiz_version(p_quiz_id uuid, p_version integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version quiz_versions;
+BEGIN
+  PERFORM 1
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND created_by = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  SELECT * INTO v_version
+  FROM quiz_versions
+  WHERE quiz_id = p_quiz_id
+    AND version = p_version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  PERFORM update_quiz_settings(p_quiz_id, v_version.settings);
+  PERFORM apply_quiz_questions(
+    p_quiz_id,
+    (
+      SELECT coalesce(
+        jsonb_agg(
+          CASE
+            WHEN EXISTS (
+              SELECT 1 FROM bank_questions b
+              WHERE b.id = (x.question ->> 'bank_question_id')::uuid
+                AND b.created_by = auth.uid()
+            ) THEN x.question
+            ELSE jsonb_set(x.question, '{bank_question_id}', 'null')
+          END
+          ORDER BY x.n
+        ),
+        '[]'::jsonb
+      )
+      FROM jsonb_array_elements(v_version.questions) WITH ORDINALITY x(question, n)
+    )
+  );
+
+  RETURN record_quiz_version(p_quiz_id, p_version);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restore_quiz_version(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restore_quiz_version(uuid, integer) TO authenticated;
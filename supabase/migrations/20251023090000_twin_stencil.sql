@@ -0,0 +1,65 @@
+/*
+  # Quiz duplication and templates
+
+  1. Changes
+    - `quizzes.is_template` (boolean, default false) - the quiz is offered as
+      a starting point when creating a new quiz
+
+  2. New Functions
+    - `duplicate_quiz(quiz_id, title)` - copies a quiz the caller owns and
+      its questions into a new, inactive quiz with the given title, recorded
+      as its first version. Responses, attempts and version history are not
+      copied, and the copy is not a template. Links to bank questions are
+      kept.
+*/
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS is_template boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION duplicate_quiz(p_quiz_id uuid, p_title text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+BEGIN
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND created_by = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF coalesce(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'A title is required';
+  END IF;
+
+  v_quiz.id := gen_random_uuid();
+  v_quiz.title := trim(p_title);
+  v_quiz.created_at := now();
+  v_quiz.is_active := false;
+  v_quiz.is_template := false;
+  v_quiz.version := 0;
+
+  INSERT INTO quizzes SELECT v_quiz.*;
+
+  -- Questions get new ids in the new quiz
+  PERFORM apply_quiz_questions(
+    v_quiz.id,
+    (
+      SELECT coalesce(jsonb_agg(to_jsonb(o.question) - 'id' - 'quiz_id' ORDER BY o.position), '[]'::jsonb)
+      FROM ordered_questions(p_quiz_id) o
+    )
+  );
+
+  PERFORM record_quiz_version(v_quiz.id, NULL);
+
+  RETURN v_quiz.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION duplicate_quiz(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION duplicate_quiz(uuid, text) TO authenticated;
@@ -0,0 +1,313 @@
+/*
+  # Student accounts and attempt history
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, the auth user)
+      - `role` (text) - 'teacher' or 'student'
+      - `full_name` (text, optional)
+      - `register_number` (text, optional)
+      - `created_at` (timestamptz)
+    - A profile is created for every new user from the sign-up metadata;
+      users who signed up without a role are teachers. Existing users get
+      a teacher profile.
+
+  2. Changes
+    - `responses.student_id` (uuid, optional) - the signed-in user who
+      submitted the response
+
+  3. Security
+    - Users can read and update their own profile, but not change its role
+    - Signed-in students can read open quizzes for taking, like anonymous
+      visitors
+
+  4. New Functions
+    - `review_response(response)` - per-question review of a stored response
+      against the questions of the version it answered, with essay grades
+      and feedback
+    - `get_my_attempts()` - the signed-in user's responses, newest first,
+      with the quiz title and review. Students see the same review they
+      were shown when they submitted.
+
+  5. Changed Functions
+    - `submit_response` links the response to the signed-in user, if any
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'teacher' CHECK (role IN ('teacher', 'student')),
+  full_name text,
+  register_number text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Users can update their own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Students can read active quizzes for taking"
+  ON quizzes
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_active = true
+    AND (opens_at IS NULL OR opens_at <= now())
+    AND (closes_at IS NULL OR closes_at > now())
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'student')
+  );
+
+CREATE OR REPLACE FUNCTION keep_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.role := OLD.role;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_profile_role ON profiles;
+CREATE TRIGGER keep_profile_role
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_profile_role();
+
+CREATE OR REPLACE FUNCTION create_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, role, full_name, register_number)
+  VALUES (
+    NEW.id,
+    CASE WHEN NEW.raw_user_meta_data ->> 'role' = 'student' THEN 'student' ELSE 'teacher' END,
+    nullif(trim(NEW.raw_user_meta_data ->> 'full_name'), ''),
+    nullif(trim(NEW.raw_user_meta_data ->> 'register_number'), '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_profile() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS create_profile ON auth.users;
+CREATE TRIGGER create_profile
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_profile();
+
+INSERT INTO profiles (id, role)
+SELECT id, 'teacher' FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS student_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_responses_student_id ON responses(student_id);
+
+CREATE OR REPLACE FUNCTION review_response(p_response responses)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'position', x.position,
+        'question_text', x.question ->> 'question_text',
+        'question_type', x.question ->> 'question_type',
+        'answer', coalesce(p_response.answers -> x.position, '""'),
+        'correct_answer', correct_answer_of(jsonb_populate_record(NULL::questions, x.question)),
+        'points', coalesce(p_response.question_scores -> x.position, 'null'),
+        'max_points', (x.question ->> 'points')::numeric,
+        'feedback', coalesce(p_response.question_feedback -> x.position, 'null')
+      )
+      ORDER BY s.n
+    ),
+    '[]'::jsonb
+  )
+  FROM quiz_versions v
+  CROSS JOIN LATERAL (
+    SELECT (q.n - 1)::integer AS position, q.question
+    FROM jsonb_array_elements(v.questions) WITH ORDINALITY q(question, n)
+  ) x
+  -- Served order; responses from before question drawing served every question
+  JOIN LATERAL (
+    SELECT o.n
+    FROM jsonb_array_elements_text(
+      CASE
+        WHEN jsonb_array_length(p_response.question_order) > 0 THEN p_response.question_order
+        ELSE (SELECT coalesce(jsonb_agg(i), '[]'::jsonb) FROM generate_series(0, jsonb_array_length(v.questions) - 1) i)
+      END
+    ) WITH ORDINALITY o(position, n)
+    WHERE o.position::integer = x.position
+  ) s ON true
+  WHERE v.quiz_id = p_response.quiz_id
+    AND v.version = p_response.quiz_version;
+$$;
+
+REVOKE ALL ON FUNCTION review_response(responses) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION get_my_attempts()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'response', to_jsonb(r),
+        'quiz_title', q.title,
+        'review', review_response(r)
+      )
+      ORDER BY r.submitted_at DESC
+    ),
+    '[]'::jsonb
+  )
+  FROM responses r
+  JOIN quizzes q ON q.id = r.quiz_id
+  WHERE r.student_id = auth.uid();
+$$;
+
+REVOKE ALL ON FUNCTION get_my_attempts() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_my_attempts() TO authenticated;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_version integer;
+  v_attempt quiz_attempts;
+  v_served jsonb;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  SELECT time_limit_minutes, version INTO v_time_limit, v_version FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  -- The quiz was edited during the attempt: move answers to the current
+  -- positions of the same questions. Questions added since were not served.
+  IF v_attempt.quiz_version <> v_version THEN
+    WITH moved AS (
+      SELECT o.position, old.position AS old_position
+      FROM ordered_questions(p_quiz_id) o
+      LEFT JOIN LATERAL (
+        SELECT (x.n - 1)::integer AS position
+        FROM quiz_versions v
+        CROSS JOIN LATERAL jsonb_array_elements(v.questions) WITH ORDINALITY x(question, n)
+        WHERE v.quiz_id = p_quiz_id
+          AND v.version = v_attempt.quiz_version
+          AND (x.question ->> 'id')::uuid = (o.question).id
+      ) old ON true
+    )
+    SELECT
+      coalesce(jsonb_agg(coalesce(p_answers -> m.old_position, '""') ORDER BY m.position), '[]'::jsonb),
+      coalesce(jsonb_agg(coalesce(v_attempt.option_orders -> m.old_position, '[]') ORDER BY m.position), '[]'::jsonb),
+      (
+        SELECT coalesce(jsonb_agg(s.position ORDER BY q.n), '[]'::jsonb)
+        FROM jsonb_array_elements_text(v_attempt.question_order) WITH ORDINALITY q(old_position, n)
+        JOIN moved s ON s.old_position = q.old_position::integer
+      )
+    INTO p_answers, v_attempt.option_orders, v_attempt.question_order
+    FROM moved m;
+  END IF;
+
+  v_served := served_positions(p_quiz_id, v_attempt.question_order);
+  v_total := jsonb_array_length(v_served);
+  v_scores := score_questions(p_quiz_id, p_answers, v_served);
+  v_max_score := quiz_max_score(p_quiz_id, v_served);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    quiz_version,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    auth.uid(),
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers, v_served),
+    v_scores,
+    has_ungraded(v_scores, v_served),
+    v_total,
+    v_max_score,
+    v_served,
+    v_attempt.option_orders,
+    v_version,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers, v_served)
+  );
+END;
+$$;
@@ -0,0 +1,253 @@
+/*
+  # Roles: teachers, students and school admins
+
+  1. Changes
+    - `profiles.role` also allows 'admin'. Admins are made in SQL:
+      `UPDATE profiles SET role = 'admin' WHERE id = '<user id>';`
+    - `profiles.is_active` (boolean, default true) - deactivated accounts
+      are banned from signing in and lose their role in every policy
+    - Users can only update the name and register number of their profile,
+      replacing the `keep_profile_role` trigger
+
+  2. Security
+    - Quiz, question, response, version and bank policies require an active
+      teacher; admins count as teachers for their own quizzes
+    - Admins can read every quiz, question, response and profile
+    - Only active students can read open quizzes for taking while signed in
+
+  3. New Functions
+    - `has_role(role)` - the caller's profile is active and has the role
+    - `get_teachers()` - admin only: teachers and admins with their email
+      and number of quizzes
+    - `reassign_quiz(quiz_id, owner_id)` - admin only: moves a quiz to another
+      active teacher
+    - `set_account_active(user_id, active)` - admin only: deactivates or
+      reactivates an account
+*/
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('teacher', 'student', 'admin'));
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+DROP TRIGGER IF EXISTS keep_profile_role ON profiles;
+DROP FUNCTION IF EXISTS keep_profile_role();
+
+REVOKE UPDATE ON profiles FROM anon, authenticated;
+GRANT UPDATE (full_name, register_number) ON profiles TO authenticated;
+
+CREATE OR REPLACE FUNCTION has_role(p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND is_active
+      AND (role = p_role OR (role = 'admin' AND p_role = 'teacher'))
+  );
+$$;
+
+REVOKE ALL ON FUNCTION has_role(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION has_role(text) TO authenticated;
+
+-- Profiles
+CREATE POLICY "Admins can read all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin'));
+
+-- Quizzes
+DROP POLICY IF EXISTS "Teachers can CRUD their own quizzes" ON quizzes;
+CREATE POLICY "Teachers can CRUD their own quizzes"
+  ON quizzes
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid() AND has_role('teacher'))
+  WITH CHECK (created_by = auth.uid() AND has_role('teacher'));
+
+CREATE POLICY "Admins can read all quizzes"
+  ON quizzes
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin'));
+
+DROP POLICY IF EXISTS "Students can read active quizzes for taking" ON quizzes;
+CREATE POLICY "Students can read active quizzes for taking"
+  ON quizzes
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_active = true
+    AND (opens_at IS NULL OR opens_at <= now())
+    AND (closes_at IS NULL OR closes_at > now())
+    AND has_role('student')
+  );
+
+-- Questions
+DROP POLICY IF EXISTS "Teachers can CRUD questions for their quizzes" ON questions;
+CREATE POLICY "Teachers can CRUD questions for their quizzes"
+  ON questions
+  FOR ALL
+  TO authenticated
+  USING (
+    has_role('teacher')
+    AND quiz_id IN (SELECT id FROM quizzes WHERE created_by = auth.uid())
+  )
+  WITH CHECK (
+    has_role('teacher')
+    AND quiz_id IN (SELECT id FROM quizzes WHERE created_by = auth.uid())
+  );
+
+CREATE POLICY "Admins can read all questions"
+  ON questions
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin'));
+
+-- Responses
+DROP POLICY IF EXISTS "Teachers can read responses for their quizzes" ON responses;
+CREATE POLICY "Teachers can read responses for their quizzes"
+  ON responses
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role('teacher')
+    AND quiz_id IN (SELECT id FROM quizzes WHERE created_by = auth.uid())
+  );
+
+CREATE POLICY "Admins can read all responses"
+  ON responses
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin'));
+
+-- Versions
+DROP POLICY IF EXISTS "Teachers can read versions of their quizzes" ON quiz_versions;
+CREATE POLICY "Teachers can read versions of their quizzes"
+  ON quiz_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role('teacher')
+    AND EXISTS (
+      SELECT 1 FROM quizzes
+      WHERE quizzes.id = quiz_versions.quiz_id
+        AND quizzes.created_by = auth.uid()
+    )
+  );
+
+-- Question bank
+DROP POLICY IF EXISTS "Teachers can CRUD their own bank questions" ON bank_questions;
+CREATE POLICY "Teachers can CRUD their own bank questions"
+  ON bank_questions
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid() AND has_role('teacher'))
+  WITH CHECK (created_by = auth.uid() AND has_role('teacher'));
+
+CREATE OR REPLACE FUNCTION get_teachers()
+RETURNS TABLE (
+  id uuid,
+  email text,
+  role text,
+  full_name text,
+  is_active boolean,
+  created_at timestamptz,
+  quiz_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can list teachers';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    u.email::text,
+    p.role,
+    p.full_name,
+    p.is_active,
+    p.created_at,
+    (SELECT count(*)::integer FROM quizzes q WHERE q.created_by = p.id)
+  FROM profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE p.role IN ('teacher', 'admin')
+  ORDER BY u.email;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_teachers() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_teachers() TO authenticated;
+
+CREATE OR REPLACE FUNCTION reassign_quiz(p_quiz_id uuid, p_owner_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can reassign quizzes';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_owner_id
+      AND is_active
+      AND role IN ('teacher', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be an active teacher';
+  END IF;
+
+  UPDATE quizzes SET created_by = p_owner_id WHERE id = p_quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reassign_quiz(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reassign_quiz(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_account_active(p_user_id uuid, p_active boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can deactivate accounts';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  UPDATE profiles SET is_active = p_active WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  -- Sessions already signed in end when their access token expires
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_active THEN NULL ELSE 'infinity'::timestamptz END
+  WHERE id = p_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_account_active(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_account_active(uuid, boolean) TO authenticated;
@@ -0,0 +1,601 @@
+/*
+  # Co-teacher sharing
+
+  1. New Tables
+    - `quiz_collaborators`
+      - `quiz_id` (uuid, references quizzes)
+      - `user_id` (uuid, references auth.users)
+      - `permission` (text) - 'viewer', 'editor' or 'owner'
+      - `added_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+    - The teacher in `quizzes.created_by` is always an owner.
+      Viewers see the quiz, its versions and responses. Editors can also
+      change the quiz and grade essays. Owners can also delete the quiz and
+      share it.
+
+  2. Security
+    - Quiz, question, version and response policies check the caller's
+      permission instead of `created_by`
+    - Collaborators of a quiz can see who it is shared with; sharing goes
+      through `share_quiz` and `unshare_quiz`
+    - Only admins can change `quizzes.created_by`
+
+  3. New Functions
+    - `quiz_permission(quiz_id)` - the caller's permission on a quiz, or
+      null
+    - `can_access_quiz(quiz_id, permission)` - the caller has at least that
+      permission
+    - `get_quiz_collaborators(quiz_id)` - the owner and collaborators of a
+      quiz with their emails
+    - `share_quiz(quiz_id, email, permission)` - owners only: shares a quiz
+      with an active teacher, or changes their permission
+    - `unshare_quiz(quiz_id, user_id)` - owners only: stops sharing a quiz
+      with a collaborator
+
+  4. Changed Functions
+    - `save_quiz`, `restore_quiz_version` and `grade_essay` need editor
+      permission
+    - `duplicate_quiz` needs viewer permission; the copy belongs to the
+      caller and drops links to other teachers' bank questions
+    - `apply_quiz_questions` accepts links to bank questions the quiz
+      already uses, so co-teachers can save each other's bank questions
+*/
+
+CREATE TABLE IF NOT EXISTS quiz_collaborators (
+  quiz_id uuid NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission text NOT NULL CHECK (permission IN ('viewer', 'editor', 'owner')),
+  added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (quiz_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_collaborators_user_id ON quiz_collaborators(user_id);
+
+ALTER TABLE quiz_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION quiz_permission(p_quiz_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN NOT has_role('teacher') THEN NULL
+    WHEN EXISTS (SELECT 1 FROM quizzes WHERE id = p_quiz_id AND created_by = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT permission FROM quiz_collaborators
+      WHERE quiz_id = p_quiz_id
+        AND user_id = auth.uid()
+    )
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION quiz_permission(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION quiz_permission(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION can_access_quiz(p_quiz_id uuid, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    array_position(ARRAY['viewer', 'editor', 'owner'], quiz_permission(p_quiz_id))
+      >= array_position(ARRAY['viewer', 'editor', 'owner'], p_permission),
+    false
+  );
+$$;
+
+REVOKE ALL ON FUNCTION can_access_quiz(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION can_access_quiz(uuid, text) TO authenticated;
+
+CREATE POLICY "Collaborators can see who a quiz is shared with"
+  ON quiz_collaborators
+  FOR SELECT
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'viewer'));
+
+-- Quizzes
+DROP POLICY IF EXISTS "Teachers can CRUD their own quizzes" ON quizzes;
+
+CREATE POLICY "Teachers can create quizzes"
+  ON quizzes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND has_role('teacher'));
+
+CREATE POLICY "Collaborators can read quizzes"
+  ON quizzes
+  FOR SELECT
+  TO authenticated
+  USING (can_access_quiz(id, 'viewer'));
+
+CREATE POLICY "Editors can update quizzes"
+  ON quizzes
+  FOR UPDATE
+  TO authenticated
+  USING (can_access_quiz(id, 'editor'))
+  WITH CHECK (can_access_quiz(id, 'editor'));
+
+CREATE POLICY "Owners can delete quizzes"
+  ON quizzes
+  FOR DELETE
+  TO authenticated
+  USING (can_access_quiz(id, 'owner'));
+
+CREATE OR REPLACE FUNCTION keep_quiz_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by AND NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change who created a quiz';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_quiz_owner ON quizzes;
+CREATE TRIGGER keep_quiz_owner
+  BEFORE UPDATE ON quizzes
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_quiz_owner();
+
+-- Questions
+DROP POLICY IF EXISTS "Teachers can CRUD questions for their quizzes" ON questions;
+
+CREATE POLICY "Collaborators can read questions"
+  ON questions
+  FOR SELECT
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'viewer'));
+
+CREATE POLICY "Editors can change questions"
+  ON questions
+  FOR ALL
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'editor'))
+  WITH CHECK (can_access_quiz(quiz_id, 'editor'));
+
+-- Responses
+DROP POLICY IF EXISTS "Teachers can read responses for their quizzes" ON responses;
+
+CREATE POLICY "Collaborators can read responses"
+  ON responses
+  FOR SELECT
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'viewer'));
+
+-- Versions
+DROP POLICY IF EXISTS "Teachers can read versions of their quizzes" ON quiz_versions;
+
+CREATE POLICY "Collaborators can read versions"
+  ON quiz_versions
+  FOR SELECT
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'viewer'));
+
+CREATE OR REPLACE FUNCTION get_quiz_collaborators(p_quiz_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  permission text,
+  is_creator boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_access_quiz(p_quiz_id, 'viewer') THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::text, p.full_name, 'owner'::text, true
+  FROM quizzes q
+  JOIN auth.users u ON u.id = q.created_by
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE q.id = p_quiz_id
+  UNION ALL
+  SELECT * FROM (
+    SELECT u.id, u.email::text, p.full_name, c.permission, false
+    FROM quiz_collaborators c
+    JOIN auth.users u ON u.id = c.user_id
+    LEFT JOIN profiles p ON p.id = u.id
+    WHERE c.quiz_id = p_quiz_id
+    ORDER BY u.email
+  ) collaborators;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_quiz_collaborators(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_quiz_collaborators(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION share_quiz(p_quiz_id uuid, p_email text, p_permission text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT can_access_quiz(p_quiz_id, 'owner') THEN
+    RAISE EXCEPTION 'Only owners can share a quiz';
+  END IF;
+
+  IF p_permission IS NULL OR p_permission NOT IN ('viewer', 'editor', 'owner') THEN
+    RAISE EXCEPTION 'Permission must be viewer, editor or owner';
+  END IF;
+
+  SELECT u.id INTO v_user_id
+  FROM auth.users u
+  JOIN profiles p ON p.id = u.id
+  WHERE lower(u.email) = lower(trim(p_email))
+    AND p.is_active
+    AND p.role IN ('teacher', 'admin');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active teacher has that email';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM quizzes WHERE id = p_quiz_id AND created_by = v_user_id) THEN
+    RAISE EXCEPTION 'This teacher created the quiz';
+  END IF;
+
+  INSERT INTO quiz_collaborators (quiz_id, user_id, permission, added_by)
+  VALUES (p_quiz_id, v_user_id, p_permission, auth.uid())
+  ON CONFLICT (quiz_id, user_id) DO UPDATE SET permission = EXCLUDED.permission;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION share_quiz(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION share_quiz(uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION unshare_quiz(p_quiz_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_access_quiz(p_quiz_id, 'owner') THEN
+    RAISE EXCEPTION 'Only owners can stop sharing a quiz';
+  END IF;
+
+  DELETE FROM quiz_collaborators
+  WHERE quiz_id = p_quiz_id
+    AND user_id = p_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION unshare_quiz(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION unshare_quiz(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION apply_quiz_questions(p_quiz_id uuid, p_questions jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_id uuid;
+  v_kept uuid[] := '{}';
+BEGIN
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be an array';
+  END IF;
+
+  -- Row level security does not apply here, so check bank links by hand
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_questions) q
+    WHERE q ->> 'bank_question_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM bank_questions b
+        WHERE b.id = (q ->> 'bank_question_id')::uuid
+          AND (
+            b.created_by = auth.uid()
+            -- Co-teachers keep links to each other's bank questions
+            OR EXISTS (
+              SELECT 1 FROM questions x
+              WHERE x.quiz_id = p_quiz_id
+                AND x.bank_question_id = b.id
+            )
+          )
+      )
+  ) THEN
+    RAISE EXCEPTION 'Bank question not found';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_questions)
+  LOOP
+    SELECT id INTO v_id
+    FROM questions
+    WHERE id = (v_row ->> 'id')::uuid
+      AND quiz_id = p_quiz_id;
+
+    IF FOUND THEN
+      -- Fields missing from the row keep their current value
+      UPDATE questions q
+      SET (
+        question_text, question_type, options, correct_answer, correct_answers,
+        partial_credit, answer_pattern, tolerance, tolerance_mode, points,
+        negative_points, order_index, time_limit_seconds, section, bank_question_id
+      ) = (
+        SELECT
+          r.question_text, r.question_type, r.options, r.correct_answer, r.correct_answers,
+          r.partial_credit, r.answer_pattern, r.tolerance, r.tolerance_mode, r.points,
+          r.negative_points, r.order_index, r.time_limit_seconds, r.section, r.bank_question_id
+        FROM jsonb_populate_record(q, v_row) r
+      )
+      WHERE q.id = v_id;
+    ELSE
+      INSERT INTO questions (
+        id, quiz_id, question_text, question_type, options, correct_answer, correct_answers,
+        partial_credit, answer_pattern, tolerance, tolerance_mode, points,
+        negative_points, order_index, time_limit_seconds, section, bank_question_id
+      )
+      SELECT
+        coalesce(r.id, gen_random_uuid()), p_quiz_id, r.question_text, coalesce(r.question_type, 'single_choice'), coalesce(r.options, '[]'),
+        coalesce(r.correct_answer, ''), coalesce(r.correct_answers, '[]'), coalesce(r.partial_credit, 'none'),
+        r.answer_pattern, coalesce(r.tolerance, 0), coalesce(r.tolerance_mode, 'absolute'), coalesce(r.points, 1),
+        coalesce(r.negative_points, 0), coalesce(r.order_index, 0), r.time_limit_seconds, r.section, r.bank_question_id
+      FROM jsonb_populate_record(NULL::questions, v_row) r
+      RETURNING id INTO v_id;
+    END IF;
+
+    v_kept := v_kept || v_id;
+  END LOOP;
+
+  DELETE FROM questions
+  WHERE quiz_id = p_quiz_id
+    AND NOT (id = ANY (v_kept));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_quiz_questions(uuid, jsonb) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION save_quiz(p_quiz_id uuid, p_settings jsonb, p_questions jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND can_access_quiz(id, 'editor')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  PERFORM update_quiz_settings(p_quiz_id, p_settings);
+  PERFORM apply_quiz_questions(p_quiz_id, p_questions);
+
+  RETURN record_quiz_version(p_quiz_id, NULL);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_quiz(uuid, jsonb, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_quiz(uuid, jsonb, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION restore_quiz_version(p_quiz_id uuid, p_version integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version quiz_versions;
+BEGIN
+  PERFORM 1
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND can_access_quiz(id, 'editor')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  SELECT * INTO v_version
+  FROM quiz_versions
+  WHERE quiz_id = p_quiz_id
+    AND version = p_version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  PERFORM update_quiz_settings(p_quiz_id, v_version.settings);
+  PERFORM apply_quiz_questions(
+    p_quiz_id,
+    (
+      SELECT coalesce(
+        jsonb_agg(
+          CASE
+            WHEN EXISTS (
+              SELECT 1 FROM bank_questions b
+              WHERE b.id = (x.question ->> 'bank_question_id')::uuid
+                AND (
+                  b.created_by = auth.uid()
+                  OR EXISTS (
+                    SELECT 1 FROM questions q
+                    WHERE q.quiz_id = p_quiz_id
+                      AND q.bank_question_id = b.id
+                  )
+                )
+            ) THEN x.question
+            ELSE jsonb_set(x.question, '{bank_question_id}', 'null')
+          END
+          ORDER BY x.n
+        ),
+        '[]'::jsonb
+      )
+      FROM jsonb_array_elements(v_version.questions) WITH ORDINALITY x(question, n)
+    )
+  );
+
+  RETURN record_quiz_version(p_quiz_id, p_version);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restore_quiz_version(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restore_quiz_version(uuid, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION duplicate_quiz(p_quiz_id uuid, p_title text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+BEGIN
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND can_access_quiz(id, 'viewer');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF coalesce(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'A title is required';
+  END IF;
+
+  v_quiz.id := gen_random_uuid();
+  v_quiz.title := trim(p_title);
+  v_quiz.created_by := auth.uid();
+  v_quiz.created_at := now();
+  v_quiz.is_active := false;
+  v_quiz.is_template := false;
+  v_quiz.version := 0;
+
+  INSERT INTO quizzes SELECT v_quiz.*;
+
+  -- Questions get new ids in the new quiz. Links to another teacher's bank
+  -- questions are dropped.
+  PERFORM apply_quiz_questions(
+    v_quiz.id,
+    (
+      SELECT coalesce(
+        jsonb_agg(
+          CASE
+            WHEN EXISTS (
+              SELECT 1 FROM bank_questions b
+              WHERE b.id = (o.question).bank_question_id
+                AND b.created_by = auth.uid()
+            ) THEN to_jsonb(o.question) - 'id' - 'quiz_id'
+            ELSE jsonb_set(to_jsonb(o.question) - 'id' - 'quiz_id', '{bank_question_id}', 'null')
+          END
+          ORDER BY o.position
+        ),
+        '[]'::jsonb
+      )
+      FROM ordered_questions(p_quiz_id) o
+    )
+  );
+
+  PERFORM record_quiz_version(v_quiz.id, NULL);
+
+  RETURN v_quiz.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION duplicate_quiz(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION duplicate_quiz(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION grade_essay(
+  p_response_id uuid,
+  p_question_index integer,
+  p_points numeric,
+  p_feedback text
+)
+RETURNS responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response responses;
+  v_question questions;
+  v_served jsonb;
+  v_scores jsonb;
+  v_feedback jsonb;
+BEGIN
+  SELECT r.* INTO v_response
+  FROM responses r
+  WHERE r.id = p_response_id
+    AND can_access_quiz(r.quiz_id, 'editor')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response not found';
+  END IF;
+
+  -- Answers line up with the questions of the version the student answered
+  SELECT * INTO v_question
+  FROM jsonb_populate_record(
+    NULL::questions,
+    (
+      SELECT v.questions -> p_question_index
+      FROM quiz_versions v
+      WHERE v.quiz_id = v_response.quiz_id
+        AND v.version = v_response.quiz_version
+    )
+  );
+
+  IF v_question.id IS NULL OR v_question.question_type <> 'essay' THEN
+    RAISE EXCEPTION 'Only essay questions can be graded manually';
+  END IF;
+
+  v_served := served_positions(v_response.quiz_id, v_response.question_order);
+
+  IF NOT v_served @> jsonb_build_array(p_question_index) THEN
+    RAISE EXCEPTION 'Question was not part of this attempt';
+  END IF;
+
+  IF p_points IS NULL OR p_points < 0 OR p_points > v_question.points THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', v_question.points;
+  END IF;
+
+  -- Rebuild both arrays so positions past their current end can be set
+  SELECT
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(p_points) ELSE coalesce(v_response.question_scores -> i, 'null') END
+      ORDER BY i
+    ),
+    jsonb_agg(
+      CASE WHEN i = p_question_index THEN to_jsonb(nullif(trim(p_feedback), '')) ELSE coalesce(v_response.question_feedback -> i, 'null') END
+      ORDER BY i
+    )
+  INTO v_scores, v_feedback
+  FROM generate_series(0, greatest(jsonb_array_length(v_response.question_scores) - 1, p_question_index)) i;
+
+  UPDATE responses
+  SET question_scores = v_scores,
+      question_feedback = v_feedback,
+      score = (
+        SELECT greatest(coalesce(sum(s::numeric), 0), 0)
+        FROM jsonb_array_elements_text(v_scores) s
+      ),
+      needs_grading = has_ungraded(v_scores, v_served)
+  WHERE id = v_response.id
+  RETURNING * INTO v_response;
+
+  RETURN v_response;
+END;
+$$;
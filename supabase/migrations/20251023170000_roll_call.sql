@@ -0,0 +1,389 @@
+/*
+  # Classes and rosters
+
+  1. New Tables
+    - `classes`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+    - `class_students` - the roster of a class
+      - `id` (uuid, primary key)
+      - `class_id` (uuid, references classes)
+      - `student_name` (text)
+      - `student_email` (text)
+      - `student_register_number` (text, unique within a class ignoring case)
+      - `created_at` (timestamptz)
+    - `quiz_classes` - classes a quiz is assigned to
+      - `quiz_id` (uuid, references quizzes)
+      - `class_id` (uuid, references classes)
+    - A quiz assigned to classes only accepts submissions from students on
+      one of their rosters; other quizzes stay open to anyone with the link.
+
+  2. Security
+    - Teachers manage their own classes and rosters
+    - Editors of a quiz can assign it to their own classes
+    - Collaborators of a quiz can read the classes and rosters it is
+      assigned to, to see who has not submitted
+
+  3. New Functions
+    - `quiz_has_roster(quiz_id)` - the quiz is assigned to a class, so the
+      student has to give their details before starting it
+    - `is_on_quiz_roster(quiz_id, name, email, register_number)` - the
+      student is on the roster of a class the quiz is assigned to, or the
+      quiz is not assigned to any class. The register number and name must
+      match, and the email too when the roster has one, ignoring case and
+      extra spaces. Only used inside the functions below, so it cannot be
+      called to look up who is on a roster.
+
+  4. Changed Functions
+    - `start_quiz_attempt(quiz_id, name, email, register_number)` rejects
+      students who are not on the roster, so their questions are never
+      served
+    - `submit_response` checks the same details against the roster
+*/
+
+CREATE TABLE IF NOT EXISTS classes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS class_students (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_name text NOT NULL,
+  student_email text NOT NULL DEFAULT '',
+  student_register_number text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_class_students_register_number
+  ON class_students(class_id, lower(trim(student_register_number)));
+
+CREATE TABLE IF NOT EXISTS quiz_classes (
+  quiz_id uuid NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  class_id uuid NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  PRIMARY KEY (quiz_id, class_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classes_created_by ON classes(created_by);
+CREATE INDEX IF NOT EXISTS idx_quiz_classes_class_id ON quiz_classes(class_id);
+
+ALTER TABLE classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_classes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can CRUD their own classes"
+  ON classes
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid() AND has_role('teacher'))
+  WITH CHECK (created_by = auth.uid() AND has_role('teacher'));
+
+CREATE POLICY "Collaborators can read classes of their quizzes"
+  ON classes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quiz_classes qc
+      WHERE qc.class_id = classes.id
+        AND can_access_quiz(qc.quiz_id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Teachers can CRUD students in their classes"
+  ON class_students
+  FOR ALL
+  TO authenticated
+  USING (
+    has_role('teacher')
+    AND class_id IN (SELECT id FROM classes WHERE created_by = auth.uid())
+  )
+  WITH CHECK (
+    has_role('teacher')
+    AND class_id IN (SELECT id FROM classes WHERE created_by = auth.uid())
+  );
+
+CREATE POLICY "Collaborators can read rosters of their quizzes"
+  ON class_students
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quiz_classes qc
+      WHERE qc.class_id = class_students.class_id
+        AND can_access_quiz(qc.quiz_id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Collaborators can read quiz classes"
+  ON quiz_classes
+  FOR SELECT
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'viewer'));
+
+CREATE POLICY "Editors can assign their classes"
+  ON quiz_classes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    can_access_quiz(quiz_id, 'editor')
+    AND class_id IN (SELECT id FROM classes WHERE created_by = auth.uid())
+  );
+
+CREATE POLICY "Editors can unassign classes"
+  ON quiz_classes
+  FOR DELETE
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'editor'));
+
+CREATE OR REPLACE FUNCTION quiz_has_roster(p_quiz_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM quiz_classes WHERE quiz_id = p_quiz_id);
+$$;
+
+REVOKE ALL ON FUNCTION quiz_has_roster(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION quiz_has_roster(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION is_on_quiz_roster(
+  p_quiz_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM quiz_classes WHERE quiz_id = p_quiz_id)
+    OR EXISTS (
+      SELECT 1
+      FROM quiz_classes qc
+      JOIN class_students s ON s.class_id = qc.class_id
+      WHERE qc.quiz_id = p_quiz_id
+        AND lower(trim(s.student_register_number)) = lower(trim(p_student_register_number))
+        AND lower(regexp_replace(trim(s.student_name), '\s+', ' ', 'g'))
+          = lower(regexp_replace(trim(p_student_name), '\s+', ' ', 'g'))
+        AND (trim(s.student_email) = '' OR lower(trim(s.student_email)) = lower(trim(p_student_email)))
+    );
+$$;
+
+-- Only called from start_quiz_attempt and submit_response
+REVOKE ALL ON FUNCTION is_on_quiz_roster(uuid, text, text, text) FROM PUBLIC;
+
+
+DROP FUNCTION IF EXISTS start_quiz_attempt(uuid);
+
+CREATE FUNCTION start_quiz_attempt(
+  p_quiz_id uuid,
+  p_student_name text DEFAULT NULL,
+  p_student_email text DEFAULT NULL,
+  p_student_register_number text DEFAULT NULL
+)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_question_order jsonb;
+  v_option_orders jsonb;
+  v_attempt quiz_attempts;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available';
+  END IF;
+
+  IF NOT is_on_quiz_roster(p_quiz_id, p_student_name, p_student_email, p_student_register_number) THEN
+    RAISE EXCEPTION 'Student details are not on the class roster for this quiz';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  -- Draw from each section, then order the drawn questions. random() is
+  -- null when shuffling is off, leaving the canonical order.
+  SELECT coalesce(
+    jsonb_agg(d.position ORDER BY CASE WHEN v_quiz.shuffle_questions THEN random() END, d.position),
+    '[]'::jsonb
+  )
+  INTO v_question_order
+  FROM (
+    SELECT
+      o.position,
+      (o.question).section AS section,
+      row_number() OVER (PARTITION BY (o.question).section ORDER BY random()) AS draw_rank
+    FROM ordered_questions(p_quiz_id) o
+  ) d
+  WHERE d.draw_rank <= coalesce(
+    CASE
+      WHEN d.section IS NULL THEN v_quiz.questions_per_attempt
+      ELSE (v_quiz.section_draw_counts ->> d.section)::integer
+    END,
+    d.draw_rank
+  );
+
+  SELECT coalesce(
+    jsonb_agg(
+      (
+        SELECT coalesce(
+          jsonb_agg(i ORDER BY CASE WHEN v_quiz.shuffle_options THEN random() END, i),
+          '[]'::jsonb
+        )
+        FROM generate_series(0, jsonb_array_length((o.question).options) - 1) i
+      )
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_option_orders
+  FROM ordered_questions(p_quiz_id) o;
+
+  INSERT INTO quiz_attempts (quiz_id, quiz_version, question_order, option_orders)
+  VALUES (p_quiz_id, v_quiz.version, v_question_order, v_option_orders)
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_quiz_attempt(uuid, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(uuid, text, text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_version integer;
+  v_attempt quiz_attempts;
+  v_served jsonb;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  IF NOT is_on_quiz_roster(p_quiz_id, p_student_name, p_student_email, p_student_register_number) THEN
+    RAISE EXCEPTION 'Student details are not on the class roster for this quiz';
+  END IF;
+
+  SELECT time_limit_minutes, version INTO v_time_limit, v_version FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  -- The quiz was edited during the attempt: move answers to the current
+  -- positions of the same questions. Questions added since were not served.
+  IF v_attempt.quiz_version <> v_version THEN
+    WITH moved AS (
+      SELECT o.position, old.position AS old_position
+      FROM ordered_questions(p_quiz_id) o
+      LEFT JOIN LATERAL (
+        SELECT (x.n - 1)::integer AS position
+        FROM quiz_versions v
+        CROSS JOIN LATERAL jsonb_array_elements(v.questions) WITH ORDINALITY x(question, n)
+        WHERE v.quiz_id = p_quiz_id
+          AND v.version = v_attempt.quiz_version
+          AND (x.question ->> 'id')::uuid = (o.question).id
+      ) old ON true
+    )
+    SELECT
+      coalesce(jsonb_agg(coalesce(p_answers -> m.old_position, '""') ORDER BY m.position), '[]'::jsonb),
+      coalesce(jsonb_agg(coalesce(v_attempt.option_orders -> m.old_position, '[]') ORDER BY m.position), '[]'::jsonb),
+      (
+        SELECT coalesce(jsonb_agg(s.position ORDER BY q.n), '[]'::jsonb)
+        FROM jsonb_array_elements_text(v_attempt.question_order) WITH ORDINALITY q(old_position, n)
+        JOIN moved s ON s.old_position = q.old_position::integer
+      )
+    INTO p_answers, v_attempt.option_orders, v_attempt.question_order
+    FROM moved m;
+  END IF;
+
+  v_served := served_positions(p_quiz_id, v_attempt.question_order);
+  v_total := jsonb_array_length(v_served);
+  v_scores := score_questions(p_quiz_id, p_answers, v_served);
+  v_max_score := quiz_max_score(p_quiz_id, v_served);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    quiz_version,
+    started_at,
+    is_late
+  )
+  VALUES (
+    p_quiz_id,
+    auth.uid(),
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers, v_served),
+    v_scores,
+    has_ungraded(v_scores, v_served),
+    v_total,
+    v_max_score,
+    v_served,
+    v_attempt.option_orders,
+    v_version,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds'
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers, v_served)
+  );
+END;
+$$;
@@ -0,0 +1,388 @@
+/*
+  # Quiz access codes
+
+  1. New Tables
+    - `quiz_access_codes` - the code students must enter to start a quiz;
+      quizzes without one stay open to anyone with the link
+      - `quiz_id` (uuid, primary key, references quizzes)
+      - `code` (text) - eight upper-case letters and digits
+      - `updated_by` (uuid, references auth.users)
+      - `updated_at` (timestamptz)
+    - `quiz_access_code_failures` - wrong codes entered, to throttle
+      guessing
+      - `id` (uuid, primary key)
+      - `quiz_id` (uuid, references quizzes)
+      - `client` (text) - the address the request came from
+      - `failed_at` (timestamptz)
+
+  2. Changes
+    - `quiz_attempts.access_code` and `responses.access_code` (text,
+      optional) - the code the attempt was started with. A response keeps
+      it after the code is rotated.
+
+  3. Security
+    - Enable RLS on `quiz_access_codes`. Collaborators of a quiz can read
+      its code; codes are only written by the functions below, and students
+      never read them, since quizzes are readable by anyone.
+    - Enable RLS on `quiz_access_code_failures` with no policies; only the
+      functions below use it.
+
+  4. New Functions
+    - `quiz_requires_access_code(quiz_id)` - the quiz has an access code
+    - `rotate_quiz_access_code(quiz_id)` - editors only: replaces the code
+      with a new one drawn from pgcrypto's `gen_random_bytes`, or adds one,
+      and returns it
+    - `remove_quiz_access_code(quiz_id)` - editors only: opens the quiz to
+      anyone with the link again
+
+  5. Changed Functions
+    - `start_quiz_attempt(quiz_id, access_code, name, email,
+      register_number)` rejects a missing or wrong code, so questions are
+      never served without it. Attempts already started keep working after
+      the code is rotated. A wrong code returns null instead of raising, so
+      the failed try is recorded; after 5 wrong codes for a quiz within 15
+      minutes, the client is refused until the window has passed.
+    - `submit_response` records the attempt's access code
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS quiz_access_codes (
+  quiz_id uuid PRIMARY KEY REFERENCES quizzes(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE quiz_access_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can read access codes"
+  ON quiz_access_codes
+  FOR SELECT
+  TO authenticated
+  USING (can_access_quiz(quiz_id, 'viewer'));
+
+CREATE TABLE IF NOT EXISTS quiz_access_code_failures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id uuid NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  client text NOT NULL,
+  failed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_access_code_failures_client
+  ON quiz_access_code_failures(quiz_id, client, failed_at);
+
+ALTER TABLE quiz_access_code_failures ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE quiz_attempts ADD COLUMN IF NOT EXISTS access_code text;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS access_code text;
+
+CREATE OR REPLACE FUNCTION quiz_requires_access_code(p_quiz_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM quiz_access_codes WHERE quiz_id = p_quiz_id);
+$$;
+
+REVOKE ALL ON FUNCTION quiz_requires_access_code(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION quiz_requires_access_code(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION rotate_quiz_access_code(p_quiz_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bytes bytea;
+  v_code text;
+BEGIN
+  IF NOT can_access_quiz(p_quiz_id, 'editor') THEN
+    RAISE EXCEPTION 'Only editors can change the access code';
+  END IF;
+
+  -- Leaves out 0, O, 1 and I, which are easy to misread. The alphabet has
+  -- 32 characters, so every random byte maps onto it without bias.
+  v_bytes := extensions.gen_random_bytes(8);
+
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + get_byte(v_bytes, i) % 32, 1), '' ORDER BY i)
+  INTO v_code
+  FROM generate_series(0, 7) AS i;
+
+  INSERT INTO quiz_access_codes (quiz_id, code, updated_by, updated_at)
+  VALUES (p_quiz_id, v_code, auth.uid(), now())
+  ON CONFLICT (quiz_id) DO UPDATE
+  SET code = EXCLUDED.code,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = EXCLUDED.updated_at;
+
+  RETURN v_code;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION rotate_quiz_access_code(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION rotate_quiz_access_code(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION remove_quiz_access_code(p_quiz_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_access_quiz(p_quiz_id, 'editor') THEN
+    RAISE EXCEPTION 'Only editors can change the access code';
+  END IF;
+
+  DELETE FROM quiz_access_codes WHERE quiz_id = p_quiz_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION remove_quiz_access_code(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION remove_quiz_access_code(uuid) TO authenticated;
+
+-- The old signature would start attempts without a code
+DROP FUNCTION IF EXISTS start_quiz_attempt(uuid, text, text, text);
+
+CREATE FUNCTION start_quiz_attempt(
+  p_quiz_id uuid,
+  p_access_code text DEFAULT NULL,
+  p_student_name text DEFAULT NULL,
+  p_student_email text DEFAULT NULL,
+  p_student_register_number text DEFAULT NULL
+)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_access_code text;
+  v_client text;
+  v_question_order jsonb;
+  v_option_orders jsonb;
+  v_attempt quiz_attempts;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available';
+  END IF;
+
+  SELECT code INTO v_access_code FROM quiz_access_codes WHERE quiz_id = p_quiz_id;
+
+  IF v_access_code IS NOT NULL THEN
+    -- The first address the API gateway saw the request come from
+    v_client := coalesce(
+      nullif(trim(split_part(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ',', 1)), ''),
+      'unknown'
+    );
+
+    IF (
+      SELECT count(*)
+      FROM quiz_access_code_failures
+      WHERE quiz_id = p_quiz_id
+        AND client = v_client
+        AND failed_at > now() - interval '15 minutes'
+    ) >= 5 THEN
+      RAISE EXCEPTION 'Too many incorrect access codes, try again later';
+    END IF;
+
+    -- Raising would roll back the recorded failure, so return no attempt
+    IF upper(trim(coalesce(p_access_code, ''))) <> v_access_code THEN
+      DELETE FROM quiz_access_code_failures
+      WHERE quiz_id = p_quiz_id
+        AND client = v_client
+        AND failed_at <= now() - interval '15 minutes';
+
+      INSERT INTO quiz_access_code_failures (quiz_id, client) VALUES (p_quiz_id, v_client);
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  IF NOT is_on_quiz_roster(p_quiz_id, p_student_name, p_student_email, p_student_register_number) THEN
+    RAISE EXCEPTION 'Student details are not on the class roster for this quiz';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  -- Draw from each section, then order the drawn questions. random() is
+  -- null when shuffling is off, leaving the canonical order.
+  SELECT coalesce(
+    jsonb_agg(d.position ORDER BY CASE WHEN v_quiz.shuffle_questions THEN random() END, d.position),
+    '[]'::jsonb
+  )
+  INTO v_question_order
+  FROM (
+    SELECT
+      o.position,
+      (o.question).section AS section,
+      row_number() OVER (PARTITION BY (o.question).section ORDER BY random()) AS draw_rank
+    FROM ordered_questions(p_quiz_id) o
+  ) d
+  WHERE d.draw_rank <= coalesce(
+    CASE
+      WHEN d.section IS NULL THEN v_quiz.questions_per_attempt
+      ELSE (v_quiz.section_draw_counts ->> d.section)::integer
+    END,
+    d.draw_rank
+  );
+
+  SELECT coalesce(
+    jsonb_agg(
+      (
+        SELECT coalesce(
+          jsonb_agg(i ORDER BY CASE WHEN v_quiz.shuffle_options THEN random() END, i),
+          '[]'::jsonb
+        )
+        FROM generate_series(0, jsonb_array_length((o.question).options) - 1) i
+      )
+      ORDER BY o.position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_option_orders
+  FROM ordered_questions(p_quiz_id) o;
+
+  INSERT INTO quiz_attempts (quiz_id, quiz_version, question_order, option_orders, access_code)
+  VALUES (p_quiz_id, v_quiz.version, v_question_order, v_option_orders, v_access_code)
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_quiz_attempt(uuid, text, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(uuid, text, text, text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_version integer;
+  v_attempt quiz_attempts;
+  v_served jsonb;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  IF NOT is_on_quiz_roster(p_quiz_id, p_student_name, p_student_email, p_student_register_number) THEN
+    RAISE EXCEPTION 'Student details are not on the class roster for this quiz';
+  END IF;
+
+  SELECT time_limit_minutes, version INTO v_time_limit, v_version FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  -- The quiz was edited during the attempt: move answers to the current
+  -- positions of the same questions. Questions added since were not served.
+  IF v_attempt.quiz_version <> v_version THEN
+    WITH moved AS (
+      SELECT o.position, old.position AS old_position
+      FROM ordered_questions(p_quiz_id) o
+      LEFT JOIN LATERAL (
+        SELECT (x.n - 1)::integer AS position
+        FROM quiz_versions v
+        CROSS JOIN LATERAL jsonb_array_elements(v.questions) WITH ORDINALITY x(question, n)
+        WHERE v.quiz_id = p_quiz_id
+          AND v.version = v_attempt.quiz_version
+          AND (x.question ->> 'id')::uuid = (o.question).id
+      ) old ON true
+    )
+    SELECT
+      coalesce(jsonb_agg(coalesce(p_answers -> m.old_position, '""') ORDER BY m.position), '[]'::jsonb),
+      coalesce(jsonb_agg(coalesce(v_attempt.option_orders -> m.old_position, '[]') ORDER BY m.position), '[]'::jsonb),
+      (
+        SELECT coalesce(jsonb_agg(s.position ORDER BY q.n), '[]'::jsonb)
+        FROM jsonb_array_elements_text(v_attempt.question_order) WITH ORDINALITY q(old_position, n)
+        JOIN moved s ON s.old_position = q.old_position::integer
+      )
+    INTO p_answers, v_attempt.option_orders, v_attempt.question_order
+    FROM moved m;
+  END IF;
+
+  v_served := served_positions(p_quiz_id, v_attempt.question_order);
+  v_total := jsonb_array_length(v_served);
+  v_scores := score_questions(p_quiz_id, p_answers, v_served);
+  v_max_score := quiz_max_score(p_quiz_id, v_served);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    quiz_version,
+    started_at,
+    is_late,
+    access_code
+  )
+  VALUES (
+    p_quiz_id,
+    auth.uid(),
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers, v_served),
+    v_scores,
+    has_ungraded(v_scores, v_served),
+    v_total,
+    v_max_score,
+    v_served,
+    v_attempt.option_orders,
+    v_version,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds',
+    v_attempt.access_code
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers, v_served)
+  );
+END;
+$$;
@@ -0,0 +1,32 @@
+/*
+  # Answer patterns are checked as PostgreSQL regular expressions
+
+  1. New Functions
+    - `is_valid_answer_pattern(pattern)` - the pattern compiles as the
+      case-insensitive PostgreSQL regular expression that grading runs
+
+  2. Changes
+    - `questions` and `bank_questions` reject answer patterns that do not
+      compile, instead of failing when a student submits. Existing rows are
+      not re-checked.
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_answer_pattern(p_pattern text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  PERFORM '' ~* p_pattern;
+  RETURN true;
+EXCEPTION
+  WHEN invalid_regular_expression THEN
+    RETURN false;
+END;
+$$;
+
+ALTER TABLE questions ADD CONSTRAINT questions_answer_pattern_check
+  CHECK (answer_pattern IS NULL OR is_valid_answer_pattern(answer_pattern)) NOT VALID;
+
+ALTER TABLE bank_questions ADD CONSTRAINT bank_questions_answer_pattern_check
+  CHECK (answer_pattern IS NULL OR is_valid_answer_pattern(answer_pattern)) NOT VALID;
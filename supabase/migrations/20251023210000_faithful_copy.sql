@@ -0,0 +1,40 @@
+/*
+  # Bank edits record a new quiz version
+
+  1. Changed Functions
+    - `propagate_bank_question` records a new version of every quiz whose
+      questions it changed, the same way `save_quiz` does, so version
+      history, the answer remapping in `submit_response` and the reviews of
+      earlier responses stay in line with the questions students are graded
+      on. It now runs with the owner's rights, so quizzes shared with other
+      teachers get the edit too.
+*/
+
+CREATE OR REPLACE FUNCTION propagate_bank_question()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz_id uuid;
+BEGIN
+  FOR v_quiz_id IN
+    SELECT id FROM quizzes
+    WHERE id IN (SELECT quiz_id FROM questions WHERE bank_question_id = NEW.id)
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    -- Touching the linked rows is enough: the copy trigger fills in the content
+    UPDATE questions
+    SET bank_question_id = NEW.id
+    WHERE quiz_id = v_quiz_id
+      AND bank_question_id = NEW.id;
+
+    -- Edits to tags or difficulty only keep the current version
+    PERFORM record_quiz_version(v_quiz_id, NULL);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
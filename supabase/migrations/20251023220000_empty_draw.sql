@@ -0,0 +1,144 @@
+/*
+  # Reject attempts whose questions were all deleted
+
+  1. Changed Functions
+    - `submit_response` rejects an attempt when every question it served
+      was deleted from the quiz during the attempt. Its answers used to be
+      graded against all of the quiz's current questions, which the student
+      never saw.
+*/
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_version integer;
+  v_attempt quiz_attempts;
+  v_served jsonb;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  IF NOT is_on_quiz_roster(p_quiz_id, p_student_name, p_student_email, p_student_register_number) THEN
+    RAISE EXCEPTION 'Student details are not on the class roster for this quiz';
+  END IF;
+
+  SELECT time_limit_minutes, version INTO v_time_limit, v_version FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  -- The quiz was edited during the attempt: move answers to the current
+  -- positions of the same questions. Questions added since were not served.
+  IF v_attempt.quiz_version <> v_version THEN
+    WITH moved AS (
+      SELECT o.position, old.position AS old_position
+      FROM ordered_questions(p_quiz_id) o
+      LEFT JOIN LATERAL (
+        SELECT (x.n - 1)::integer AS position
+        FROM quiz_versions v
+        CROSS JOIN LATERAL jsonb_array_elements(v.questions) WITH ORDINALITY x(question, n)
+        WHERE v.quiz_id = p_quiz_id
+          AND v.version = v_attempt.quiz_version
+          AND (x.question ->> 'id')::uuid = (o.question).id
+      ) old ON true
+    )
+    SELECT
+      coalesce(jsonb_agg(coalesce(p_answers -> m.old_position, '""') ORDER BY m.position), '[]'::jsonb),
+      coalesce(jsonb_agg(coalesce(v_attempt.option_orders -> m.old_position, '[]') ORDER BY m.position), '[]'::jsonb),
+      (
+        SELECT coalesce(jsonb_agg(s.position ORDER BY q.n), '[]'::jsonb)
+        FROM jsonb_array_elements_text(v_attempt.question_order) WITH ORDINALITY q(old_position, n)
+        JOIN moved s ON s.old_position = q.old_position::integer
+      )
+    INTO p_answers, v_attempt.option_orders, v_attempt.question_order
+    FROM moved m;
+
+    -- An empty order would mean every question, including ones never served
+    IF jsonb_array_length(v_attempt.question_order) = 0 THEN
+      RAISE EXCEPTION 'None of the questions in this attempt are still in the quiz';
+    END IF;
+  END IF;
+
+  v_served := served_positions(p_quiz_id, v_attempt.question_order);
+  v_total := jsonb_array_length(v_served);
+  v_scores := score_questions(p_quiz_id, p_answers, v_served);
+  v_max_score := quiz_max_score(p_quiz_id, v_served);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    quiz_version,
+    started_at,
+    is_late,
+    access_code
+  )
+  VALUES (
+    p_quiz_id,
+    auth.uid(),
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers, v_served),
+    v_scores,
+    has_ungraded(v_scores, v_served),
+    v_total,
+    v_max_score,
+    v_served,
+    v_attempt.option_orders,
+    v_version,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds',
+    v_attempt.access_code
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', review_answers(p_quiz_id, p_answers, v_served)
+  );
+END;
+$$;
@@ -0,0 +1,87 @@
+/*
+  # Restoring brings back the old content of bank questions
+
+  1. Changed Functions
+    - `restore_quiz_version` unlinks restored questions whose bank question
+      has been edited since the version was saved. They keep the content
+      they had in that version instead of being overwritten with the bank
+      question's current content. Questions whose content still matches
+      the bank stay linked.
+*/
+
+CREATE OR REPLACE FUNCTION restore_quiz_version(p_quiz_id uuid, p_version integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version quiz_versions;
+BEGIN
+  PERFORM 1
+  FROM quizzes
+  WHERE id = p_quiz_id
+    AND can_access_quiz(id, 'editor')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  SELECT * INTO v_version
+  FROM quiz_versions
+  WHERE quiz_id = p_quiz_id
+    AND version = p_version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  PERFORM update_quiz_settings(p_quiz_id, v_version.settings);
+  PERFORM apply_quiz_questions(
+    p_quiz_id,
+    (
+      SELECT coalesce(
+        jsonb_agg(
+          CASE
+            WHEN EXISTS (
+              SELECT 1 FROM bank_questions b
+              WHERE b.id = (x.question ->> 'bank_question_id')::uuid
+                AND (
+                  b.created_by = auth.uid()
+                  OR EXISTS (
+                    SELECT 1 FROM questions q
+                    WHERE q.quiz_id = p_quiz_id
+                      AND q.bank_question_id = b.id
+                  )
+                )
+                -- The copy trigger would replace older content with the
+                -- bank question's current content
+                AND x.question @> jsonb_build_object(
+                  'question_text', b.question_text,
+                  'question_type', b.question_type,
+                  'options', b.options,
+                  'correct_answer', b.correct_answer,
+                  'correct_answers', b.correct_answers,
+                  'partial_credit', b.partial_credit,
+                  'answer_pattern', b.answer_pattern,
+                  'tolerance', b.tolerance,
+                  'tolerance_mode', b.tolerance_mode
+                )
+            ) THEN x.question
+            ELSE jsonb_set(x.question, '{bank_question_id}', 'null')
+          END
+          ORDER BY x.n
+        ),
+        '[]'::jsonb
+      )
+      FROM jsonb_array_elements(v_version.questions) WITH ORDINALITY x(question, n)
+    )
+  );
+
+  RETURN record_quiz_version(p_quiz_id, p_version);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restore_quiz_version(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restore_quiz_version(uuid, integer) TO authenticated;
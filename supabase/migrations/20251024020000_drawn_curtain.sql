@@ -0,0 +1,297 @@
+/*
+  # When students see their answers reviewed
+
+  1. Changes
+    - `quizzes.review_visibility` (text, default 'after_submit') - when
+      students see the correct answers, their marks per question and
+      feedback: 'after_submit', 'after_close' (once the quiz is no longer
+      open) or 'never'. Saved with each version like the other settings.
+
+  2. New Functions
+    - `quiz_review_visible(quiz_id)` - the quiz's review can be shown to
+      students now
+
+  3. Changed Functions
+    - `quiz_settings` and `update_quiz_settings` include the new setting
+    - `submit_response` returns no review while it is hidden
+    - `review_response` returns null while the review is hidden, so
+      `get_my_attempts` only shows it once it is revealed.
+      `get_my_attempts` also returns the quiz's setting.
+*/
+
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS review_visibility text NOT NULL DEFAULT 'after_submit'
+  CHECK (review_visibility IN ('after_submit', 'after_close', 'never'));
+
+CREATE OR REPLACE FUNCTION quiz_settings(p_quiz quizzes)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'title', p_quiz.title,
+    'description', p_quiz.description,
+    'time_limit_minutes', p_quiz.time_limit_minutes,
+    'opens_at', p_quiz.opens_at,
+    'closes_at', p_quiz.closes_at,
+    'max_attempts', p_quiz.max_attempts,
+    'shuffle_questions', p_quiz.shuffle_questions,
+    'shuffle_options', p_quiz.shuffle_options,
+    'questions_per_attempt', p_quiz.questions_per_attempt,
+    'section_draw_counts', p_quiz.section_draw_counts,
+    'review_visibility', p_quiz.review_visibility
+  );
+$$;
+
+UPDATE quiz_versions v
+SET settings = v.settings || jsonb_build_object('review_visibility', 'after_submit')
+WHERE NOT v.settings ? 'review_visibility';
+
+CREATE OR REPLACE FUNCTION update_quiz_settings(p_quiz_id uuid, p_settings jsonb)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  -- Settings missing from p_settings keep their current value
+  UPDATE quizzes q
+  SET (
+    title, description, time_limit_minutes, opens_at, closes_at, max_attempts,
+    shuffle_questions, shuffle_options, questions_per_attempt, section_draw_counts,
+    review_visibility
+  ) = (
+    SELECT
+      r.title, r.description, r.time_limit_minutes, r.opens_at, r.closes_at, r.max_attempts,
+      r.shuffle_questions, r.shuffle_options, r.questions_per_attempt, r.section_draw_counts,
+      r.review_visibility
+    FROM jsonb_populate_record(q, p_settings) r
+  )
+  WHERE q.id = p_quiz_id;
+$$;
+
+REVOKE ALL ON FUNCTION update_quiz_settings(uuid, jsonb) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION quiz_review_visible(p_quiz_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM quizzes
+    WHERE id = p_quiz_id
+      AND (
+        review_visibility = 'after_submit'
+        OR (review_visibility = 'after_close' AND NOT quiz_is_open(id))
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION quiz_review_visible(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION review_response(p_response responses)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- Null while the quiz keeps its answers hidden
+  SELECT CASE WHEN quiz_review_visible(p_response.quiz_id) THEN coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'position', x.position,
+        'question_text', x.question ->> 'question_text',
+        'question_type', x.question ->> 'question_type',
+        'answer', coalesce(p_response.answers -> x.position, '""'),
+        'correct_answer', correct_answer_of(jsonb_populate_record(NULL::questions, x.question)),
+        'points', coalesce(p_response.question_scores -> x.position, 'null'),
+        'max_points', (x.question ->> 'points')::numeric,
+        'feedback', coalesce(p_response.question_feedback -> x.position, 'null')
+      )
+      ORDER BY s.n
+    ),
+    '[]'::jsonb
+  ) END
+  FROM quiz_versions v
+  CROSS JOIN LATERAL (
+    SELECT (q.n - 1)::integer AS position, q.question
+    FROM jsonb_array_elements(v.questions) WITH ORDINALITY q(question, n)
+  ) x
+  -- Served order; responses from before question drawing served every question
+  JOIN LATERAL (
+    SELECT o.n
+    FROM jsonb_array_elements_text(
+      CASE
+        WHEN jsonb_array_length(p_response.question_order) > 0 THEN p_response.question_order
+        ELSE (SELECT coalesce(jsonb_agg(i), '[]'::jsonb) FROM generate_series(0, jsonb_array_length(v.questions) - 1) i)
+      END
+    ) WITH ORDINALITY o(position, n)
+    WHERE o.position::integer = x.position
+  ) s ON true
+  WHERE v.quiz_id = p_response.quiz_id
+    AND v.version = p_response.quiz_version;
+$$;
+
+REVOKE ALL ON FUNCTION review_response(responses) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION get_my_attempts()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'response', to_jsonb(r),
+        'quiz_title', q.title,
+        'review_visibility', q.review_visibility,
+        'review', review_response(r)
+      )
+      ORDER BY r.submitted_at DESC
+    ),
+    '[]'::jsonb
+  )
+  FROM responses r
+  JOIN quizzes q ON q.id = r.quiz_id
+  WHERE r.student_id = auth.uid();
+$$;
+
+REVOKE ALL ON FUNCTION get_my_attempts() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_my_attempts() TO authenticated;
+
+CREATE OR REPLACE FUNCTION submit_response(
+  p_quiz_id uuid,
+  p_attempt_id uuid,
+  p_student_name text,
+  p_student_email text,
+  p_student_register_number text,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_limit integer;
+  v_version integer;
+  v_attempt quiz_attempts;
+  v_served jsonb;
+  v_total integer;
+  v_scores jsonb;
+  v_max_score numeric;
+  v_response responses;
+BEGIN
+  IF NOT quiz_is_open(p_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz is not available for submissions';
+  END IF;
+
+  IF NOT is_on_quiz_roster(p_quiz_id, p_student_name, p_student_email, p_student_register_number) THEN
+    RAISE EXCEPTION 'Student details are not on the class roster for this quiz';
+  END IF;
+
+  SELECT time_limit_minutes, version INTO v_time_limit, v_version FROM quizzes WHERE id = p_quiz_id;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+    AND quiz_id = p_quiz_id
+    AND submitted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found or already submitted';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  UPDATE quiz_attempts SET submitted_at = now() WHERE id = v_attempt.id;
+
+  -- The quiz was edited during the attempt: move answers to the current
+  -- positions of the same questions. Questions added since were not served.
+  IF v_attempt.quiz_version <> v_version THEN
+    WITH moved AS (
+      SELECT o.position, old.position AS old_position
+      FROM ordered_questions(p_quiz_id) o
+      LEFT JOIN LATERAL (
+        SELECT (x.n - 1)::integer AS position
+        FROM quiz_versions v
+        CROSS JOIN LATERAL jsonb_array_elements(v.questions) WITH ORDINALITY x(question, n)
+        WHERE v.quiz_id = p_quiz_id
+          AND v.version = v_attempt.quiz_version
+          AND (x.question ->> 'id')::uuid = (o.question).id
+      ) old ON true
+    )
+    SELECT
+      coalesce(jsonb_agg(coalesce(p_answers -> m.old_position, '""') ORDER BY m.position), '[]'::jsonb),
+      coalesce(jsonb_agg(coalesce(v_attempt.option_orders -> m.old_position, '[]') ORDER BY m.position), '[]'::jsonb),
+      (
+        SELECT coalesce(jsonb_agg(s.position ORDER BY q.n), '[]'::jsonb)
+        FROM jsonb_array_elements_text(v_attempt.question_order) WITH ORDINALITY q(old_position, n)
+        JOIN moved s ON s.old_position = q.old_position::integer
+      )
+    INTO p_answers, v_attempt.option_orders, v_attempt.question_order
+    FROM moved m;
+
+    -- An empty order would mean every question, including ones never served
+    IF jsonb_array_length(v_attempt.question_order) = 0 THEN
+      RAISE EXCEPTION 'None of the questions in this attempt are still in the quiz';
+    END IF;
+  END IF;
+
+  v_served := served_positions(p_quiz_id, v_attempt.question_order);
+  v_total := jsonb_array_length(v_served);
+  v_scores := score_questions(p_quiz_id, p_answers, v_served);
+  v_max_score := quiz_max_score(p_quiz_id, v_served);
+
+  INSERT INTO responses (
+    quiz_id,
+    student_id,
+    student_name,
+    student_email,
+    student_register_number,
+    answers,
+    score,
+    question_scores,
+    needs_grading,
+    total_questions,
+    max_score,
+    question_order,
+    option_orders,
+    quiz_version,
+    started_at,
+    is_late,
+    access_code
+  )
+  VALUES (
+    p_quiz_id,
+    auth.uid(),
+    trim(p_student_name),
+    trim(p_student_email),
+    trim(p_student_register_number),
+    p_answers,
+    grade_answers(p_quiz_id, p_answers, v_served),
+    v_scores,
+    has_ungraded(v_scores, v_served),
+    v_total,
+    v_max_score,
+    v_served,
+    v_attempt.option_orders,
+    v_version,
+    v_attempt.started_at,
+    v_time_limit IS NOT NULL
+      AND now() > v_attempt.started_at + make_interval(mins => v_time_limit) + interval '30 seconds',
+    v_attempt.access_code
+  )
+  RETURNING * INTO v_response;
+
+  RETURN jsonb_build_object(
+    'response', to_jsonb(v_response),
+    'review', CASE WHEN quiz_review_visible(p_quiz_id) THEN review_answers(p_quiz_id, p_answers, v_served) END
+  );
+END;
+$$;
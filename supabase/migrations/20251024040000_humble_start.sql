@@ -0,0 +1,63 @@
+/*
+  # New accounts start as students
+
+  1. Changes
+    - `create_profile` makes every new account a student, whatever role the
+      sign-up metadata asks for; `profiles.role` defaults to 'student'
+
+  2. New Functions
+    - `grant_teacher_role(email)` - admin only: makes the student account
+      with that email a teacher
+*/
+
+ALTER TABLE profiles ALTER COLUMN role SET DEFAULT 'student';
+
+CREATE OR REPLACE FUNCTION create_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, role, full_name, register_number)
+  VALUES (
+    NEW.id,
+    'student',
+    nullif(trim(NEW.raw_user_meta_data ->> 'full_name'), ''),
+    nullif(trim(NEW.raw_user_meta_data ->> 'register_number'), '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_profile() FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION grant_teacher_role(p_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can add teachers';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(trim(p_email));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  -- Teachers and admins keep their role
+  UPDATE profiles SET role = 'teacher' WHERE id = v_user_id AND role = 'student';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION grant_teacher_role(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION grant_teacher_role(text) TO authenticated;
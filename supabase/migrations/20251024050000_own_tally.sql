@@ -0,0 +1,39 @@
+/*
+  # Remaining attempts are only shown for the caller's own account
+
+  1. Changed Functions
+    - `get_attempts_remaining(quiz_id)` replaces the email and register
+      number arguments with the signed-in caller's account email and
+      register number, and is no longer granted to anonymous visitors, so
+      nobody can look up how often another student has submitted.
+      Anonymous students still hit the limit when they submit.
+*/
+
+DROP FUNCTION IF EXISTS get_attempts_remaining(uuid, text, text);
+
+CREATE FUNCTION get_attempts_remaining(p_quiz_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN q.max_attempts IS NULL THEN NULL
+    ELSE greatest(
+      q.max_attempts - count_student_attempts(
+        q.id,
+        (SELECT email FROM auth.users WHERE id = auth.uid()),
+        (SELECT register_number FROM profiles WHERE id = auth.uid())
+      ),
+      0
+    )
+  END
+  FROM quizzes q
+  WHERE q.id = p_quiz_id
+    AND quiz_is_open(q.id)
+    AND auth.uid() IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION get_attempts_remaining(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempts_remaining(uuid) TO authenticated;
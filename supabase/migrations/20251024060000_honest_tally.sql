@@ -0,0 +1,107 @@
+/*
+  # Multiple-select scoring ignores picks that are not options
+
+  1. Changed Functions
+    - `grade_question` only counts selected values that are options of the
+      question as wrong picks, so a submission padded with made-up values
+      cannot push a 'per_option' score below zero; the score is also
+      clamped at 0
+*/
+
+CREATE OR REPLACE FUNCTION grade_question(p_question questions, p_answer jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_selected jsonb;
+  v_text text;
+  v_value numeric;
+  v_expected numeric;
+  v_allowed numeric;
+  v_correct_count integer;
+  v_option_count integer;
+  v_hits integer;
+  v_wrong integer;
+BEGIN
+  IF p_question.question_type = 'multiple_select' THEN
+    v_selected := CASE
+      WHEN jsonb_typeof(p_answer) = 'array' THEN p_answer
+      ELSE '[]'::jsonb
+    END;
+    v_correct_count := jsonb_array_length(p_question.correct_answers);
+    v_option_count := jsonb_array_length(p_question.options);
+
+    SELECT
+      count(DISTINCT s) FILTER (WHERE p_question.correct_answers ? s),
+      count(DISTINCT s) FILTER (WHERE p_question.options ? s AND NOT p_question.correct_answers ? s)
+    INTO v_hits, v_wrong
+    FROM jsonb_array_elements_text(v_selected) s;
+
+    IF v_correct_count = 0 THEN
+      RETURN 0;
+    END IF;
+
+    RETURN CASE p_question.partial_credit
+      WHEN 'right_minus_wrong' THEN
+        round(greatest(v_hits - v_wrong, 0)::numeric / v_correct_count, 4)
+      WHEN 'per_option' THEN
+        round(greatest(v_hits + (v_option_count - v_correct_count - v_wrong), 0)::numeric / v_option_count, 4)
+      ELSE
+        CASE WHEN v_hits = v_correct_count AND v_wrong = 0 THEN 1 ELSE 0 END
+    END;
+  END IF;
+
+  v_text := p_answer #>> '{}';
+
+  -- Essays are graded by the teacher; unanswered ones have nothing to grade
+  IF p_question.question_type = 'essay' THEN
+    RETURN CASE WHEN coalesce(trim(v_text), '') = '' THEN 0 END;
+  END IF;
+
+  IF p_question.question_type = 'short_answer' THEN
+    IF v_text IS NULL OR trim(v_text) = '' THEN
+      RETURN 0;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(p_question.correct_answers) accepted
+      WHERE normalize_answer(accepted) = normalize_answer(v_text)
+    ) THEN
+      RETURN 1;
+    END IF;
+
+    IF coalesce(p_question.answer_pattern, '') <> '' THEN
+      BEGIN
+        IF trim(v_text) ~* ('^(?:' || p_question.answer_pattern || ')$') THEN
+          RETURN 1;
+        END IF;
+      EXCEPTION WHEN invalid_regular_expression THEN
+        RETURN 0;
+      END;
+    END IF;
+
+    RETURN 0;
+  END IF;
+
+  IF p_question.question_type = 'numeric' THEN
+    v_value := parse_numeric(v_text);
+    v_expected := parse_numeric(p_question.correct_answer);
+
+    IF v_value IS NULL OR v_expected IS NULL THEN
+      RETURN 0;
+    END IF;
+
+    v_allowed := CASE p_question.tolerance_mode
+      WHEN 'relative' THEN abs(v_expected) * p_question.tolerance / 100
+      ELSE p_question.tolerance
+    END;
+
+    RETURN CASE WHEN abs(v_value - v_expected) <= v_allowed THEN 1 ELSE 0 END;
+  END IF;
+
+  RETURN CASE WHEN v_text = p_question.correct_answer THEN 1 ELSE 0 END;
+END;
+$$;